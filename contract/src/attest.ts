@@ -0,0 +1,146 @@
+/**
+ * Attestation tool for certifiers (insurers, certification bodies, credit agencies).
+ *
+ * Usage:
+ *   npm run build
+ *   npm run attest -- keygen --criterion 2
+ *   npm run attest -- issue --secret-key <hex> --vendor-id 999 --criterion 2 --valid-until 2027-01-01
+ *
+ * --criterion is a compliance criterion id procurement defined with defineCriterion.
+ *
+ * keygen prints a new certifier key pair. The public key is handed to procurement,
+ * who registers it on the ledger with registerCertifier for one compliance criterion.
+ *
+ * issue signs an attestation for one vendor and criterion and prints it as JSON.
+ * The vendor loads it into private state; checkCompliance verifies the signature
+ * inside the circuit, so neither the signature nor the certifier is published.
+ */
+
+import { parseArgs } from "node:util";
+import type { NativePoint } from "@midnight-ntwrk/compact-runtime";
+
+import { pureCircuits } from "./managed/blinding/contract/index.js";
+import { JUBJUB_ORDER, issueAttestation, randomScalar } from "./attestation.js";
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+const toHexScalar = (scalar: bigint) => scalar.toString(16).padStart(64, "0");
+
+function parseScalar(hex: string): bigint {
+  const clean = hex.trim().replace(/^0x/, "");
+  if (!/^[0-9a-fA-F]{1,64}$/.test(clean)) {
+    throw new Error("Certifier secret key must be hex");
+  }
+  const scalar = BigInt(`0x${clean}`);
+  if (scalar === 0n || scalar >= JUBJUB_ORDER) {
+    throw new Error("Certifier secret key is out of range");
+  }
+  return scalar;
+}
+
+function parseCriterion(id: string | undefined): bigint {
+  // Criterion ids are Uint<32>; 0 marks an unused compliance profile slot
+  if (
+    id === undefined ||
+    !/^\d+$/.test(id) ||
+    BigInt(id) === 0n ||
+    BigInt(id) >= 2n ** 32n
+  ) {
+    throw new Error(
+      "--criterion must be a compliance criterion id (1 to 4294967295)"
+    );
+  }
+  return BigInt(id);
+}
+
+const formatPoint = (point: NativePoint) => ({
+  x: point.x.toString(),
+  y: point.y.toString()
+});
+
+// ---------------------------------------------------------------------------
+// Main
+// ---------------------------------------------------------------------------
+function main() {
+  const { positionals, values } = parseArgs({
+    allowPositionals: true,
+    options: {
+      "secret-key": { type: "string" },
+      "vendor-id": { type: "string" },
+      criterion: { type: "string" },
+      "valid-until": { type: "string" }
+    }
+  });
+
+  switch (positionals[0]) {
+    case "keygen": {
+      const criterion = parseCriterion(values.criterion);
+      const secretKey = randomScalar();
+      console.log(
+        JSON.stringify(
+          {
+            criterion: criterion.toString(),
+            secretKey: toHexScalar(secretKey),
+            publicKey: formatPoint(pureCircuits.certifierPublicKey(secretKey))
+          },
+          null,
+          2
+        )
+      );
+      console.error(
+        "⚠ Keep secretKey private; give publicKey to procurement for registerCertifier."
+      );
+      return;
+    }
+    case "issue": {
+      if (
+        !values["secret-key"] ||
+        !values["vendor-id"] ||
+        !values["valid-until"]
+      ) {
+        throw new Error(
+          "issue requires --secret-key, --vendor-id, --criterion and --valid-until"
+        );
+      }
+      const criterion = parseCriterion(values.criterion);
+      const validUntilMs = Date.parse(values["valid-until"]);
+      if (Number.isNaN(validUntilMs)) {
+        throw new Error("--valid-until must be a date, e.g. 2027-01-01");
+      }
+      const vendorId = BigInt(values["vendor-id"]);
+      const attestation = issueAttestation(
+        parseScalar(values["secret-key"]),
+        vendorId,
+        criterion,
+        BigInt(Math.floor(validUntilMs / 1000))
+      );
+      console.log(
+        JSON.stringify(
+          {
+            vendorId: vendorId.toString(),
+            criterion: criterion.toString(),
+            attestation: {
+              certifier: formatPoint(attestation.certifier),
+              validUntil: attestation.validUntil.toString(),
+              nonceCommitment: formatPoint(attestation.nonceCommitment),
+              signature: attestation.signature.toString()
+            }
+          },
+          null,
+          2
+        )
+      );
+      return;
+    }
+    default:
+      throw new Error("Usage: attest <keygen|issue> [options]");
+  }
+}
+
+try {
+  main();
+} catch (err) {
+  console.error(err instanceof Error ? err.message : err);
+  process.exit(1);
+}
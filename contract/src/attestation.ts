@@ -0,0 +1,55 @@
+/**
+ * Schnorr signing of certifier attestations over Jubjub, as checkCompliance verifies them.
+ *
+ * Used by the attest tool (npm run attest -- issue) and by the contract simulator tests.
+ */
+
+import { randomBytes } from "node:crypto";
+import { ecMulGenerator } from "@midnight-ntwrk/compact-runtime";
+
+import {
+  type Attestation,
+  pureCircuits
+} from "./managed/blinding/contract/index.js";
+
+// Order of the Jubjub prime-order subgroup (the scalar field of ecMulGenerator)
+export const JUBJUB_ORDER =
+  0x0e7db4ea6533afa906673b0101343b00a6682093ccc81082d0970e5ed6f72cb7n;
+
+export function randomScalar(): bigint {
+  // 64 random bytes reduced mod the group order: negligible bias
+  const scalar = BigInt(`0x${randomBytes(64).toString("hex")}`) % JUBJUB_ORDER;
+  return scalar === 0n ? randomScalar() : scalar;
+}
+
+/**
+ * Schnorr-sign an attestation: signature * G == nonceCommitment + challenge * certifier.
+ * The circuit multiplies by the challenge as a Jubjub scalar, so nonces are redrawn
+ * until the challenge is below the group order.
+ */
+export function issueAttestation(
+  secretKey: bigint,
+  vendorId: bigint,
+  criterion: bigint,
+  validUntil: bigint
+): Attestation {
+  const certifier = ecMulGenerator(secretKey);
+  for (;;) {
+    const nonce = randomScalar();
+    const nonceCommitment = ecMulGenerator(nonce);
+    const challenge = pureCircuits.attestationChallenge(
+      nonceCommitment,
+      certifier,
+      vendorId,
+      criterion,
+      validUntil
+    );
+    if (challenge >= JUBJUB_ORDER) continue;
+    return {
+      certifier,
+      validUntil,
+      nonceCommitment,
+      signature: (nonce + challenge * secretKey) % JUBJUB_ORDER
+    };
+  }
+}
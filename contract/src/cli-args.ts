@@ -0,0 +1,150 @@
+/**
+ * Argument parsing for the admin CLI (cli.ts): the command and its flags, flag values, and
+ * the caller's private state from CALLER_SECRET_KEY, --qualification and --attestation.
+ *
+ * Kept free of wallet and network code so it can be unit-tested on its own.
+ */
+
+import * as fs from "node:fs";
+import { parseArgs } from "node:util";
+
+import type {
+  Attestation,
+  VendorQualification
+} from "./managed/blinding/contract/index.js";
+import {
+  type BlindingPrivateState,
+  decodeIssuedAttestation,
+  decodeQualification
+} from "./witnesses.js";
+
+export const COMMANDS = [
+  "record-qualification",
+  "approve-qualification",
+  "is-vendor-qualified",
+  "commit-score",
+  "verify-qualification",
+  "check-compliance"
+] as const;
+
+export type Command = (typeof COMMANDS)[number];
+
+// Bad arguments or input files; the CLI exits with the usage exit code
+export class UsageError extends Error {}
+
+// ---------------------------------------------------------------------------
+// Arguments
+// ---------------------------------------------------------------------------
+// args defaults to the process arguments
+export function parseCliArgs(args?: string[]) {
+  const { positionals, values } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      json: { type: "boolean" },
+      address: { type: "string" },
+      network: { type: "string" },
+      wallet: { type: "string" },
+      "seed-env": { type: "string" },
+      "seed-file": { type: "string" },
+      timeout: { type: "string" },
+      round: { type: "string" },
+      "vendor-ref": { type: "string" },
+      proposal: { type: "string" },
+      profile: { type: "string" },
+      expires: { type: "string" },
+      "member-key": { type: "string" },
+      "evidence-hash": { type: "string" },
+      qualification: { type: "string" },
+      attestation: { type: "string", multiple: true }
+    }
+  });
+  const command = positionals[0] as Command;
+  if (!COMMANDS.includes(command)) {
+    throw new UsageError(`Usage: cli <${COMMANDS.join("|")}> [options]`);
+  }
+  return { command, values };
+}
+
+export type CliValues = ReturnType<typeof parseCliArgs>["values"];
+
+export function requireInt(value: string | undefined, flag: string): bigint {
+  if (value === undefined || !/^\d+$/.test(value)) {
+    throw new UsageError(`${flag} must be a non-negative integer`);
+  }
+  return BigInt(value);
+}
+
+export function parseBytes32(
+  value: string | undefined,
+  flag: string
+): Uint8Array {
+  const clean = value?.trim().replace(/^0x/, "") ?? "";
+  if (!/^[0-9a-fA-F]{64}$/.test(clean)) {
+    throw new UsageError(`${flag} must be 32 bytes of hex`);
+  }
+  return new Uint8Array(Buffer.from(clean, "hex"));
+}
+
+export function parseExpiry(value: string | undefined): bigint {
+  const ms = value === undefined ? NaN : Date.parse(value);
+  if (Number.isNaN(ms)) {
+    throw new UsageError("--expires must be a date, e.g. 2027-01-01");
+  }
+  return BigInt(Math.floor(ms / 1000));
+}
+
+// --timeout in seconds; 0 (no timeout) when it is not given
+export function parseTimeout(value: string | undefined): number {
+  const seconds = value ? Number(value) : 0;
+  if (!Number.isFinite(seconds) || seconds < 0) {
+    throw new UsageError(
+      `--timeout must be a number of seconds, got "${value}"`
+    );
+  }
+  return seconds;
+}
+
+// ---------------------------------------------------------------------------
+// Private state from CALLER_SECRET_KEY, --qualification and --attestation
+// ---------------------------------------------------------------------------
+// JSON input file decoded by decode; its errors are usage errors naming the file
+function readJsonFile<T>(file: string, decode: (json: unknown) => T): T {
+  try {
+    return decode(JSON.parse(fs.readFileSync(file, "utf-8")));
+  } catch (err) {
+    throw new UsageError(
+      `${file}: ${err instanceof Error ? err.message : String(err)}`
+    );
+  }
+}
+
+export function readQualification(file: string): VendorQualification {
+  return readJsonFile(file, (json) => decodeQualification(json));
+}
+
+// Reads the JSON printed by `npm run attest -- issue`; returns [criterion, attestation]
+export function readAttestation(file: string): [string, Attestation] {
+  return readJsonFile(file, decodeIssuedAttestation);
+}
+
+// Only the fields that were given; they are merged over the stored private state
+export function callerPrivateState(
+  values: CliValues
+): Partial<BlindingPrivateState> | undefined {
+  const secretKeyHex = process.env.CALLER_SECRET_KEY;
+  if (!secretKeyHex && !values.qualification && !values.attestation?.length) {
+    return undefined;
+  }
+  return {
+    secretKey: secretKeyHex
+      ? parseBytes32(secretKeyHex, "CALLER_SECRET_KEY")
+      : undefined,
+    qualification: values.qualification
+      ? readQualification(values.qualification)
+      : undefined,
+    attestations: values.attestation
+      ? Object.fromEntries(values.attestation.map(readAttestation))
+      : undefined
+  };
+}
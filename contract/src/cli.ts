@@ -0,0 +1,429 @@
+/**
+ * Admin CLI for calling circuits on a deployed blinding contract.
+ *
+ * Usage:
+ *   npm run build
+ *   npm run cli -- record-qualification --round 1 --vendor-ref <hex> --expires 2027-01-01 --member-key <hex>
+ *                  [--evidence-hash <hex>]
+ *   npm run cli -- approve-qualification --proposal 0
+ *   npm run cli -- is-vendor-qualified --round 1 --vendor-ref <hex>
+ *   npm run cli -- commit-score --qualification vendor.json
+ *   npm run cli -- verify-qualification --round 1 --qualification vendor.json
+ *   npm run cli -- check-compliance --profile 1 --round 1 --attestation att.json [--attestation ...]
+ *
+ * Common options:
+ *   --json                  print one JSON object on stdout (progress goes to stderr)
+ *   --address <hex>         contract to join (default: deployment.json)
+ *   --network <name>        networks.json profile (default: the one in deployment.json)
+ *   --wallet <name>         keystore wallet paying the fees (default: the one in deployment.json)
+ *   --seed-env / --seed-file  pay with a hex seed or mnemonic instead of a keystore wallet
+ *   --timeout <seconds>     give up waiting for sync, funds or dust
+ *
+ * record-qualification proposes the qualification as the calling officer, which counts
+ * as the officer's approval; the contract records it once k officers approved (k is at
+ * least 2, so approve-qualification always follows). recordQualification itself is
+ * internal to the approval flow.
+ *
+ * is-vendor-qualified runs the circuit locally against the current ledger and submits
+ * nothing, so the query is not published and the wallet only has to sync.
+ *
+ * The caller's secret key (officer or vendor) is read from CALLER_SECRET_KEY (hex).
+ * Vendors are named by their vendor reference (hex), which the vendor hands to procurement
+ * at enrolment; vendor ids never reach the ledger.
+ * --qualification is the vendor's private record ({ vendorId, referenceSalt, metrics, salt })
+ * and --attestation an `npm run attest -- issue` output. verify-qualification proves against
+ * the sub-metrics published once with commit-score, so both must use the same record.
+ * Whatever of these is given is merged into the private state stored on this machine, so
+ * check-compliance can pass only --attestation once commit-score stored the record.
+ * Exit codes are those of the deploy script (1 failed, 2 usage, 3-5 wallet timeouts).
+ */
+
+import * as fs from "node:fs";
+import {
+  type FoundContract,
+  type UnsubmittedCallTxData,
+  createUnprovenCallTx,
+  findDeployedContract
+} from "@midnight-ntwrk/midnight-js-contracts";
+import { toHex } from "@midnight-ntwrk/midnight-js-utils";
+
+import { type Contract, ledger } from "./managed/blinding/contract/index.js";
+import {
+  type BlindingPrivateState,
+  BlindingPrivateStateId
+} from "./witnesses.js";
+import {
+  type CliValues,
+  type Command,
+  UsageError,
+  callerPrivateState,
+  parseBytes32,
+  parseCliArgs,
+  parseExpiry,
+  parseTimeout,
+  requireInt
+} from "./cli-args.js";
+import { loadWallet, readPassphrase } from "./keystore.js";
+import { readSeedFlags } from "./seed.js";
+import {
+  EXIT_CODES,
+  WalletTimeoutError,
+  compileBlindingContract,
+  createProviders,
+  createWalletAndMidnightProvider,
+  deploymentPath,
+  mergedPrivateState,
+  prepareWallet,
+  readDeployment,
+  selectNetwork,
+  stopWallet,
+  syncWallet,
+  warnIfPlaintextSeed,
+  withStatus,
+  type DeploymentRecord
+} from "./wallet.js";
+
+// Tier names in the order of the Tier enum in blinding.compact
+const TIERS = ["none", "bronze", "silver", "gold"] as const;
+
+// Commands evaluated locally; they submit nothing, so the wallet needs no funds or dust
+const LOCAL_COMMANDS: readonly Command[] = ["is-vendor-qualified"];
+
+// Commands whose circuits read the vendor's qualification record from private state
+const RECORD_COMMANDS: readonly Command[] = [
+  "commit-score",
+  "verify-qualification",
+  "check-compliance"
+];
+
+// Proof time passed to receipt-writing circuits; a minute in the past, as the circuit
+// requires it to be before the block time
+const proofTimestamp = () => BigInt(Math.floor(Date.now() / 1000) - 60);
+
+// ---------------------------------------------------------------------------
+// Output
+// ---------------------------------------------------------------------------
+type CommandResult = { summary: string[]; data: Record<string, unknown> };
+
+// stdout as it was before --json moved progress output to stderr
+const writeStdout = process.stdout.write.bind(process.stdout);
+
+const jsonReplacer = (_key: string, value: unknown) =>
+  typeof value === "bigint"
+    ? value.toString()
+    : value instanceof Uint8Array
+      ? toHex(value)
+      : value;
+
+function printResult(
+  json: boolean,
+  command: Command,
+  { summary, data }: CommandResult
+) {
+  if (json) {
+    writeStdout(`${JSON.stringify({ command, ...data }, jsonReplacer)}\n`);
+    return;
+  }
+  console.log("");
+  for (const line of summary) {
+    console.log(`  ${line}`);
+  }
+  console.log("");
+}
+
+// ---------------------------------------------------------------------------
+// Main
+// ---------------------------------------------------------------------------
+async function main(): Promise<void> {
+  const { command, values } = parseCliArgs();
+  if (values.json) {
+    // Keep stdout for the JSON result; wallet progress and status lines go to stderr
+    process.stdout.write = process.stderr.write.bind(
+      process.stderr
+    ) as typeof process.stdout.write;
+  }
+
+  const timeoutSeconds = parseTimeout(values.timeout);
+
+  const deployment: DeploymentRecord | undefined = fs.existsSync(deploymentPath)
+    ? readDeployment()
+    : undefined;
+  if (deployment) {
+    warnIfPlaintextSeed(deployment);
+  }
+  if (deployment?.contract && deployment.contract !== "blinding") {
+    throw new UsageError(
+      `deployment.json is for the ${deployment.contract} contract, not blinding`
+    );
+  }
+  const contractAddress = values.address ?? deployment?.contractAddress;
+  if (!contractAddress) {
+    throw new UsageError("No contract address: pass --address or deploy first");
+  }
+  const network = selectNetwork(values.network ?? deployment?.profile);
+
+  // Arguments are checked before any wallet work
+  const run = commandRunner(command, values);
+  const privateStateFields = callerPrivateState(values);
+
+  const walletName = values.wallet ?? deployment?.wallet;
+  let seed = readSeedFlags(values);
+  if (!seed && walletName) {
+    seed = loadWallet(
+      walletName,
+      await readPassphrase({ interactive: !values.json })
+    );
+  }
+  if (!seed) {
+    throw new UsageError(
+      "No wallet: pass --wallet <name>, --seed-env or --seed-file"
+    );
+  }
+
+  console.log(`\n  Contract: ${contractAddress} (${network.name})\n`);
+  const timeoutMs = timeoutSeconds * 1000 || undefined;
+  const { wallet, walletAndMidnightProvider } = LOCAL_COMMANDS.includes(command)
+    ? await syncedWalletProvider(seed, timeoutMs)
+    : await prepareWallet(seed, timeoutMs);
+  const providers = createProviders(walletAndMidnightProvider);
+
+  const initialPrivateState = privateStateFields
+    ? await mergedPrivateState(
+        providers.privateStateProvider,
+        privateStateFields
+      )
+    : undefined;
+  if (RECORD_COMMANDS.includes(command)) {
+    const stored =
+      initialPrivateState ??
+      (await providers.privateStateProvider.get(BlindingPrivateStateId));
+    if (!stored?.qualification) {
+      throw new UsageError(
+        `${command} needs the vendor's record: pass --qualification <file>`
+      );
+    }
+  }
+
+  const contract = await withStatus("Joining deployed contract", () =>
+    findDeployedContract(providers, {
+      compiledContract: compileBlindingContract(),
+      contractAddress,
+      privateStateId: BlindingPrivateStateId,
+      ...(initialPrivateState ? { initialPrivateState } : {})
+    })
+  );
+
+  const readLedger = async () => {
+    const state =
+      await providers.publicDataProvider.queryContractState(contractAddress);
+    if (!state) {
+      throw new Error("Contract state not found on the indexer");
+    }
+    return ledger(state.data);
+  };
+
+  // Runs a circuit against the current ledger and private state without proving or submitting it
+  const evaluate: Evaluate = (circuitId, args) =>
+    createUnprovenCallTx(providers, {
+      compiledContract: compileBlindingContract(),
+      circuitId,
+      contractAddress,
+      privateStateId: BlindingPrivateStateId,
+      args
+    });
+
+  const result = await run({ contract, readLedger, evaluate });
+  printResult(values.json ?? false, command, result);
+
+  await stopWallet(wallet);
+  process.exit(0);
+}
+
+// A wallet that is synced but not funded, for commands that submit nothing
+async function syncedWalletProvider(seed: string, timeoutMs?: number) {
+  const {
+    wallet,
+    shieldedSecretKeys,
+    dustSecretKey,
+    unshieldedKeystore,
+    syncedState
+  } = await syncWallet(seed, timeoutMs);
+  const walletAndMidnightProvider = createWalletAndMidnightProvider(
+    wallet,
+    shieldedSecretKeys,
+    dustSecretKey,
+    unshieldedKeystore,
+    syncedState
+  );
+  return { wallet, walletAndMidnightProvider };
+}
+
+type BlindingContract = Contract<BlindingPrivateState>;
+
+type Evaluate = (
+  circuitId: "isVendorQualified",
+  args: [roundId: bigint, vendorRef: Uint8Array]
+) => Promise<UnsubmittedCallTxData<BlindingContract, "isVendorQualified">>;
+
+interface CommandContext {
+  contract: FoundContract<BlindingContract>;
+  readLedger: () => Promise<ReturnType<typeof ledger>>;
+  evaluate: Evaluate;
+}
+
+// Validates the command's flags and returns the call to make once the contract is joined
+function commandRunner(
+  command: Command,
+  values: CliValues
+): (context: CommandContext) => Promise<CommandResult> {
+  switch (command) {
+    case "record-qualification": {
+      const roundId = requireInt(values.round, "--round");
+      const vendorRef = parseBytes32(values["vendor-ref"], "--vendor-ref");
+      const expiresAt = parseExpiry(values.expires);
+      const memberKey = parseBytes32(values["member-key"], "--member-key");
+      const evidenceHash = values["evidence-hash"]
+        ? parseBytes32(values["evidence-hash"], "--evidence-hash")
+        : new Uint8Array(32);
+      return async ({ contract, readLedger }) => {
+        const tx = await withStatus(
+          `Proposing qualification of vendor ${toHex(vendorRef)} in round ${roundId}`,
+          () =>
+            contract.callTx.proposeQualification(
+              roundId,
+              vendorRef,
+              expiresAt,
+              memberKey,
+              evidenceHash
+            )
+        );
+        const [proposalId] = tx.private.result;
+        const proposal = (await readLedger()).proposals.lookup(proposalId);
+        return {
+          summary: [
+            `Proposal:  ${proposalId}`,
+            `Recorded:  ${proposal.executed ? "yes" : "no, waiting for more officer approvals"}`,
+            `Tx:        ${tx.public.txId}`
+          ],
+          data: {
+            roundId,
+            vendorRef,
+            expiresAt,
+            proposalId,
+            recorded: proposal.executed,
+            txId: tx.public.txId
+          }
+        };
+      };
+    }
+    case "approve-qualification": {
+      const proposalId = requireInt(values.proposal, "--proposal");
+      return async ({ contract }) => {
+        const tx = await withStatus(`Approving proposal ${proposalId}`, () =>
+          contract.callTx.approveQualification(proposalId)
+        );
+        const [recorded] = tx.private.result;
+        return {
+          summary: [
+            `Proposal:  ${proposalId}`,
+            `Recorded:  ${recorded ? "yes" : "no, waiting for more officer approvals"}`,
+            `Tx:        ${tx.public.txId}`
+          ],
+          data: { proposalId, recorded, txId: tx.public.txId }
+        };
+      };
+    }
+    case "is-vendor-qualified": {
+      const roundId = requireInt(values.round, "--round");
+      const vendorRef = parseBytes32(values["vendor-ref"], "--vendor-ref");
+      return async ({ evaluate }) => {
+        const tx = await withStatus(
+          `Checking vendor ${toHex(vendorRef)} in round ${roundId}`,
+          () => evaluate("isVendorQualified", [roundId, vendorRef])
+        );
+        const [qualified, tier] = tx.private.result;
+        return {
+          summary: [
+            `Qualified: ${qualified ? "yes" : "no"}`,
+            `Tier:      ${TIERS[tier]}`
+          ],
+          data: { roundId, vendorRef, qualified, tier: TIERS[tier] }
+        };
+      };
+    }
+    case "commit-score": {
+      return async ({ contract }) => {
+        const tx = await withStatus("Publishing score commitment", () =>
+          contract.callTx.commitScore()
+        );
+        return {
+          summary: [
+            "Score commitment published",
+            `Tx:        ${tx.public.txId}`
+          ],
+          data: { txId: tx.public.txId }
+        };
+      };
+    }
+    case "verify-qualification": {
+      const roundId = requireInt(values.round, "--round");
+      return async ({ contract }) => {
+        const provedAt = proofTimestamp();
+        const tx = await withStatus(
+          `Proving qualification in round ${roundId}`,
+          () => contract.callTx.verifyQualification(roundId, provedAt)
+        );
+        const [qualified] = tx.private.result;
+        return {
+          summary: [
+            `Qualified: ${qualified ? "yes" : "no"}`,
+            `Tx:        ${tx.public.txId}`
+          ],
+          data: { roundId, provedAt, qualified, txId: tx.public.txId }
+        };
+      };
+    }
+    case "check-compliance": {
+      const profileId = requireInt(values.profile, "--profile");
+      const roundId = requireInt(values.round, "--round");
+      return async ({ contract }) => {
+        const provedAt = proofTimestamp();
+        const tx = await withStatus(
+          `Proving compliance profile ${profileId} in round ${roundId}`,
+          () => contract.callTx.checkCompliance(profileId, roundId, provedAt)
+        );
+        const [compliant] = tx.private.result;
+        return {
+          summary: [
+            `Compliant: ${compliant ? "yes" : "no"}`,
+            `Tx:        ${tx.public.txId}`
+          ],
+          data: {
+            profileId,
+            roundId,
+            provedAt,
+            compliant,
+            txId: tx.public.txId
+          }
+        };
+      };
+    }
+  }
+}
+
+main().catch((err) => {
+  const code =
+    err instanceof WalletTimeoutError
+      ? EXIT_CODES[err.wait]
+      : err instanceof UsageError ||
+          (err as { code?: string } | null)?.code?.startsWith("ERR_PARSE_ARGS")
+        ? EXIT_CODES.usage
+        : EXIT_CODES.failed;
+  const message = err instanceof Error ? err.message : String(err);
+  if (process.argv.includes("--json")) {
+    writeStdout(`${JSON.stringify({ error: message, exitCode: code })}\n`);
+  } else {
+    console.error(`  ✗ ${message}`);
+  }
+  process.exit(code);
+});
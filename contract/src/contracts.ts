@@ -0,0 +1,136 @@
+/**
+ * Registry of contracts the deploy script can deploy.
+ *
+ *   npm run deploy -- --contract blinding
+ *
+ * Each entry names the directory `compact compile` wrote the contract to (under
+ * src/managed), the private-state id and store, the witnesses and how to build the
+ * initial private state. Adding an entry (registerContract) is all a new contract needs;
+ * deploy.ts reads the generated module from the managed directory at run time.
+ *
+ * A contract without an entry can still be deployed from the command line with
+ * --managed-dir and --private-state-id, as long as it has no witnesses; its --private-state
+ * is stored as it is, since no witness reads it.
+ */
+
+import { randomBytes } from "node:crypto";
+import type { Witnesses } from "@midnight-ntwrk/compact-js";
+import { toHex } from "@midnight-ntwrk/midnight-js-utils";
+
+import {
+  hasWallet,
+  loadWallet,
+  readPassphrase,
+  saveWallet
+} from "./keystore.js";
+import { pureCircuits } from "./managed/blinding/contract/index.js";
+import {
+  type BlindingPrivateState,
+  BlindingPrivateStateId,
+  createBlindingPrivateState,
+  decodeBlindingPrivateState,
+  witnesses as blindingWitnesses
+} from "./witnesses.js";
+
+// A contract with private state PS, as deploy.ts deploys it
+export interface DeployableContract<PS> {
+  // Directory under src/managed holding the compiled contract (contract/index.js, keys, zkir)
+  readonly managedDir: string;
+  readonly privateStateId: string;
+  // Level store the private state is kept in, shared with the tools that call the contract
+  readonly privateStateStoreName: string;
+  readonly witnesses?: Witnesses<PS>;
+  // Private state stored with the deployment; yes is --yes (never prompt)
+  readonly initialPrivateState: (options: { yes: boolean }) => Promise<PS>;
+  // Validates a --private-state file (parsed JSON) and converts it to PS; without it the
+  // entry does not accept --private-state
+  readonly decodePrivateState?: (json: unknown) => PS;
+  // Lines printed after a successful deploy
+  readonly summary?: (privateState: PS) => string[];
+}
+
+// A registry entry with its private state type hidden, so contracts with different private
+// states share one map; use() hands the entry to code that is generic over that type
+export interface RegisteredContract {
+  readonly managedDir: string;
+  readonly privateStateId: string;
+  use<R>(fn: <PS>(contract: DeployableContract<PS>) => R): R;
+}
+
+export const registerContract = <PS>(
+  contract: DeployableContract<PS>
+): RegisteredContract => ({
+  managedDir: contract.managedDir,
+  privateStateId: contract.privateStateId,
+  use: (fn) => fn(contract)
+});
+
+// Keystore entry holding the generated procurement authority key
+const AUTHORITY_KEY_NAME = "blinding-authority";
+
+// The procurement authority key is read from AUTHORITY_SECRET_KEY (hex), or from the
+// keystore, or generated and stored encrypted in the keystore; it is never printed. It is
+// kept in the local private state store and is required for admin circuits such as
+// registerOfficer, setApprovalThreshold and createRound.
+async function authorityPrivateState({
+  yes
+}: {
+  yes: boolean;
+}): Promise<BlindingPrivateState> {
+  if (process.env.AUTHORITY_SECRET_KEY) {
+    const secretKey = Buffer.from(process.env.AUTHORITY_SECRET_KEY, "hex");
+    if (secretKey.length !== 32) {
+      throw new Error("AUTHORITY_SECRET_KEY must be 32 bytes of hex");
+    }
+    return createBlindingPrivateState(new Uint8Array(secretKey));
+  }
+
+  if (hasWallet(AUTHORITY_KEY_NAME)) {
+    const stored = loadWallet(
+      AUTHORITY_KEY_NAME,
+      await readPassphrase({ interactive: !yes })
+    );
+    console.log(
+      `  Using authority key "${AUTHORITY_KEY_NAME}" from the keystore`
+    );
+    return createBlindingPrivateState(
+      new Uint8Array(Buffer.from(stored, "hex"))
+    );
+  }
+
+  if (yes && !process.env.KEYSTORE_PASSPHRASE) {
+    // Nothing else would hold a generated key once the private state store is gone
+    throw new Error(
+      "A generated authority key must be stored: set KEYSTORE_PASSPHRASE or AUTHORITY_SECRET_KEY"
+    );
+  }
+  const secretKey = new Uint8Array(randomBytes(32));
+  saveWallet(
+    AUTHORITY_KEY_NAME,
+    toHex(secretKey),
+    await readPassphrase({ interactive: !yes, confirm: true })
+  );
+  console.log(
+    `  Generated authority key, stored encrypted as "${AUTHORITY_KEY_NAME}" in the keystore`
+  );
+  console.log(
+    "  ⚠ The keystore file and its passphrase are the only copy of this key; back them up!\n"
+  );
+  return createBlindingPrivateState(secretKey);
+}
+
+export const CONTRACTS: Readonly<Record<string, RegisteredContract>> = {
+  // Blind vendor qualification (blinding.compact, includes sealed-bid.compact)
+  blinding: registerContract<BlindingPrivateState>({
+    managedDir: "blinding",
+    privateStateId: BlindingPrivateStateId,
+    privateStateStoreName: "blinding-private-state",
+    witnesses: blindingWitnesses,
+    initialPrivateState: authorityPrivateState,
+    decodePrivateState: decodeBlindingPrivateState,
+    summary: ({ secretKey }) =>
+      secretKey
+        ? [`Authority: ${toHex(pureCircuits.publicKey(secretKey))}`]
+        : []
+  })
+};
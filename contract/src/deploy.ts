@@ -1,412 +1,322 @@
 /**
- * Standalone deploy script for the voting contract.
+ * Deploy script for the blinding (vendor qualification) contract, or any contract
+ * in the registry (contracts.ts) or compiled under src/managed.
  *
  * Usage:
  *   npm run build && npm run deploy
+ *   npm run deploy -- --contract blinding
+ *   npm run deploy -- --managed-dir <dir> --private-state-id <id> [--private-state <file.json>]
+ *   npm run deploy -- --list
+ *   npm run deploy -- --network preprod
+ *   WALLET_SEED=<hex or mnemonic> npm run deploy -- --seed-env WALLET_SEED --yes
+ *   npm run deploy -- --seed-file seed.txt --yes [--timeout 600]
+ *   npm run deploy -- --wallet <name>
  *
- * Prompts for a hex seed (or generates a new one), builds a wallet,
- * waits for sync + funds + dust, deploys the voting contract,
- * and writes deployment.json with the contract address.
+ * --contract picks a registry entry (default: blinding). --managed-dir,
+ * --private-state-id and --private-state override the entry, or describe a contract
+ * that has no entry; such a contract is deployed without witnesses. --private-state is
+ * checked by the entry's decodePrivateState and refused for entries without one. --network picks a
+ * profile from networks.json (default: MIDNIGHT_NETWORK, else undeployed).
+ *
+ * Prompts for a hex seed or BIP-39 mnemonic (or generates a new seed), builds a wallet,
+ * waits for sync + funds + dust, deploys the contract with its initial private
+ * state, and writes deployment.json with the contract address.
+ *
+ * --seed-env and --seed-file supply the seed (hex or mnemonic) without the prompt.
+ * --yes never prompts: without a seed flag it generates a new seed, and each wait
+ * (sync, funds, dust) gives up after --timeout seconds (default 600). Exit codes:
+ * 1 deploy failed, 2 bad arguments or seed, 3 sync, 4 funds, 5 dust timed out.
+ *
+ * The seed is stored encrypted in the local keystore (keystore.ts) under --wallet
+ * (default: deployer), and read from there on later deploys when no seed flag is given.
+ * The passphrase comes from KEYSTORE_PASSPHRASE or a prompt. With --yes and no
+ * KEYSTORE_PASSPHRASE, a flag seed is only stored when --wallet is given, and a new seed
+ * is refused. A flag seed never overwrites the default wallet (see seed.ts).
+ * deployment.json holds only public metadata and the name of the wallet holding the seed.
+ *
+ * For blinding, the authority secret key is read from AUTHORITY_SECRET_KEY (hex) or the
+ * keystore entry blinding-authority; otherwise it is generated and stored there, under the
+ * keystore passphrase (required with --yes). Only its public key is printed. It is kept
+ * in the local private state store and is required for admin circuits such as
+ * registerOfficer, setApprovalThreshold and createRound.
  */
 
-import * as readline from 'node:readline/promises';
-import * as fs from 'node:fs';
-import * as path from 'node:path';
-import { fileURLToPath } from 'node:url';
-import { stdin as input, stdout as output } from 'node:process';
-import * as Rx from 'rxjs';
-import { WebSocket } from 'ws';
-import pino from 'pino';
-import pinoPretty from 'pino-pretty';
+import * as fs from "node:fs";
+import { parseArgs } from "node:util";
 
-import { Contract, ledger as votingLedger } from './managed/voting/contract/index.js';
-import { CompiledContract } from '@midnight-ntwrk/compact-js';
-import { deployContract } from '@midnight-ntwrk/midnight-js-contracts';
-import { httpClientProofProvider } from '@midnight-ntwrk/midnight-js-http-client-proof-provider';
-import { indexerPublicDataProvider } from '@midnight-ntwrk/midnight-js-indexer-public-data-provider';
-import { levelPrivateStateProvider } from '@midnight-ntwrk/midnight-js-level-private-state-provider';
-import { NodeZkConfigProvider } from '@midnight-ntwrk/midnight-js-node-zk-config-provider';
-import { setNetworkId, getNetworkId } from '@midnight-ntwrk/midnight-js-network-id';
-import { toHex } from '@midnight-ntwrk/midnight-js-utils';
-import type { MidnightProvider, WalletProvider } from '@midnight-ntwrk/midnight-js-types';
-import type { ImpureCircuitId } from '@midnight-ntwrk/compact-js';
-import * as ledger from '@midnight-ntwrk/ledger-v7';
+import { CompiledContract } from "@midnight-ntwrk/compact-js";
+import { deployContract } from "@midnight-ntwrk/midnight-js-contracts";
 
 import {
-  createKeystore,
-  InMemoryTransactionHistoryStorage,
-  type UnshieldedKeystore,
-  UnshieldedWallet,
-  PublicKey,
-} from '@midnight-ntwrk/wallet-sdk-unshielded-wallet';
-import { ShieldedWallet } from '@midnight-ntwrk/wallet-sdk-shielded';
-import { DustWallet } from '@midnight-ntwrk/wallet-sdk-dust-wallet';
-import { WalletFacade } from '@midnight-ntwrk/wallet-sdk-facade';
-import { generateRandomSeed, HDWallet, Roles } from '@midnight-ntwrk/wallet-sdk-hd';
-
-// @ts-expect-error: needed for apollo WS transport
-globalThis.WebSocket = WebSocket;
-
-// ---------------------------------------------------------------------------
-// Config – targets local undeployed network by default
-// Override via env: INDEXER_URL, INDEXER_WS_URL, NODE_URL, PROOF_SERVER_URL, NETWORK_ID
-// ---------------------------------------------------------------------------
-const INDEXER = process.env.INDEXER_URL ?? 'http://127.0.0.1:8088/api/v3/graphql';
-const INDEXER_WS = process.env.INDEXER_WS_URL ?? 'ws://127.0.0.1:8088/api/v3/graphql/ws';
-const NODE = process.env.NODE_URL ?? 'http://127.0.0.1:9944';
-const PROOF_SERVER = process.env.PROOF_SERVER_URL ?? 'http://127.0.0.1:6300';
-const NETWORK_ID = process.env.NETWORK_ID ?? 'undeployed';
-
-const currentDir = path.dirname(fileURLToPath(import.meta.url));
-// ZK assets (keys, zkir) live in src/managed, not dist — tsc doesn't copy them
-const zkConfigPath = path.resolve(currentDir, '..', 'src', 'managed', 'voting');
-const deploymentPath = path.resolve(currentDir, '..', 'deployment.json');
-
-// ---------------------------------------------------------------------------
-// Logger
-// ---------------------------------------------------------------------------
-const logger = pino(
-  { level: process.env.DEBUG_LEVEL ?? 'info' },
-  pinoPretty({ colorize: true, sync: true, translateTime: true, ignore: 'pid,time', singleLine: false }),
-);
-
-// ---------------------------------------------------------------------------
-// Types
-// ---------------------------------------------------------------------------
-// The voting contract does not seem to have private state based on the code provided,
-// but we need to provide a private state type. If empty, we can use an empty object or a placeholder.
-// Looking at the contract code: export ledger polls... export ledger voteCount...
-// No `witness` or `private` keywords.
-type VotingPrivateState = Record<string, never>;
-type VotingCircuits = ImpureCircuitId<Contract<VotingPrivateState>>;
-const VotingPrivateStateId = 'votingPrivateState' as const;
-
-// ---------------------------------------------------------------------------
-// Helpers (adapted from counter-cli/src/api.ts)
-// ---------------------------------------------------------------------------
-const frames = ['⠋', '⠙', '⠹', '⠸', '⠼', '⠴', '⠦', '⠧', '⠇', '⠏'];
-
-async function withStatus<T>(message: string, fn: () => Promise<T>): Promise<T> {
-  let i = 0;
-  const interval = setInterval(() => {
-    process.stdout.write(`\r  ${frames[i++ % frames.length]} ${message}`);
-  }, 80);
-  try {
-    const result = await fn();
-    clearInterval(interval);
-    process.stdout.write(`\r  ✓ ${message}\n`);
-    return result;
-  } catch (e) {
-    clearInterval(interval);
-    process.stdout.write(`\r  ✗ ${message}\n`);
-    throw e;
-  }
-}
-
-function deriveKeysFromSeed(seed: string) {
-  const hdWallet = HDWallet.fromSeed(Buffer.from(seed, 'hex'));
-  if (hdWallet.type !== 'seedOk') throw new Error('Failed to initialize HDWallet from seed');
-
-  const result = hdWallet.hdWallet
-    .selectAccount(0)
-    .selectRoles([Roles.Zswap, Roles.NightExternal, Roles.Dust])
-    .deriveKeysAt(0);
-
-  if (result.type !== 'keysDerived') throw new Error('Failed to derive keys');
-  hdWallet.hdWallet.clear();
-  return result.keys;
+  CONTRACTS,
+  type DeployableContract,
+  type RegisteredContract,
+  registerContract
+} from "./contracts.js";
+import { type ResolvedSeed, readSeedFlags, resolveSeed } from "./seed.js";
+import {
+  selectNetwork,
+  type SelectedNetwork,
+  deploymentPath,
+  readDeployment,
+  warnIfPlaintextSeed,
+  logger,
+  withStatus,
+  EXIT_CODES,
+  WalletTimeoutError,
+  prepareWallet,
+  stopWallet,
+  createProviders,
+  managedPath,
+  type GeneratedContract,
+  loadContractModule,
+  writeDeployment
+} from "./wallet.js";
+
+// Default bound on each wallet wait in --yes mode
+const DEFAULT_TIMEOUT_SECONDS = 600;
+
+interface DeployOptions {
+  name: string;
+  contract: RegisteredContract;
+  network?: string;
+  // Hex seed from --seed-env or --seed-file
+  seed?: string;
+  // Keystore wallet from --wallet
+  wallet?: string;
+  yes: boolean;
+  timeoutMs?: number;
 }
 
-const formatBalance = (b: bigint) => b.toLocaleString();
-
 // ---------------------------------------------------------------------------
-// Wallet build
+// Arguments
 // ---------------------------------------------------------------------------
-async function buildWallet(seed: string) {
-  const keys = deriveKeysFromSeed(seed);
-  const shieldedSecretKeys = ledger.ZswapSecretKeys.fromSeed(keys[Roles.Zswap]);
-  const dustSecretKey = ledger.DustSecretKey.fromSeed(keys[Roles.Dust]);
-  const unshieldedKeystore = createKeystore(keys[Roles.NightExternal], getNetworkId());
-
-  const shieldedWallet = ShieldedWallet({
-    networkId: getNetworkId(),
-    indexerClientConnection: { indexerHttpUrl: INDEXER, indexerWsUrl: INDEXER_WS },
-    provingServerUrl: new URL(PROOF_SERVER),
-    relayURL: new URL(NODE.replace(/^http/, 'ws')),
-  }).startWithSecretKeys(shieldedSecretKeys);
-
-  const unshieldedWallet = UnshieldedWallet({
-    networkId: getNetworkId(),
-    indexerClientConnection: { indexerHttpUrl: INDEXER, indexerWsUrl: INDEXER_WS },
-    txHistoryStorage: new InMemoryTransactionHistoryStorage(),
-  }).startWithPublicKey(PublicKey.fromKeyStore(unshieldedKeystore));
-
-  // DustWallet's DefaultV1Configuration type is narrower than what withDefaults() needs at runtime
-  const dustWallet = DustWallet({
-    networkId: getNetworkId(),
-    costParameters: { additionalFeeOverhead: 300_000_000_000_000n, feeBlocksMargin: 5 },
-    indexerClientConnection: { indexerHttpUrl: INDEXER, indexerWsUrl: INDEXER_WS },
-    provingServerUrl: new URL(PROOF_SERVER),
-    relayURL: new URL(NODE.replace(/^http/, 'ws')),
-  } as any).startWithSecretKey(dustSecretKey, ledger.LedgerParameters.initialParameters().dust);
-
-  const wallet = new WalletFacade(shieldedWallet, unshieldedWallet, dustWallet);
-  await wallet.start(shieldedSecretKeys, dustSecretKey);
+function resolveOptions(): DeployOptions | null {
+  const { values } = parseArgs({
+    options: {
+      contract: { type: "string" },
+      "managed-dir": { type: "string" },
+      "private-state-id": { type: "string" },
+      "private-state": { type: "string" },
+      list: { type: "boolean" },
+      network: { type: "string" },
+      "seed-env": { type: "string" },
+      "seed-file": { type: "string" },
+      wallet: { type: "string" },
+      yes: { type: "boolean", short: "y" },
+      timeout: { type: "string" }
+    }
+  });
 
-  return { wallet, shieldedSecretKeys, dustSecretKey, unshieldedKeystore };
-}
+  if (values.list) {
+    for (const [name, entry] of Object.entries(CONTRACTS)) {
+      console.log(
+        `${name}\tsrc/managed/${entry.managedDir}\t${entry.privateStateId}`
+      );
+    }
+    return null;
+  }
 
-// ---------------------------------------------------------------------------
-// Sign transaction intents (workaround from counter-cli)
-// ---------------------------------------------------------------------------
-function signTransactionIntents(
-  tx: { intents?: Map<number, any> },
-  signFn: (payload: Uint8Array) => ledger.Signature,
-  proofMarker: 'proof' | 'pre-proof',
-): void {
-  if (!tx.intents || tx.intents.size === 0) return;
-  for (const segment of tx.intents.keys()) {
-    const intent = tx.intents.get(segment);
-    if (!intent) continue;
-    const cloned = ledger.Intent.deserialize<ledger.SignatureEnabled, ledger.Proofish, ledger.PreBinding>(
-      'signature', proofMarker, 'pre-binding', intent.serialize(),
+  const name =
+    values.contract ??
+    (values["managed-dir"] ? values["managed-dir"] : "blinding");
+  const entry: RegisteredContract | undefined = CONTRACTS[name];
+  const managedDir = values["managed-dir"] ?? entry?.managedDir;
+  const privateStateId = values["private-state-id"] ?? entry?.privateStateId;
+  if (!managedDir || !privateStateId) {
+    throw new Error(
+      `Unknown contract "${name}": add it to contracts.ts or pass --managed-dir and --private-state-id`
     );
-    const sigData = cloned.signatureData(segment);
-    const signature = signFn(sigData);
-    if (cloned.fallibleUnshieldedOffer) {
-      const sigs = cloned.fallibleUnshieldedOffer.inputs.map(
-        (_: ledger.UtxoSpend, i: number) => cloned.fallibleUnshieldedOffer!.signatures.at(i) ?? signature,
+  }
+
+  // --private-state replaces the entry's initial private state with the file's contents,
+  // decoded here so a malformed file is a usage error before any wallet work
+  const privateStateFile = values["private-state"];
+  const overrides = <PS>(
+    target: DeployableContract<PS>
+  ): DeployableContract<PS> => {
+    if (!privateStateFile) {
+      return { ...target, managedDir, privateStateId };
+    }
+    if (!target.decodePrivateState) {
+      throw new Error(
+        `The ${name} contract does not accept --private-state: its entry has no decodePrivateState`
       );
-      cloned.fallibleUnshieldedOffer = cloned.fallibleUnshieldedOffer.addSignatures(sigs);
     }
-    if (cloned.guaranteedUnshieldedOffer) {
-      const sigs = cloned.guaranteedUnshieldedOffer.inputs.map(
-        (_: ledger.UtxoSpend, i: number) => cloned.guaranteedUnshieldedOffer!.signatures.at(i) ?? signature,
+    let privateState: PS;
+    try {
+      privateState = target.decodePrivateState(
+        JSON.parse(fs.readFileSync(privateStateFile, "utf-8"))
+      );
+    } catch (err) {
+      throw new Error(
+        `${privateStateFile}: ${err instanceof Error ? err.message : String(err)}`
       );
-      cloned.guaranteedUnshieldedOffer = cloned.guaranteedUnshieldedOffer.addSignatures(sigs);
     }
-    tx.intents.set(segment, cloned);
+    return {
+      ...target,
+      managedDir,
+      privateStateId,
+      initialPrivateState: () => Promise.resolve(privateState)
+    };
+  };
+  // A contract without an entry has no witnesses, so its private state is never read and
+  // any JSON is accepted
+  const contract = entry
+    ? entry.use((target) => registerContract(overrides(target)))
+    : registerContract(
+        overrides<unknown>({
+          managedDir,
+          privateStateId,
+          privateStateStoreName: `${managedDir}-private-state`,
+          initialPrivateState: () => Promise.resolve(undefined),
+          decodePrivateState: (json) => json
+        })
+      );
+
+  const timeoutSeconds = values.timeout
+    ? Number(values.timeout)
+    : values.yes
+      ? DEFAULT_TIMEOUT_SECONDS
+      : 0;
+  if (!Number.isFinite(timeoutSeconds) || timeoutSeconds < 0) {
+    throw new Error(
+      `--timeout must be a number of seconds, got "${values.timeout}"`
+    );
   }
-}
 
-// ---------------------------------------------------------------------------
-// Provider creation
-// ---------------------------------------------------------------------------
-function createWalletAndMidnightProvider(
-  wallet: WalletFacade,
-  shieldedSecretKeys: ledger.ZswapSecretKeys,
-  dustSecretKey: ledger.DustSecretKey,
-  unshieldedKeystore: UnshieldedKeystore,
-  syncedState: any,
-): WalletProvider & MidnightProvider {
   return {
-    getCoinPublicKey: () => syncedState.shielded.coinPublicKey.toHexString(),
-    getEncryptionPublicKey: () => syncedState.shielded.encryptionPublicKey.toHexString(),
-    async balanceTx(tx, ttl) {
-      const recipe = await wallet.balanceUnboundTransaction(
-        tx,
-        { shieldedSecretKeys, dustSecretKey },
-        { ttl: ttl ?? new Date(Date.now() + 30 * 60 * 1000) },
-      );
-      const signFn = (payload: Uint8Array) => unshieldedKeystore.signData(payload);
-      signTransactionIntents(recipe.baseTransaction, signFn, 'proof');
-      if (recipe.balancingTransaction) {
-        signTransactionIntents(recipe.balancingTransaction, signFn, 'pre-proof');
-      }
-      return wallet.finalizeRecipe(recipe);
-    },
-    async submitTx(tx: ledger.FinalizedTransaction) {
-      return wallet.submitTransaction(tx);
-    },
+    name,
+    network: values.network,
+    seed: readSeedFlags(values),
+    wallet: values.wallet,
+    yes: values.yes ?? false,
+    timeoutMs: timeoutSeconds * 1000 || undefined,
+    contract
   };
 }
 
 // ---------------------------------------------------------------------------
-// Dust registration (required for tx fees)
+// Main
 // ---------------------------------------------------------------------------
-async function registerForDustGeneration(wallet: WalletFacade, unshieldedKeystore: UnshieldedKeystore) {
-  const state = await Rx.firstValueFrom(wallet.state().pipe(Rx.filter((s) => s.isSynced)));
-
-  if (state.dust.availableCoins.length > 0) {
-    const dustBal = state.dust.walletBalance(new Date());
-    console.log(`  ✓ Dust tokens already available (${formatBalance(dustBal)} DUST)`);
-    return;
+async function main() {
+  let resolved: DeployOptions | null;
+  let network: ReturnType<typeof selectNetwork>;
+  try {
+    resolved = resolveOptions();
+    if (!resolved) {
+      process.exit(0);
+    }
+    network = selectNetwork(resolved.network);
+  } catch (err) {
+    console.error(`  ✗ ${err instanceof Error ? err.message : String(err)}`);
+    process.exit(EXIT_CODES.usage);
   }
 
-  const nightUtxos = state.unshielded.availableCoins.filter(
-    (coin: any) => coin.meta?.registeredForDustGeneration !== true,
-  );
-
-  if (nightUtxos.length > 0) {
-    await withStatus(`Registering ${nightUtxos.length} NIGHT UTXO(s) for dust generation`, async () => {
-      const recipe = await wallet.registerNightUtxosForDustGeneration(
-        nightUtxos,
-        unshieldedKeystore.getPublicKey(),
-        (payload) => unshieldedKeystore.signData(payload),
-      );
-      const finalized = await wallet.finalizeRecipe(recipe);
-      await wallet.submitTransaction(finalized);
-    });
+  // An earlier deploy may have left the seed in plaintext; it is about to be overwritten
+  if (fs.existsSync(deploymentPath)) {
+    warnIfPlaintextSeed(readDeployment());
   }
 
-  await withStatus('Waiting for dust tokens to generate', () =>
-    Rx.firstValueFrom(
-      wallet.state().pipe(
-        Rx.throttleTime(5_000),
-        Rx.filter((s) => s.isSynced),
-        Rx.filter((s) => s.dust.walletBalance(new Date()) > 0n),
-      ),
-    ),
-  );
+  await resolved.contract.use((target) => deploy(resolved, target, network));
+  process.exit(0);
 }
 
-// ---------------------------------------------------------------------------
-// Main
-// ---------------------------------------------------------------------------
-async function main() {
-  setNetworkId(NETWORK_ID);
-
-  console.log('\n╔══════════════════════════════════════════════════════════╗');
-  console.log('║           Voting Contract Deploy Script                 ║');
-  console.log(`║           Network: ${NETWORK_ID.padEnd(38)}║`);
-  console.log('╚══════════════════════════════════════════════════════════╝\n');
-
-  // --- Seed prompt ---
-  const rl = readline.createInterface({ input, output });
-  const seedInput = await rl.question('Enter hex seed (leave blank to generate new): ');
-  rl.close();
-
-  let seed: string;
-  if (seedInput.trim()) {
-    seed = seedInput.trim();
-    console.log(`  Using provided seed: ${seed.slice(0, 8)}...`);
-  } else {
-    seed = toHex(Buffer.from(generateRandomSeed()));
-    console.log(`  Generated new seed: ${seed}`);
-    console.log('  ⚠ Save this seed to restore your wallet later!\n');
-  }
-
-  // --- Build wallet ---
-  const { wallet, shieldedSecretKeys, dustSecretKey, unshieldedKeystore } = await withStatus(
-    'Building wallet',
-    () => buildWallet(seed),
+// Generic over the entry's private state type, so the compiled contract, witnesses and
+// initial private state are checked against each other
+async function deploy<PS>(
+  options: DeployOptions,
+  target: DeployableContract<PS>,
+  network: SelectedNetwork
+) {
+  const { name } = options;
+  const title = `${name} Contract Deploy Script`;
+  console.log("\n╔══════════════════════════════════════════════════════════╗");
+  console.log(`║           ${title.padEnd(47)}║`);
+  console.log(
+    `║           Network: ${`${network.name} (${network.networkId})`.padEnd(38)}║`
   );
-
-  console.log(`\n  Unshielded address: ${unshieldedKeystore.getBech32Address()}`);
-
-  if (NETWORK_ID === 'preprod') {
-    console.log('  Fund via faucet: https://faucet.preprod.midnight.network/\n');
-  } else {
-    console.log('');
-  }
-
-  // --- Wait for sync ---
-  const syncedState = await withStatus('Syncing wallet with network', () =>
-    Rx.firstValueFrom(
-      wallet.state().pipe(
-        Rx.throttleTime(5_000),
-        Rx.tap((s) => logger.debug(`Sync status: ${s.isSynced}`)),
-        Rx.filter((s) => s.isSynced),
-      ),
-    ),
+  console.log("╚══════════════════════════════════════════════════════════╝\n");
+
+  // --- Compiled contract (fails early, before any wallet work) ---
+  const module = await loadContractModule<PS>(target.managedDir);
+  const compiledContract = CompiledContract.make<GeneratedContract<PS>>(
+    name,
+    module.Contract
+  ).pipe(
+    target.witnesses
+      ? CompiledContract.withWitnesses(target.witnesses)
+      : CompiledContract.withVacantWitnesses,
+    CompiledContract.withCompiledFileAssets(managedPath(target.managedDir))
   );
 
-  // --- Wait for funds ---
-  const balance =
-    (syncedState.unshielded?.balances[ledger.nativeToken().raw] ?? 0n) +
-    (syncedState.shielded?.balances[ledger.nativeToken().raw] ?? 0n);
-
-  if (balance === 0n) {
-    await withStatus('Waiting for incoming funds (send tNight to address above)', () =>
-      Rx.firstValueFrom(
-        wallet.state().pipe(
-          Rx.throttleTime(10_000),
-          Rx.tap((s) => {
-            const u = s.unshielded?.balances[ledger.nativeToken().raw] ?? 0n;
-            logger.debug(`Balance: ${u}`);
-          }),
-          Rx.filter((s) => s.isSynced),
-          Rx.map(
-            (s) =>
-              (s.unshielded?.balances[ledger.nativeToken().raw] ?? 0n) +
-              (s.shielded?.balances[ledger.nativeToken().raw] ?? 0n),
-          ),
-          Rx.filter((b) => b > 0n),
-        ),
-      ),
-    );
-  } else {
-    console.log(`  ✓ Balance: ${formatBalance(balance)} tNight`);
+  // --- Seed and initial private state, e.g. the blinding authority key (a missing
+  // passphrase or clashing wallet is a usage error) ---
+  let resolvedSeed: ResolvedSeed;
+  let initialPrivateState: PS;
+  try {
+    resolvedSeed = await resolveSeed(options);
+    initialPrivateState = await target.initialPrivateState(options);
+  } catch (err) {
+    console.error(`  ✗ ${err instanceof Error ? err.message : String(err)}`);
+    process.exit(EXIT_CODES.usage);
   }
+  const { seed } = resolvedSeed;
 
-  // --- Dust registration ---
-  await registerForDustGeneration(wallet, unshieldedKeystore);
-
-  // --- Build providers ---
-  const walletAndMidnightProvider = createWalletAndMidnightProvider(
-    wallet, shieldedSecretKeys, dustSecretKey, unshieldedKeystore, syncedState,
+  // --- Wallet (sync, funds, dust) and providers ---
+  const { wallet, walletAndMidnightProvider } = await prepareWallet(
+    seed,
+    options.timeoutMs
   );
-
-  const zkConfigProvider = new NodeZkConfigProvider<VotingCircuits>(zkConfigPath);
-
-  const providers = {
-    privateStateProvider: levelPrivateStateProvider<typeof VotingPrivateStateId>({
-      privateStateStoreName: 'voting-private-state',
-      signingKeyStoreName: 'signing-keys',
-      midnightDbName: 'midnight-level-db',
-      walletProvider: walletAndMidnightProvider,
-    }),
-    publicDataProvider: indexerPublicDataProvider(INDEXER, INDEXER_WS),
-    zkConfigProvider,
-    proofProvider: httpClientProofProvider(PROOF_SERVER, zkConfigProvider),
-    walletProvider: walletAndMidnightProvider,
-    midnightProvider: walletAndMidnightProvider,
-  };
-
-  // --- Compile contract ---
-  const votingCompiledContract = CompiledContract.make('voting', Contract).pipe(
-    CompiledContract.withVacantWitnesses,
-    CompiledContract.withCompiledFileAssets(zkConfigPath),
+  const providers = createProviders<string>(
+    walletAndMidnightProvider,
+    target.managedDir,
+    target.privateStateStoreName
   );
 
   // --- Deploy ---
-  const contract = await withStatus('Deploying voting contract (this may take a few minutes)', async () => {
-    return deployContract(providers, {
-      compiledContract: votingCompiledContract,
-      privateStateId: VotingPrivateStateId,
-      initialPrivateState: {},
-    });
-  });
+  const contract = await withStatus(
+    `Deploying ${name} contract (this may take a few minutes)`,
+    () =>
+      deployContract(providers, {
+        compiledContract,
+        privateStateId: target.privateStateId,
+        initialPrivateState
+      })
+  );
 
-  const contractAddress = contract.deployTxData.public.contractAddress;
+  const contractAddress: string = contract.deployTxData.public.contractAddress;
 
   // --- Write deployment.json ---
   const deployment = {
+    contract: name,
     contractAddress,
-    network: NETWORK_ID,
+    network: network.networkId,
+    profile: network.name,
     deployedAt: new Date().toISOString(),
-    seed,
+    wallet: resolvedSeed.wallet
   };
 
-  fs.writeFileSync(deploymentPath, JSON.stringify(deployment, null, 2));
+  writeDeployment(deployment);
 
   console.log(`\n╔══════════════════════════════════════════════════════════╗`);
-  console.log(`║  Voting Contract deployed successfully!                 ║`);
+  console.log(`║  ${`${name} Contract deployed successfully!`.padEnd(56)}║`);
   console.log(`╚══════════════════════════════════════════════════════════╝`);
-  console.log(`  Address: ${contractAddress}`);
-  console.log(`  Saved:   ${deploymentPath}\n`);
-
-  // Cleanup
-  try {
-    await wallet.stop();
-  } catch {
-    // ignore cleanup errors
+  console.log(`  Address:   ${contractAddress}`);
+  for (const line of target.summary?.(initialPrivateState) ?? []) {
+    console.log(`  ${line}`);
   }
+  console.log(`  Saved:     ${deploymentPath}\n`);
 
-  process.exit(0);
+  // Cleanup
+  await stopWallet(wallet);
 }
 
 main().catch((err) => {
-  logger.error(err, 'Deploy failed');
-  process.exit(1);
+  if (err instanceof WalletTimeoutError) {
+    logger.error(`Deploy failed: ${err.message}`);
+    process.exit(EXIT_CODES[err.wait]);
+  }
+  logger.error(err, "Deploy failed");
+  process.exit(EXIT_CODES.failed);
 });
@@ -1,2 +1,4 @@
 export * as Counter from "./managed/counter/contract/index.js";
 export * as Voting from "./managed/voting/contract/index.js";
+export * as Blinding from "./managed/blinding/contract/index.js";
+export * from "./witnesses.js";
@@ -0,0 +1,180 @@
+/**
+ * Local encrypted keystore for deployer wallet seeds and the generated authority key.
+ *
+ * Each wallet is one JSON file under contract/keystore (git-ignored, or KEYSTORE_DIR)
+ * holding the hex seed encrypted with AES-256-GCM under a key derived from a passphrase
+ * with scrypt.
+ * deployment.json names the wallet; it never holds the seed.
+ *
+ * The passphrase is read from KEYSTORE_PASSPHRASE or prompted for without echo.
+ */
+
+import * as fs from "node:fs";
+import * as path from "node:path";
+import * as readline from "node:readline/promises";
+import { Writable } from "node:stream";
+import { stdin as input, stdout as output } from "node:process";
+import {
+  createCipheriv,
+  createDecipheriv,
+  randomBytes,
+  scryptSync
+} from "node:crypto";
+import { fileURLToPath } from "node:url";
+
+const currentDir = path.dirname(fileURLToPath(import.meta.url));
+export const keystoreDir = process.env.KEYSTORE_DIR
+  ? path.resolve(process.env.KEYSTORE_DIR)
+  : path.resolve(currentDir, "..", "keystore");
+
+// scrypt cost; N = 2^17 needs 128 MiB, so maxmem is raised above the 32 MiB default
+const SCRYPT = { N: 1 << 17, r: 8, p: 1, maxmem: 256 * 1024 * 1024 };
+
+interface KeystoreFile {
+  version: 1;
+  kdf: "scrypt";
+  kdfParams: { N: number; r: number; p: number; salt: string };
+  cipher: "aes-256-gcm";
+  iv: string;
+  authTag: string;
+  ciphertext: string;
+  createdAt: string;
+}
+
+export const keystorePath = (name: string) => {
+  if (!/^[\w.-]+$/.test(name)) {
+    throw new Error(
+      `Invalid wallet name "${name}": use letters, digits, dot, dash or underscore`
+    );
+  }
+  return path.join(keystoreDir, `${name}.json`);
+};
+
+export const hasWallet = (name: string) => fs.existsSync(keystorePath(name));
+
+function deriveKey(
+  passphrase: string,
+  salt: Buffer,
+  params: { N: number; r: number; p: number }
+) {
+  return scryptSync(passphrase, salt, 32, { ...params, maxmem: SCRYPT.maxmem });
+}
+
+export function saveWallet(name: string, seed: string, passphrase: string) {
+  const salt = randomBytes(16);
+  const iv = randomBytes(12);
+  const key = deriveKey(passphrase, salt, SCRYPT);
+  const cipher = createCipheriv("aes-256-gcm", key, iv);
+  const ciphertext = Buffer.concat([
+    cipher.update(seed, "utf-8"),
+    cipher.final()
+  ]);
+
+  const file: KeystoreFile = {
+    version: 1,
+    kdf: "scrypt",
+    kdfParams: {
+      N: SCRYPT.N,
+      r: SCRYPT.r,
+      p: SCRYPT.p,
+      salt: salt.toString("hex")
+    },
+    cipher: "aes-256-gcm",
+    iv: iv.toString("hex"),
+    authTag: cipher.getAuthTag().toString("hex"),
+    ciphertext: ciphertext.toString("hex"),
+    createdAt: new Date().toISOString()
+  };
+
+  fs.mkdirSync(keystoreDir, { recursive: true, mode: 0o700 });
+  fs.writeFileSync(keystorePath(name), JSON.stringify(file, null, 2), {
+    mode: 0o600
+  });
+}
+
+export function loadWallet(name: string, passphrase: string): string {
+  if (!hasWallet(name)) {
+    throw new Error(
+      `No wallet "${name}" in ${keystoreDir}; deploy with --wallet ${name} first`
+    );
+  }
+  const file = JSON.parse(
+    fs.readFileSync(keystorePath(name), "utf-8")
+  ) as KeystoreFile;
+  if (
+    file.version !== 1 ||
+    file.kdf !== "scrypt" ||
+    file.cipher !== "aes-256-gcm"
+  ) {
+    throw new Error(`Unsupported keystore format in ${keystorePath(name)}`);
+  }
+
+  const { salt, ...params } = file.kdfParams;
+  const key = deriveKey(passphrase, Buffer.from(salt, "hex"), params);
+  const decipher = createDecipheriv(
+    "aes-256-gcm",
+    key,
+    Buffer.from(file.iv, "hex")
+  );
+  decipher.setAuthTag(Buffer.from(file.authTag, "hex"));
+  try {
+    return Buffer.concat([
+      decipher.update(Buffer.from(file.ciphertext, "hex")),
+      decipher.final()
+    ]).toString("utf-8");
+  } catch {
+    throw new Error(`Wrong passphrase for wallet "${name}"`);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Passphrase
+// ---------------------------------------------------------------------------
+async function promptHidden(question: string): Promise<string> {
+  let muted = false;
+  const mutedOutput = new Writable({
+    write(chunk, encoding, callback) {
+      if (!muted) output.write(chunk, encoding);
+      callback();
+    }
+  });
+  const rl = readline.createInterface({
+    input,
+    output: mutedOutput,
+    terminal: true
+  });
+  output.write(question);
+  muted = true;
+  try {
+    return await rl.question("");
+  } finally {
+    rl.close();
+    output.write("\n");
+  }
+}
+
+// confirm asks twice, for a passphrase that is about to encrypt a new wallet
+export async function readPassphrase(options: {
+  interactive: boolean;
+  confirm?: boolean;
+}): Promise<string> {
+  if (process.env.KEYSTORE_PASSPHRASE) {
+    return process.env.KEYSTORE_PASSPHRASE;
+  }
+  if (!options.interactive) {
+    throw new Error(
+      "KEYSTORE_PASSPHRASE must be set when prompts are disabled"
+    );
+  }
+
+  const passphrase = await promptHidden("Keystore passphrase: ");
+  if (options.confirm) {
+    if (passphrase.length < 8) {
+      throw new Error("Keystore passphrase must be at least 8 characters");
+    }
+    if ((await promptHidden("Repeat passphrase: ")) !== passphrase) {
+      throw new Error("Passphrases do not match");
+    }
+  }
+  return passphrase;
+}
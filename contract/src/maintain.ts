@@ -0,0 +1,290 @@
+/**
+ * Maintenance tool for a deployed blinding contract.
+ *
+ * Usage:
+ *   npm run build
+ *   npm run maintain -- pause
+ *   npm run maintain -- unpause
+ *   npm run maintain -- status
+ *   npm run maintain -- rotate-vk --circuit verifyQualification [--circuit checkCompliance ...]
+ *   npm run maintain -- rotate-vk --all
+ *   npm run maintain -- import-seed [--wallet deployer]
+ *
+ * The contract address, network profile and keystore wallet are read from
+ * deployment.json. The wallet seed is decrypted from the keystore with
+ * KEYSTORE_PASSPHRASE or a prompted passphrase. --network <name> picks another
+ * networks.json profile.
+ *
+ * import-seed moves the plaintext seed an older deploy script left in deployment.json
+ * into the keystore, and rewrites deployment.json without it.
+ *
+ * --wallet <name> pays with another keystore wallet than the one deployment.json names.
+ *
+ * pause / unpause flip the contract's emergency stop. While paused, every
+ * state-changing circuit fails with "Contract is paused". They are authority circuits:
+ * the authority secret key is read from AUTHORITY_SECRET_KEY (hex) and merged into the
+ * private state stored on this machine, or, if unset, taken from that private state.
+ * status prints the flag from the public ledger.
+ *
+ * rotate-vk replaces the on-chain verifier key of each named circuit with the one in
+ * src/managed/blinding (recompile first); circuits whose key is unchanged are skipped.
+ * It signs with the contract maintenance authority key the deploy script stored on this
+ * machine. A circuit only takes a new key once its old one is removed, so the old key is
+ * put back if the insert fails. Pause the contract while rotating keys so no proof is
+ * checked against a half-updated set.
+ */
+
+import { parseArgs } from "node:util";
+
+import { ledger } from "./managed/blinding/contract/index.js";
+import { BlindingPrivateStateId } from "./witnesses.js";
+import {
+  hasWallet,
+  loadWallet,
+  readPassphrase,
+  saveWallet
+} from "./keystore.js";
+import {
+  type CircuitMaintenanceTxInterface,
+  createCircuitMaintenanceTxInterfaces,
+  findDeployedContract,
+  verifierKeysEqual
+} from "@midnight-ntwrk/midnight-js-contracts";
+import {
+  createVerifierKey,
+  type VerifierKey
+} from "@midnight-ntwrk/midnight-js-types";
+
+import {
+  selectNetwork,
+  type BlindingCircuits,
+  logger,
+  withStatus,
+  prepareWallet,
+  stopWallet,
+  createProviders,
+  compileBlindingContract,
+  mergedPrivateState,
+  readDeployment,
+  warnIfPlaintextSeed,
+  writeDeployment
+} from "./wallet.js";
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+function authoritySecretKey() {
+  if (!process.env.AUTHORITY_SECRET_KEY) {
+    return undefined;
+  }
+  const secretKey = Buffer.from(process.env.AUTHORITY_SECRET_KEY, "hex");
+  if (secretKey.length !== 32) {
+    throw new Error("AUTHORITY_SECRET_KEY must be 32 bytes of hex");
+  }
+  return new Uint8Array(secretKey);
+}
+
+// midnight-js only inserts a key for a circuit that has none, so the old key is removed
+// first and put back when the insert fails; either way the circuit keeps a verifier key
+async function rotateVerifierKey(
+  circuitId: string,
+  maintenance: CircuitMaintenanceTxInterface,
+  verifierKey: VerifierKey,
+  currentKey: VerifierKey | undefined
+) {
+  if (currentKey) {
+    await withStatus(`Removing verifier key for ${circuitId}`, () =>
+      maintenance.removeVerifierKey()
+    );
+  }
+  try {
+    await withStatus(`Inserting new verifier key for ${circuitId}`, () =>
+      maintenance.insertVerifierKey(verifierKey)
+    );
+  } catch (e) {
+    if (currentKey) {
+      await withStatus(`Restoring previous verifier key for ${circuitId}`, () =>
+        maintenance.insertVerifierKey(currentKey)
+      );
+    }
+    throw e;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Main
+// ---------------------------------------------------------------------------
+async function main() {
+  const { positionals, values } = parseArgs({
+    allowPositionals: true,
+    options: {
+      circuit: { type: "string", multiple: true },
+      all: { type: "boolean" },
+      network: { type: "string" },
+      wallet: { type: "string" }
+    }
+  });
+
+  const command = positionals[0];
+  if (
+    !["pause", "unpause", "status", "rotate-vk", "import-seed"].includes(
+      command
+    )
+  ) {
+    throw new Error(
+      "Usage: maintain <pause|unpause|status|rotate-vk|import-seed> [--circuit <name>...] [--all] [--network <name>] [--wallet <name>]"
+    );
+  }
+  if (command === "rotate-vk" && !values.all && !values.circuit?.length) {
+    throw new Error(
+      "rotate-vk requires --circuit <name> (repeatable) or --all"
+    );
+  }
+
+  const deployment = readDeployment();
+  warnIfPlaintextSeed(deployment);
+  if (deployment.contract && deployment.contract !== "blinding") {
+    throw new Error(
+      `deployment.json is for the ${deployment.contract} contract, not blinding`
+    );
+  }
+
+  if (command === "import-seed") {
+    if (!deployment.seed) {
+      throw new Error("deployment.json holds no plaintext seed to import");
+    }
+    const walletName = values.wallet ?? "deployer";
+    if (hasWallet(walletName)) {
+      throw new Error(
+        `Keystore wallet "${walletName}" already exists; pass --wallet <new name>`
+      );
+    }
+    saveWallet(
+      walletName,
+      deployment.seed,
+      await readPassphrase({ interactive: true, confirm: true })
+    );
+    writeDeployment({ ...deployment, seed: undefined, wallet: walletName });
+    console.log(
+      `  ✓ Seed stored as wallet "${walletName}" and removed from deployment.json`
+    );
+    console.log(
+      "  ⚠ The seed was in plaintext; move the funds to a new wallet if the file was shared.\n"
+    );
+    process.exit(0);
+  }
+
+  const network = selectNetwork(values.network ?? deployment.profile);
+  if (network.networkId !== deployment.network) {
+    throw new Error(
+      `Profile ${network.name} is for network ${network.networkId}, not ${deployment.network}`
+    );
+  }
+  console.log(
+    `\n  Contract: ${deployment.contractAddress} (${network.name})\n`
+  );
+
+  const walletName = values.wallet ?? deployment.wallet;
+  const seed = walletName
+    ? loadWallet(walletName, await readPassphrase({ interactive: true }))
+    : deployment.seed;
+  if (!seed) {
+    throw new Error(
+      "deployment.json names no keystore wallet; pass --wallet <name>, redeploy or run import-seed"
+    );
+  }
+
+  const { wallet, walletAndMidnightProvider } = await prepareWallet(seed);
+  const providers = createProviders(walletAndMidnightProvider);
+
+  // Only pause / unpause need the found contract; findDeployedContract also rejects a contract
+  // whose on-chain verifier keys differ from the local ones, which rotate-vk expects
+  const findContract = async () => {
+    const secretKey = authoritySecretKey();
+    const initialPrivateState = secretKey
+      ? await mergedPrivateState(providers.privateStateProvider, { secretKey })
+      : undefined;
+    return withStatus("Finding deployed contract", () =>
+      findDeployedContract(providers, {
+        compiledContract: compileBlindingContract(),
+        contractAddress: deployment.contractAddress,
+        privateStateId: BlindingPrivateStateId,
+        ...(initialPrivateState ? { initialPrivateState } : {})
+      })
+    );
+  };
+
+  switch (command) {
+    case "pause": {
+      const contract = await findContract();
+      await withStatus("Pausing contract", () => contract.callTx.pause());
+      break;
+    }
+    case "unpause": {
+      const contract = await findContract();
+      await withStatus("Unpausing contract", () => contract.callTx.unpause());
+      break;
+    }
+    case "status": {
+      const state = await providers.publicDataProvider.queryContractState(
+        deployment.contractAddress
+      );
+      if (!state) {
+        throw new Error("Contract state not found on the indexer");
+      }
+      console.log(`  Paused: ${ledger(state.data).paused ? "yes" : "no"}`);
+      break;
+    }
+    case "rotate-vk": {
+      const maintenanceTx: Record<
+        string,
+        CircuitMaintenanceTxInterface | undefined
+      > = createCircuitMaintenanceTxInterfaces(
+        providers,
+        compileBlindingContract(),
+        deployment.contractAddress
+      );
+      const circuitIds = values.all
+        ? Object.keys(maintenanceTx)
+        : values.circuit!;
+      let rotated = 0;
+      for (const circuitId of circuitIds) {
+        const maintenance = maintenanceTx[circuitId];
+        if (!maintenance) {
+          throw new Error(`Unknown circuit: ${circuitId}`);
+        }
+        const verifierKey = await providers.zkConfigProvider.getVerifierKey(
+          circuitId as BlindingCircuits
+        );
+        const state = await providers.publicDataProvider.queryContractState(
+          deployment.contractAddress
+        );
+        const onChainKey = state?.operation(circuitId)?.verifierKey;
+        const currentKey = onChainKey
+          ? createVerifierKey(onChainKey)
+          : undefined;
+        if (currentKey && verifierKeysEqual(currentKey, verifierKey)) {
+          console.log(`  ✓ ${circuitId} already has this verifier key`);
+          continue;
+        }
+        await rotateVerifierKey(
+          circuitId,
+          maintenance,
+          verifierKey,
+          currentKey
+        );
+        rotated++;
+      }
+      console.log(`\n  ✓ Rotated ${rotated} verifier key(s)`);
+      break;
+    }
+  }
+
+  await stopWallet(wallet);
+  process.exit(0);
+}
+
+main().catch((err) => {
+  logger.error(err, "Maintenance failed");
+  process.exit(1);
+});
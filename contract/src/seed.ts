@@ -0,0 +1,173 @@
+/**
+ * Wallet seed input for the Node scripts: hex or BIP-39 mnemonic parsing, the
+ * --seed-env / --seed-file flags, and the deploy script's choice between a seed flag,
+ * the keystore, a prompted seed and a new one.
+ *
+ * A seed is stored in the keystore only when a passphrase is at hand (KEYSTORE_PASSPHRASE,
+ * or a prompt outside --yes) or when --wallet names the wallet to store it under.
+ */
+
+import * as fs from "node:fs";
+import * as readline from "node:readline/promises";
+import { stdin as input, stdout as output } from "node:process";
+import { toHex } from "@midnight-ntwrk/midnight-js-utils";
+import { generateRandomSeed } from "@midnight-ntwrk/wallet-sdk-hd";
+import { mnemonicToSeedSync, validateMnemonic } from "@scure/bip39";
+import { wordlist } from "@scure/bip39/wordlists/english.js";
+
+import {
+  hasWallet,
+  loadWallet,
+  readPassphrase,
+  saveWallet
+} from "./keystore.js";
+
+// Keystore wallet the deploy script uses when --wallet is not given
+export const DEFAULT_WALLET = "deployer";
+
+// ---------------------------------------------------------------------------
+// Parsing
+// ---------------------------------------------------------------------------
+// Accepts a hex seed or a BIP-39 mnemonic (English wordlist) and returns the hex seed
+export function parseSeed(text: string): string {
+  const trimmed = text.trim();
+  if (/^(0x)?[0-9a-fA-F]{32,128}$/.test(trimmed) && trimmed.length % 2 === 0) {
+    return trimmed.replace(/^0x/, "").toLowerCase();
+  }
+  const mnemonic = trimmed.split(/\s+/).join(" ").toLowerCase();
+  if (mnemonic.includes(" ")) {
+    if (!validateMnemonic(mnemonic, wordlist)) {
+      throw new Error("Invalid BIP-39 mnemonic (wrong word or checksum)");
+    }
+    return Buffer.from(mnemonicToSeedSync(mnemonic)).toString("hex");
+  }
+  throw new Error("Seed must be hex (16 to 64 bytes) or a BIP-39 mnemonic");
+}
+
+// Seed from --seed-env <VAR> or --seed-file <path>; undefined when neither flag is given
+export function readSeedFlags(values: {
+  "seed-env"?: string;
+  "seed-file"?: string;
+}): string | undefined {
+  if (values["seed-env"] && values["seed-file"]) {
+    throw new Error("Pass only one of --seed-env and --seed-file");
+  }
+  if (values["seed-env"]) {
+    const text = process.env[values["seed-env"]];
+    if (!text) {
+      throw new Error(`Environment variable ${values["seed-env"]} is not set`);
+    }
+    return parseSeed(text);
+  }
+  if (values["seed-file"]) {
+    return parseSeed(fs.readFileSync(values["seed-file"], "utf-8"));
+  }
+  return undefined;
+}
+
+// ---------------------------------------------------------------------------
+// Deploy seed (flag, keystore, prompt, or new)
+// ---------------------------------------------------------------------------
+export interface SeedOptions {
+  // Hex seed from --seed-env or --seed-file
+  seed?: string;
+  // Keystore wallet from --wallet; DEFAULT_WALLET is used when it is not given
+  wallet?: string;
+  // --yes: never prompt
+  yes: boolean;
+}
+
+export interface ResolvedSeed {
+  seed: string;
+  // Keystore wallet holding the seed; undefined when the seed was not stored
+  wallet?: string;
+}
+
+async function promptSeed(): Promise<string> {
+  const rl = readline.createInterface({ input, output });
+  try {
+    return await rl.question(
+      "Enter hex seed or mnemonic (leave blank to generate new): "
+    );
+  } finally {
+    rl.close();
+  }
+}
+
+export async function resolveSeed({
+  seed: flagSeed,
+  wallet,
+  yes
+}: SeedOptions): Promise<ResolvedSeed> {
+  const walletName = wallet ?? DEFAULT_WALLET;
+  if (!flagSeed && hasWallet(walletName)) {
+    const seed = loadWallet(
+      walletName,
+      await readPassphrase({ interactive: !yes })
+    );
+    console.log(`  Using wallet "${walletName}" from the keystore`);
+    return { seed, wallet: walletName };
+  }
+
+  const seedInput = !flagSeed && !yes ? await promptSeed() : "";
+  const generated = !flagSeed && !seedInput.trim();
+  const seed =
+    flagSeed ??
+    (generated
+      ? toHex(Buffer.from(generateRandomSeed()))
+      : parseSeed(seedInput));
+  console.log(
+    `  ${generated ? "Generated new" : "Using provided"} seed: ${seed.slice(0, 8)}...`
+  );
+
+  if (hasWallet(walletName)) {
+    // Only reached with a seed flag. The default wallet is left alone, so a flag seed
+    // deploys without a passphrase; a wallet named with --wallet must hold this seed
+    if (!wallet) {
+      console.log(
+        `  Not stored: keystore wallet "${walletName}" exists; pass --wallet <name> to store the seed\n`
+      );
+      return { seed };
+    }
+    const stored = loadWallet(
+      walletName,
+      await readPassphrase({ interactive: !yes })
+    );
+    if (stored !== seed) {
+      throw new Error(
+        `Keystore wallet "${walletName}" holds a different seed; pass --wallet <new name>`
+      );
+    }
+    return { seed, wallet: walletName };
+  }
+
+  const passphraseAvailable = Boolean(process.env.KEYSTORE_PASSPHRASE) || !yes;
+  if (!wallet && !passphraseAvailable) {
+    if (generated) {
+      // Nothing else holds a generated seed, and losing it loses the wallet's funds
+      throw new Error(
+        "A generated seed must be stored: set KEYSTORE_PASSPHRASE or pass --seed-env / --seed-file"
+      );
+    }
+    console.log(
+      "  Not stored: set KEYSTORE_PASSPHRASE or pass --wallet <name> to keep the seed in the keystore\n"
+    );
+    return { seed };
+  }
+
+  saveWallet(
+    walletName,
+    seed,
+    await readPassphrase({ interactive: !yes, confirm: true })
+  );
+  console.log(
+    `  Stored seed encrypted as wallet "${walletName}" in the keystore`
+  );
+  if (generated) {
+    console.log(
+      "  ⚠ The keystore file and its passphrase are the only copy of this seed; back them up!"
+    );
+  }
+  console.log("");
+  return { seed, wallet: walletName };
+}
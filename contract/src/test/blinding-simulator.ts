@@ -0,0 +1,99 @@
+/**
+ * In-memory simulator for the blinding contract.
+ *
+ * Runs circuits directly against a local ledger: no network, proofs or wallet. Every call
+ * names the private state of the party making it (authority, officer or vendor), and block
+ * time is set explicitly so windows and expiries can be stepped through.
+ */
+
+import {
+  type CircuitContext,
+  type CircuitResults,
+  createCircuitContext,
+  createConstructorContext,
+  sampleContractAddress
+} from "@midnight-ntwrk/compact-runtime";
+
+import {
+  Contract,
+  type Ledger,
+  ledger
+} from "../managed/blinding/contract/index.js";
+import {
+  type BlindingPrivateState,
+  createBlindingPrivateState,
+  witnesses
+} from "../witnesses.js";
+
+type Circuits = Contract<BlindingPrivateState>["impureCircuits"];
+
+type CircuitArgs<K extends keyof Circuits> = Circuits[K] extends (
+  context: CircuitContext<BlindingPrivateState>,
+  ...args: infer A
+) => unknown
+  ? A
+  : never;
+
+type CircuitResult<K extends keyof Circuits> = ReturnType<
+  Circuits[K]
+>["result"];
+
+type AnyCircuit = (
+  context: CircuitContext<BlindingPrivateState>,
+  ...args: unknown[]
+) => CircuitResults<BlindingPrivateState, unknown>;
+
+export class BlindingSimulator {
+  readonly contract: Contract<BlindingPrivateState>;
+  circuitContext: CircuitContext<BlindingPrivateState>;
+
+  // The constructor runs as the deployer, whose key becomes the procurement authority
+  constructor(authoritySecretKey: Uint8Array, now: bigint) {
+    this.contract = new Contract<BlindingPrivateState>(witnesses);
+    const {
+      currentPrivateState,
+      currentContractState,
+      currentZswapLocalState
+    } = this.contract.initialState(
+      createConstructorContext(
+        createBlindingPrivateState(authoritySecretKey),
+        "0".repeat(64)
+      )
+    );
+    this.circuitContext = createCircuitContext(
+      sampleContractAddress(),
+      currentZswapLocalState,
+      currentContractState,
+      currentPrivateState,
+      undefined,
+      undefined,
+      Number(now)
+    );
+  }
+
+  // Block time (seconds since the Unix epoch) seen by later calls
+  setTime(seconds: bigint) {
+    const queryContext = this.circuitContext.currentQueryContext;
+    queryContext.block = { ...queryContext.block, secondsSinceEpoch: seconds };
+  }
+
+  getLedger(): Ledger {
+    return ledger(this.circuitContext.currentQueryContext.state);
+  }
+
+  // Runs a circuit as the caller holding privateState and keeps the ledger it leaves behind
+  // A failing call throws and leaves the ledger as it was, like a rejected transaction
+  call<K extends keyof Circuits>(
+    privateState: BlindingPrivateState,
+    circuit: K,
+    ...args: CircuitArgs<K>
+  ): CircuitResult<K> {
+    const run = this.contract.impureCircuits[circuit] as AnyCircuit;
+    const { context, result } = run(
+      { ...this.circuitContext, currentPrivateState: privateState },
+      ...args
+    );
+    this.circuitContext = context;
+    return result as CircuitResult<K>;
+  }
+}
@@ -0,0 +1,1329 @@
+import { randomBytes } from "node:crypto";
+import { describe, expect, it } from "vitest";
+
+import { Tier, pureCircuits } from "../managed/blinding/contract/index.js";
+import {
+  type BlindingPrivateState,
+  createBlindingPrivateState
+} from "../witnesses.js";
+import { issueAttestation, randomScalar } from "../attestation.js";
+import { BlindingSimulator } from "./blinding-simulator.js";
+
+const NOW = 1_800_000_000n;
+const DAY = 86_400n;
+const ROUND = 1n;
+const CRITERION = 1n;
+const PROFILE = 1n;
+const EXPIRES_AT = NOW + 30n * DAY;
+const NO_EVIDENCE = new Uint8Array(32);
+const CERTIFIER_SECRET_KEY = randomScalar();
+
+const randomKey = () => new Uint8Array(randomBytes(32));
+
+const label = (text: string) =>
+  new Uint8Array(Buffer.concat([Buffer.from(text)], 32));
+
+interface Vendor {
+  secretKey: Uint8Array;
+  ref: Uint8Array;
+  memberKey: Uint8Array;
+  membershipSecret: Uint8Array;
+  privateState: BlindingPrivateState;
+}
+
+// A vendor with its own keys, a certifier attestation for CRITERION and a membership secret
+function makeVendor(vendorId: bigint, metrics: bigint[]): Vendor {
+  const secretKey = randomKey();
+  const referenceSalt = randomKey();
+  const membershipSecret = randomKey();
+  return {
+    secretKey,
+    ref: pureCircuits.vendorReference(vendorId, referenceSalt),
+    memberKey: pureCircuits.membershipCommitment(membershipSecret),
+    membershipSecret,
+    privateState: {
+      secretKey,
+      qualification: {
+        vendorId,
+        referenceSalt,
+        metrics,
+        salt: vendorId * 1000n
+      },
+      attestations: {
+        [CRITERION.toString()]: issueAttestation(
+          CERTIFIER_SECRET_KEY,
+          vendorId,
+          CRITERION,
+          NOW + 365n * DAY
+        )
+      },
+      membershipSecret,
+      membershipExpiries: { [ROUND.toString()]: EXPIRES_AT }
+    }
+  };
+}
+
+interface Setup {
+  sim: BlindingSimulator;
+  authority: BlindingPrivateState;
+  officerKeys: Uint8Array[];
+  officers: BlindingPrivateState[];
+}
+
+// An open round (threshold 60, equal weights) with a one-criterion compliance profile,
+// a registered certifier and officerCount officers, k of whom must approve
+function setUp(officerCount = 3, approvalThreshold = 2n): Setup {
+  const authorityKey = randomKey();
+  const authority = createBlindingPrivateState(authorityKey);
+  const sim = new BlindingSimulator(authorityKey, NOW);
+  sim.call(authority, "createRound", ROUND);
+  sim.call(authority, "setRoundThreshold", ROUND, 60n);
+  sim.call(authority, "setRoundWeights", ROUND, [25n, 25n, 25n, 25n]);
+  sim.call(authority, "defineCriterion", CRITERION, label("iso-9001"));
+  sim.call(authority, "setComplianceProfile", PROFILE, [
+    CRITERION,
+    0n,
+    0n,
+    0n,
+    0n,
+    0n,
+    0n,
+    0n
+  ]);
+  sim.call(
+    authority,
+    "registerCertifier",
+    0n,
+    pureCircuits.certifierPublicKey(CERTIFIER_SECRET_KEY),
+    CRITERION
+  );
+
+  const officerKeys = Array.from({ length: officerCount }, randomKey);
+  for (const officerKey of officerKeys) {
+    sim.call(authority, "registerOfficer", pureCircuits.publicKey(officerKey));
+  }
+  if (officerCount >= approvalThreshold) {
+    sim.call(authority, "setApprovalThreshold", approvalThreshold);
+  }
+  return {
+    sim,
+    authority,
+    officerKeys,
+    officers: officerKeys.map((officerKey) =>
+      createBlindingPrivateState(officerKey)
+    )
+  };
+}
+
+// Enrols the vendor's key and publishes its score commitment
+function enrolVendor({ sim, authority }: Setup, vendor: Vendor) {
+  sim.call(
+    authority,
+    "enrolVendor",
+    vendor.ref,
+    pureCircuits.publicKey(vendor.secretKey)
+  );
+  sim.call(vendor.privateState, "commitScore");
+}
+
+// Enrols the vendor and leaves it fresh qualification and compliance receipts in the round
+function proveVendor(setup: Setup, vendor: Vendor) {
+  const { sim } = setup;
+  enrolVendor(setup, vendor);
+  sim.call(vendor.privateState, "verifyQualification", ROUND, NOW - 60n);
+  sim.call(vendor.privateState, "checkCompliance", PROFILE, ROUND, NOW - 60n);
+}
+
+// Records the vendor's qualification: the first officer proposes it, the second approves
+function qualifyVendor(setup: Setup, vendor: Vendor) {
+  proveVendor(setup, vendor);
+  const { sim, officers } = setup;
+  const [proposalId] = sim.call(
+    officers[0],
+    "proposeQualification",
+    ROUND,
+    vendor.ref,
+    EXPIRES_AT,
+    vendor.memberKey,
+    NO_EVIDENCE
+  );
+  sim.call(officers[1], "approveQualification", proposalId);
+}
+
+describe("Qualification revocation", () => {
+  it("reports a revoked vendor as not qualified and moves it to the revoked count", () => {
+    const setup = setUp();
+    const { sim, authority } = setup;
+    const vendor = makeVendor(7n, [80n, 70n, 90n, 60n]);
+    qualifyVendor(setup, vendor);
+    expect(
+      sim.call(vendor.privateState, "isVendorQualified", ROUND, vendor.ref)
+    ).toEqual([true, Tier.none]);
+
+    sim.call(authority, "revokeQualification", ROUND, vendor.ref);
+
+    const state = sim.getLedger();
+    expect(state.vendors.lookup(ROUND).lookup(vendor.ref).revoked).toBe(true);
+    expect(state.qualifiedCount.lookup(ROUND).read()).toBe(0n);
+    expect(state.revokedCount.lookup(ROUND).read()).toBe(1n);
+    expect(
+      sim.call(vendor.privateState, "isVendorQualified", ROUND, vendor.ref)
+    ).toEqual([false, Tier.none]);
+  });
+
+  it("stops a revoked vendor from proving membership", () => {
+    const setup = setUp();
+    const vendor = makeVendor(7n, [80n, 70n, 90n, 60n]);
+    qualifyVendor(setup, vendor);
+    setup.sim.call(setup.authority, "revokeQualification", ROUND, vendor.ref);
+
+    expect(() =>
+      setup.sim.call(vendor.privateState, "proveMembership", ROUND)
+    ).toThrow("Not a qualified vendor in this procurement round");
+  });
+
+  it("counts a vendor revoked twice only once", () => {
+    const setup = setUp();
+    const vendor = makeVendor(7n, [80n, 70n, 90n, 60n]);
+    qualifyVendor(setup, vendor);
+    setup.sim.call(setup.authority, "revokeQualification", ROUND, vendor.ref);
+    setup.sim.call(setup.authority, "revokeQualification", ROUND, vendor.ref);
+
+    expect(setup.sim.getLedger().revokedCount.lookup(ROUND).read()).toBe(1n);
+  });
+
+  it("reports an expired qualification as not qualified", () => {
+    const setup = setUp();
+    const vendor = makeVendor(7n, [80n, 70n, 90n, 60n]);
+    qualifyVendor(setup, vendor);
+    setup.sim.setTime(EXPIRES_AT + 1n);
+
+    expect(
+      setup.sim.call(
+        vendor.privateState,
+        "isVendorQualified",
+        ROUND,
+        vendor.ref
+      )
+    ).toEqual([false, Tier.none]);
+  });
+
+  it("lets only the procurement authority revoke", () => {
+    const setup = setUp();
+    const vendor = makeVendor(7n, [80n, 70n, 90n, 60n]);
+    qualifyVendor(setup, vendor);
+
+    expect(() =>
+      setup.sim.call(
+        setup.officers[0],
+        "revokeQualification",
+        ROUND,
+        vendor.ref
+      )
+    ).toThrow("Not authorised: caller is not the procurement authority");
+  });
+
+  it("refuses to revoke a vendor without a qualification", () => {
+    const setup = setUp();
+    const vendor = makeVendor(7n, [80n, 70n, 90n, 60n]);
+
+    expect(() =>
+      setup.sim.call(setup.authority, "revokeQualification", ROUND, vendor.ref)
+    ).toThrow("Vendor has no qualification to revoke");
+  });
+});
+
+describe("Round thresholds", () => {
+  it("passes a vendor whose weighted score meets the threshold and leaves a receipt", () => {
+    const setup = setUp();
+    const vendor = makeVendor(7n, [80n, 70n, 90n, 60n]);
+    enrolVendor(setup, vendor);
+
+    expect(
+      setup.sim.call(
+        vendor.privateState,
+        "verifyQualification",
+        ROUND,
+        NOW - 60n
+      )
+    ).toEqual([true]);
+    const receipt = setup.sim
+      .getLedger()
+      .proofReceipts.lookup(ROUND)
+      .lookup(vendor.ref);
+    expect(receipt.qualifiedUntil).toBe(NOW - 60n + DAY);
+  });
+
+  it("counts a score equal to the threshold as qualifying", () => {
+    const setup = setUp();
+    const vendor = makeVendor(7n, [60n, 60n, 60n, 60n]);
+    enrolVendor(setup, vendor);
+
+    expect(
+      setup.sim.call(
+        vendor.privateState,
+        "verifyQualification",
+        ROUND,
+        NOW - 60n
+      )
+    ).toEqual([true]);
+  });
+
+  it("fails a vendor below the threshold without leaving a receipt", () => {
+    const setup = setUp();
+    const vendor = makeVendor(7n, [50n, 50n, 60n, 40n]);
+    enrolVendor(setup, vendor);
+
+    expect(
+      setup.sim.call(
+        vendor.privateState,
+        "verifyQualification",
+        ROUND,
+        NOW - 60n
+      )
+    ).toEqual([false]);
+    expect(
+      setup.sim.getLedger().proofReceipts.lookup(ROUND).member(vendor.ref)
+    ).toBe(false);
+  });
+
+  it("weighs the sub-metrics with the round's published weights", () => {
+    const setup = setUp();
+    // Plain average 75, weighted score 48
+    const vendor = makeVendor(7n, [30n, 90n, 90n, 90n]);
+    enrolVendor(setup, vendor);
+    setup.sim.call(setup.authority, "setRoundWeights", ROUND, [
+      70n,
+      10n,
+      10n,
+      10n
+    ]);
+
+    expect(
+      setup.sim.call(
+        vendor.privateState,
+        "verifyQualification",
+        ROUND,
+        NOW - 60n
+      )
+    ).toEqual([false]);
+  });
+
+  it("checks against the threshold currently published for the round", () => {
+    const setup = setUp();
+    const { sim, authority } = setup;
+    const vendor = makeVendor(7n, [80n, 70n, 90n, 60n]);
+    enrolVendor(setup, vendor);
+
+    sim.call(authority, "setRoundThreshold", ROUND, 80n);
+    expect(
+      sim.call(vendor.privateState, "verifyQualification", ROUND, NOW - 60n)
+    ).toEqual([false]);
+
+    sim.call(authority, "setRoundThreshold", ROUND, 70n);
+    expect(
+      sim.call(vendor.privateState, "verifyQualification", ROUND, NOW - 60n)
+    ).toEqual([true]);
+  });
+
+  it("fails a proof in a round without a threshold policy", () => {
+    const setup = setUp();
+    const { sim, authority } = setup;
+    const vendor = makeVendor(7n, [80n, 70n, 90n, 60n]);
+    enrolVendor(setup, vendor);
+    sim.call(authority, "createRound", 2n);
+    sim.call(authority, "setRoundWeights", 2n, [25n, 25n, 25n, 25n]);
+
+    expect(() =>
+      sim.call(vendor.privateState, "verifyQualification", 2n, NOW - 60n)
+    ).toThrow("No threshold policy for procurement round");
+  });
+
+  it("lets only the procurement authority publish a threshold", () => {
+    const setup = setUp();
+
+    expect(() =>
+      setup.sim.call(setup.officers[0], "setRoundThreshold", ROUND, 10n)
+    ).toThrow("Not authorised: caller is not the procurement authority");
+  });
+
+  it("refuses a threshold for a closed round", () => {
+    const setup = setUp();
+    setup.sim.call(setup.authority, "closeRound", ROUND);
+
+    expect(() =>
+      setup.sim.call(setup.authority, "setRoundThreshold", ROUND, 70n)
+    ).toThrow("Procurement round is closed");
+  });
+});
+
+describe("Membership nullifiers", () => {
+  it("accepts one membership proof per vendor per round", () => {
+    const setup = setUp();
+    const vendor = makeVendor(7n, [80n, 70n, 90n, 60n]);
+    qualifyVendor(setup, vendor);
+
+    setup.sim.call(vendor.privateState, "proveMembership", ROUND);
+    expect(setup.sim.getLedger().membershipNullifiers.size()).toBe(1n);
+    expect(() =>
+      setup.sim.call(vendor.privateState, "proveMembership", ROUND)
+    ).toThrow("Membership already proven in this procurement round");
+  });
+
+  it("gives each vendor its own nullifier, unrelated to its reference or membership key", () => {
+    const setup = setUp();
+    const first = makeVendor(7n, [80n, 70n, 90n, 60n]);
+    const second = makeVendor(8n, [90n, 90n, 90n, 90n]);
+    qualifyVendor(setup, first);
+    qualifyVendor(setup, second);
+
+    setup.sim.call(first.privateState, "proveMembership", ROUND);
+    setup.sim.call(second.privateState, "proveMembership", ROUND);
+
+    const nullifiers = setup.sim.getLedger().membershipNullifiers;
+    expect(nullifiers.size()).toBe(2n);
+    for (const vendor of [first, second]) {
+      expect(nullifiers.member(vendor.ref)).toBe(false);
+      expect(nullifiers.member(vendor.memberKey)).toBe(false);
+    }
+  });
+
+  it("rejects a vendor that is not in the round's qualified set", () => {
+    const setup = setUp();
+    const vendor = makeVendor(7n, [80n, 70n, 90n, 60n]);
+    proveVendor(setup, vendor);
+
+    expect(() =>
+      setup.sim.call(vendor.privateState, "proveMembership", ROUND)
+    ).toThrow("Not a qualified vendor in this procurement round");
+  });
+
+  it("rejects an expiry other than the recorded one", () => {
+    const setup = setUp();
+    const vendor = makeVendor(7n, [80n, 70n, 90n, 60n]);
+    qualifyVendor(setup, vendor);
+    const extended: BlindingPrivateState = {
+      ...vendor.privateState,
+      membershipExpiries: { [ROUND.toString()]: EXPIRES_AT + DAY }
+    };
+
+    expect(() => setup.sim.call(extended, "proveMembership", ROUND)).toThrow(
+      "Not a qualified vendor in this procurement round"
+    );
+  });
+
+  it("rejects a proof once the qualification has expired", () => {
+    const setup = setUp();
+    const vendor = makeVendor(7n, [80n, 70n, 90n, 60n]);
+    qualifyVendor(setup, vendor);
+    setup.sim.setTime(EXPIRES_AT + 1n);
+
+    expect(() =>
+      setup.sim.call(vendor.privateState, "proveMembership", ROUND)
+    ).toThrow("Qualification has expired");
+  });
+});
+
+describe("Sealed-bid tenders", () => {
+  const BIDDING_ENDS_AT = NOW + DAY;
+  const REVEAL_ENDS_AT = NOW + 2n * DAY;
+
+  // Two qualified vendors and an open tender in the round
+  function setUpTender() {
+    const setup = setUp();
+    const first = makeVendor(7n, [80n, 70n, 90n, 60n]);
+    const second = makeVendor(8n, [90n, 90n, 90n, 90n]);
+    qualifyVendor(setup, first);
+    qualifyVendor(setup, second);
+    setup.sim.call(
+      setup.authority,
+      "openTender",
+      ROUND,
+      BIDDING_ENDS_AT,
+      REVEAL_ENDS_AT
+    );
+    return { setup, first, second };
+  }
+
+  // The vendor's private state holding a freshly salted bid for the round
+  const bidding = (vendor: Vendor, amount: bigint): BlindingPrivateState => ({
+    ...vendor.privateState,
+    bids: { [ROUND.toString()]: { amount, salt: randomKey() } }
+  });
+
+  it("awards the lowest revealed bid once the tender is finalized", () => {
+    const { setup, first, second } = setUpTender();
+    const { sim, authority } = setup;
+    const firstBid = bidding(first, 500n);
+    const secondBid = bidding(second, 300n);
+    sim.call(firstBid, "commitBid", ROUND);
+    sim.call(secondBid, "commitBid", ROUND);
+
+    sim.setTime(BIDDING_ENDS_AT + 1n);
+    expect(sim.call(firstBid, "revealBid", ROUND)).toEqual([500n]);
+    expect(sim.call(secondBid, "revealBid", ROUND)).toEqual([300n]);
+    expect(() => sim.call(authority, "finalizeTender", ROUND)).toThrow(
+      "Reveal window is still open"
+    );
+
+    sim.setTime(REVEAL_ENDS_AT + 1n);
+    expect(sim.call(authority, "finalizeTender", ROUND)).toEqual([true]);
+    const tender = sim.getLedger().tenders.lookup(ROUND);
+    expect(tender.finalized).toBe(true);
+    expect(tender.winningBid).toBe(300n);
+    expect(tender.winningBidder).toEqual(
+      pureCircuits.bidderTag(ROUND, second.membershipSecret)
+    );
+  });
+
+  it("keys sealed bids by bidder tag and keeps amounts private until revealed", () => {
+    const { setup, first } = setUpTender();
+    setup.sim.call(bidding(first, 500n), "commitBid", ROUND);
+
+    const state = setup.sim.getLedger();
+    const commitments = state.bidCommitments.lookup(ROUND);
+    expect(commitments.size()).toBe(1n);
+    expect(
+      commitments.member(pureCircuits.bidderTag(ROUND, first.membershipSecret))
+    ).toBe(true);
+    expect(commitments.member(first.ref)).toBe(false);
+    expect(state.revealedBids.lookup(ROUND).isEmpty()).toBe(true);
+  });
+
+  it("rejects a reveal that does not open the sealed commitment", () => {
+    const { setup, first } = setUpTender();
+    setup.sim.call(bidding(first, 500n), "commitBid", ROUND);
+    setup.sim.setTime(BIDDING_ENDS_AT + 1n);
+
+    expect(() =>
+      setup.sim.call(bidding(first, 400n), "revealBid", ROUND)
+    ).toThrow("Bid does not match the sealed commitment");
+  });
+
+  it("rejects a second reveal of the same bid", () => {
+    const { setup, first } = setUpTender();
+    const firstBid = bidding(first, 500n);
+    setup.sim.call(firstBid, "commitBid", ROUND);
+    setup.sim.setTime(BIDDING_ENDS_AT + 1n);
+    setup.sim.call(firstBid, "revealBid", ROUND);
+
+    expect(() => setup.sim.call(firstBid, "revealBid", ROUND)).toThrow(
+      "Bid already revealed"
+    );
+  });
+
+  it("accepts bids only during the bidding window and reveals only after it", () => {
+    const { setup, first, second } = setUpTender();
+    const firstBid = bidding(first, 500n);
+    setup.sim.call(firstBid, "commitBid", ROUND);
+
+    expect(() => setup.sim.call(firstBid, "revealBid", ROUND)).toThrow(
+      "Bidding window is still open"
+    );
+    setup.sim.setTime(BIDDING_ENDS_AT);
+    expect(() =>
+      setup.sim.call(bidding(second, 300n), "commitBid", ROUND)
+    ).toThrow("Bidding window has closed");
+  });
+
+  it("rejects bids from vendors outside the round's qualified set", () => {
+    const { setup } = setUpTender();
+    const outsider = makeVendor(9n, [80n, 70n, 90n, 60n]);
+    proveVendor(setup, outsider);
+
+    expect(() =>
+      setup.sim.call(bidding(outsider, 100n), "commitBid", ROUND)
+    ).toThrow("Not a qualified vendor in this procurement round");
+  });
+});
+
+describe("k-of-n officer approval", () => {
+  // Proposes the vendor's qualification as the first officer; returns the proposal id
+  function propose(setup: Setup, vendor: Vendor): bigint {
+    proveVendor(setup, vendor);
+    const [proposalId] = setup.sim.call(
+      setup.officers[0],
+      "proposeQualification",
+      ROUND,
+      vendor.ref,
+      EXPIRES_AT,
+      vendor.memberKey,
+      NO_EVIDENCE
+    );
+    return proposalId;
+  }
+
+  it("records a qualification only once k officers approved", () => {
+    const setup = setUp(4, 3n);
+    const { sim, officers } = setup;
+    const vendor = makeVendor(7n, [80n, 70n, 90n, 60n]);
+    const proposalId = propose(setup, vendor);
+
+    expect(sim.call(officers[1], "approveQualification", proposalId)).toEqual([
+      false
+    ]);
+    expect(sim.getLedger().vendors.lookup(ROUND).member(vendor.ref)).toBe(
+      false
+    );
+
+    expect(sim.call(officers[2], "approveQualification", proposalId)).toEqual([
+      true
+    ]);
+    const state = sim.getLedger();
+    expect(state.proposals.lookup(proposalId).executed).toBe(true);
+    expect(state.vendors.lookup(ROUND).member(vendor.ref)).toBe(true);
+    expect(state.qualifiedCount.lookup(ROUND).read()).toBe(1n);
+  });
+
+  it("counts each officer's approval once", () => {
+    const setup = setUp();
+    const proposalId = propose(setup, makeVendor(7n, [80n, 70n, 90n, 60n]));
+
+    expect(() =>
+      setup.sim.call(setup.officers[0], "approveQualification", proposalId)
+    ).toThrow("Officer already approved this proposal");
+  });
+
+  it("takes proposals and approvals from registered officers only", () => {
+    const setup = setUp();
+    const { sim, authority } = setup;
+    const vendor = makeVendor(7n, [80n, 70n, 90n, 60n]);
+    proveVendor(setup, vendor);
+
+    expect(() =>
+      sim.call(
+        authority,
+        "proposeQualification",
+        ROUND,
+        vendor.ref,
+        EXPIRES_AT,
+        vendor.memberKey,
+        NO_EVIDENCE
+      )
+    ).toThrow("Not authorised: caller is not a registered procurement officer");
+    const proposalId = propose(setup, makeVendor(8n, [80n, 70n, 90n, 60n]));
+    expect(() =>
+      sim.call(vendor.privateState, "approveQualification", proposalId)
+    ).toThrow("Not authorised: caller is not a registered procurement officer");
+  });
+
+  it("stops counting the approval of an officer removed since", () => {
+    const setup = setUp(3, 2n);
+    const { sim, authority, officers, officerKeys } = setup;
+    const proposalId = propose(setup, makeVendor(7n, [80n, 70n, 90n, 60n]));
+    sim.call(
+      authority,
+      "removeOfficer",
+      pureCircuits.publicKey(officerKeys[0])
+    );
+
+    expect(sim.call(officers[1], "approveQualification", proposalId)).toEqual([
+      false
+    ]);
+    expect(sim.call(officers[2], "approveQualification", proposalId)).toEqual([
+      true
+    ]);
+  });
+
+  it("rejects approvals of an executed proposal", () => {
+    const setup = setUp();
+    const proposalId = propose(setup, makeVendor(7n, [80n, 70n, 90n, 60n]));
+    setup.sim.call(setup.officers[1], "approveQualification", proposalId);
+
+    expect(() =>
+      setup.sim.call(setup.officers[2], "approveQualification", proposalId)
+    ).toThrow("Qualification proposal already executed");
+  });
+
+  it("records nothing before an approval threshold is set", () => {
+    // A single officer leaves setUp unable to set k = 2
+    const setup = setUp(1, 2n);
+    const proposalId = propose(setup, makeVendor(7n, [80n, 70n, 90n, 60n]));
+
+    expect(setup.sim.getLedger().proposals.lookup(proposalId).executed).toBe(
+      false
+    );
+  });
+
+  it("keeps k between 2 and the number of registered officers", () => {
+    const { sim, authority } = setUp(3, 2n);
+
+    expect(() => sim.call(authority, "setApprovalThreshold", 1n)).toThrow(
+      "Approval threshold must be at least 2"
+    );
+    expect(() => sim.call(authority, "setApprovalThreshold", 4n)).toThrow(
+      "Approval threshold exceeds the number of registered officers"
+    );
+    expect(() => sim.call(authority, "setApprovalThreshold", 9n)).toThrow(
+      "Approval threshold cannot exceed 8 officers"
+    );
+  });
+
+  it("refuses to remove an officer when fewer than k would remain", () => {
+    const { sim, authority, officerKeys } = setUp(2, 2n);
+
+    expect(() =>
+      sim.call(
+        authority,
+        "removeOfficer",
+        pureCircuits.publicKey(officerKeys[0])
+      )
+    ).toThrow(
+      "Removing officer would leave fewer officers than the approval threshold"
+    );
+  });
+});
+
+describe("Score commitments", () => {
+  it("publishes one commitment per vendor and counts the proofs checked against it", () => {
+    const setup = setUp();
+    const { sim } = setup;
+    const vendor = makeVendor(7n, [80n, 70n, 90n, 60n]);
+    enrolVendor(setup, vendor);
+    expect(sim.getLedger().scoreCommitments.member(vendor.ref)).toBe(true);
+    expect(sim.getLedger().commitmentProofs.lookup(vendor.ref).read()).toBe(0n);
+
+    sim.call(vendor.privateState, "verifyQualification", ROUND, NOW - 60n);
+    sim.call(vendor.privateState, "verifyQualification", ROUND, NOW - 60n);
+
+    expect(sim.getLedger().commitmentProofs.lookup(vendor.ref).read()).toBe(2n);
+  });
+
+  it("keeps the first commitment", () => {
+    const setup = setUp();
+    const vendor = makeVendor(7n, [80n, 70n, 90n, 60n]);
+    enrolVendor(setup, vendor);
+
+    expect(() => setup.sim.call(vendor.privateState, "commitScore")).toThrow(
+      "Score already committed for vendor"
+    );
+  });
+
+  it("rejects a proof from sub-metrics other than the committed ones", () => {
+    const setup = setUp();
+    const vendor = makeVendor(7n, [50n, 50n, 60n, 40n]);
+    enrolVendor(setup, vendor);
+    const inflated: BlindingPrivateState = {
+      ...vendor.privateState,
+      qualification: {
+        ...vendor.privateState.qualification!,
+        metrics: [90n, 90n, 90n, 90n]
+      }
+    };
+
+    expect(() =>
+      setup.sim.call(inflated, "verifyQualification", ROUND, NOW - 60n)
+    ).toThrow("Private sub-metrics do not match the committed score");
+  });
+
+  it("rejects a proof before the vendor committed its score", () => {
+    const setup = setUp();
+    const vendor = makeVendor(7n, [80n, 70n, 90n, 60n]);
+    setup.sim.call(
+      setup.authority,
+      "enrolVendor",
+      vendor.ref,
+      pureCircuits.publicKey(vendor.secretKey)
+    );
+
+    expect(() =>
+      setup.sim.call(
+        vendor.privateState,
+        "verifyQualification",
+        ROUND,
+        NOW - 60n
+      )
+    ).toThrow("No score commitment for vendor");
+  });
+});
+
+describe("Tier bands", () => {
+  // Silver [60, 80) and gold [80, 101) in a round with equal weights
+  function setUpBands(): Setup {
+    const setup = setUp();
+    setup.sim.call(setup.authority, "setTierBand", Tier.silver, 60n, 80n);
+    setup.sim.call(setup.authority, "setTierBand", Tier.gold, 80n, 101n);
+    return setup;
+  }
+
+  it("records the proved tier and reports it while the vendor is qualified", () => {
+    const setup = setUpBands();
+    const { sim } = setup;
+    const vendor = makeVendor(7n, [80n, 70n, 90n, 60n]);
+    qualifyVendor(setup, vendor);
+
+    sim.call(vendor.privateState, "proveTier", ROUND, Tier.silver);
+
+    expect(sim.getLedger().vendorTiers.lookup(ROUND).lookup(vendor.ref)).toBe(
+      Tier.silver
+    );
+    expect(
+      sim.call(vendor.privateState, "isVendorQualified", ROUND, vendor.ref)
+    ).toEqual([true, Tier.silver]);
+    sim.call(setup.authority, "revokeQualification", ROUND, vendor.ref);
+    expect(
+      sim.call(vendor.privateState, "getVendorTier", ROUND, vendor.ref)
+    ).toEqual([Tier.none]);
+  });
+
+  it("includes a band's low bound and excludes its high bound", () => {
+    const setup = setUpBands();
+    const vendor = makeVendor(7n, [80n, 80n, 80n, 80n]);
+    enrolVendor(setup, vendor);
+
+    expect(() =>
+      setup.sim.call(vendor.privateState, "proveTier", ROUND, Tier.silver)
+    ).toThrow("Score is not in the tier's band");
+    setup.sim.call(vendor.privateState, "proveTier", ROUND, Tier.gold);
+  });
+
+  it("lets a perfect score claim a band ending at 101", () => {
+    const setup = setUpBands();
+    const vendor = makeVendor(7n, [100n, 100n, 100n, 100n]);
+    enrolVendor(setup, vendor);
+
+    setup.sim.call(vendor.privateState, "proveTier", ROUND, Tier.gold);
+  });
+
+  it("lets a score in overlapping bands claim either tier", () => {
+    const setup = setUpBands();
+    setup.sim.call(setup.authority, "setTierBand", Tier.silver, 60n, 85n);
+    const vendor = makeVendor(7n, [82n, 82n, 82n, 82n]);
+    enrolVendor(setup, vendor);
+
+    setup.sim.call(vendor.privateState, "proveTier", ROUND, Tier.silver);
+    setup.sim.call(vendor.privateState, "proveTier", ROUND, Tier.gold);
+    expect(
+      setup.sim.getLedger().vendorTiers.lookup(ROUND).lookup(vendor.ref)
+    ).toBe(Tier.gold);
+  });
+
+  it("rejects a tier without a band", () => {
+    const setup = setUpBands();
+    const vendor = makeVendor(7n, [50n, 50n, 50n, 50n]);
+    enrolVendor(setup, vendor);
+
+    expect(() =>
+      setup.sim.call(vendor.privateState, "proveTier", ROUND, Tier.bronze)
+    ).toThrow("No score band for tier");
+  });
+
+  it("accepts only bands with low < high <= 101 for tiers other than none", () => {
+    const { sim, authority, officers } = setUp();
+
+    expect(() =>
+      sim.call(authority, "setTierBand", Tier.none, 0n, 50n)
+    ).toThrow("Tier none has no score band");
+    expect(() =>
+      sim.call(authority, "setTierBand", Tier.bronze, 50n, 50n)
+    ).toThrow("Score band must satisfy low < high <= 101");
+    expect(() =>
+      sim.call(authority, "setTierBand", Tier.gold, 90n, 102n)
+    ).toThrow("Score band must satisfy low < high <= 101");
+    expect(() =>
+      sim.call(officers[0], "setTierBand", Tier.bronze, 40n, 60n)
+    ).toThrow("Not authorised: caller is not the procurement authority");
+  });
+});
+
+describe("Vendor keys", () => {
+  // The vendor's private state holding another secret key
+  const withKey = (vendor: Vendor, secretKey: Uint8Array) => ({
+    ...vendor.privateState,
+    secretKey
+  });
+
+  it("lets only the procurement authority enrol a vendor", () => {
+    const setup = setUp();
+    const vendor = makeVendor(7n, [80n, 70n, 90n, 60n]);
+
+    expect(() =>
+      setup.sim.call(
+        setup.officers[0],
+        "enrolVendor",
+        vendor.ref,
+        pureCircuits.publicKey(vendor.secretKey)
+      )
+    ).toThrow("Not authorised: caller is not the procurement authority");
+  });
+
+  it("requires the enrolled key for vendor-side circuits", () => {
+    const setup = setUp();
+    const vendor = makeVendor(7n, [80n, 70n, 90n, 60n]);
+
+    expect(() => setup.sim.call(vendor.privateState, "commitScore")).toThrow(
+      "Vendor is not enrolled"
+    );
+    setup.sim.call(
+      setup.authority,
+      "enrolVendor",
+      vendor.ref,
+      pureCircuits.publicKey(vendor.secretKey)
+    );
+    expect(() =>
+      setup.sim.call(withKey(vendor, randomKey()), "commitScore")
+    ).toThrow("Not authorised: caller does not hold the vendor's enrolled key");
+  });
+
+  it("rejects the old key once the vendor rotated it", () => {
+    const setup = setUp();
+    const { sim } = setup;
+    const vendor = makeVendor(7n, [80n, 70n, 90n, 60n]);
+    enrolVendor(setup, vendor);
+    const newKey = randomKey();
+
+    sim.call(
+      vendor.privateState,
+      "rotateVendorKey",
+      vendor.ref,
+      pureCircuits.publicKey(newKey)
+    );
+
+    expect(sim.getLedger().vendorKeys.lookup(vendor.ref)).toEqual(
+      pureCircuits.publicKey(newKey)
+    );
+    expect(() =>
+      sim.call(vendor.privateState, "verifyQualification", ROUND, NOW - 60n)
+    ).toThrow("Not authorised: caller does not hold the vendor's enrolled key");
+    expect(
+      sim.call(withKey(vendor, newKey), "verifyQualification", ROUND, NOW - 60n)
+    ).toEqual([true]);
+  });
+
+  it("lets only the holder of the current key rotate it, to a different key", () => {
+    const setup = setUp();
+    const vendor = makeVendor(7n, [80n, 70n, 90n, 60n]);
+    enrolVendor(setup, vendor);
+
+    expect(() =>
+      setup.sim.call(
+        withKey(vendor, randomKey()),
+        "rotateVendorKey",
+        vendor.ref,
+        pureCircuits.publicKey(randomKey())
+      )
+    ).toThrow("Not authorised: caller does not hold the vendor's enrolled key");
+    expect(() =>
+      setup.sim.call(
+        vendor.privateState,
+        "rotateVendorKey",
+        vendor.ref,
+        pureCircuits.publicKey(vendor.secretKey)
+      )
+    ).toThrow("New vendor key must differ from the current one");
+  });
+});
+
+describe("Status queries", () => {
+  const NOT_A_READER =
+    "Not authorised: only the vendor or a registered procurement officer can query its status";
+
+  it("answers the vendor itself and registered officers", () => {
+    const setup = setUp();
+    const vendor = makeVendor(7n, [80n, 70n, 90n, 60n]);
+    qualifyVendor(setup, vendor);
+
+    for (const reader of [vendor.privateState, setup.officers[2]]) {
+      expect(
+        setup.sim.call(reader, "isVendorQualified", ROUND, vendor.ref)
+      ).toEqual([true, Tier.none]);
+      expect(
+        setup.sim.call(reader, "getVendorTier", ROUND, vendor.ref)
+      ).toEqual([Tier.none]);
+    }
+  });
+
+  it("refuses a competitor's enrolled key", () => {
+    const setup = setUp();
+    const vendor = makeVendor(7n, [80n, 70n, 90n, 60n]);
+    const competitor = makeVendor(8n, [90n, 90n, 90n, 90n]);
+    qualifyVendor(setup, vendor);
+    qualifyVendor(setup, competitor);
+
+    expect(() =>
+      setup.sim.call(
+        competitor.privateState,
+        "isVendorQualified",
+        ROUND,
+        vendor.ref
+      )
+    ).toThrow(NOT_A_READER);
+    expect(() =>
+      setup.sim.call(
+        competitor.privateState,
+        "getVendorTier",
+        ROUND,
+        vendor.ref
+      )
+    ).toThrow(NOT_A_READER);
+  });
+
+  it("refuses an anonymous caller", () => {
+    const setup = setUp();
+    const vendor = makeVendor(7n, [80n, 70n, 90n, 60n]);
+    qualifyVendor(setup, vendor);
+    const anonymous = createBlindingPrivateState(randomKey());
+
+    expect(() =>
+      setup.sim.call(anonymous, "isVendorQualified", ROUND, vendor.ref)
+    ).toThrow(NOT_A_READER);
+    expect(() =>
+      setup.sim.call(anonymous, "getVendorTier", ROUND, vendor.ref)
+    ).toThrow(NOT_A_READER);
+  });
+
+  it("refuses an officer removed since", () => {
+    const setup = setUp(3, 2n);
+    const { sim, authority, officers, officerKeys } = setup;
+    const vendor = makeVendor(7n, [80n, 70n, 90n, 60n]);
+    qualifyVendor(setup, vendor);
+    sim.call(
+      authority,
+      "removeOfficer",
+      pureCircuits.publicKey(officerKeys[2])
+    );
+
+    expect(() =>
+      sim.call(officers[2], "isVendorQualified", ROUND, vendor.ref)
+    ).toThrow(NOT_A_READER);
+  });
+});
+
+describe("Batch qualification", () => {
+  const BATCH_SLOTS = 8;
+
+  // Pads a batch argument to the circuit's 8 slots with filler the circuit must ignore
+  function padded<T>(values: T[], filler: () => T): T[] {
+    return [
+      ...values,
+      ...Array.from({ length: BATCH_SLOTS - values.length }, filler)
+    ];
+  }
+
+  // Proposes the vendors in one batch as the first officer; returns the first proposal id
+  function proposeBatch(setup: Setup, vendors: Vendor[]): bigint {
+    const [firstId] = setup.sim.call(
+      setup.officers[0],
+      "proposeQualificationBatch",
+      ROUND,
+      BigInt(vendors.length),
+      padded(
+        vendors.map((vendor) => vendor.ref),
+        randomKey
+      ),
+      padded(
+        vendors.map((vendor) => vendor.memberKey),
+        randomKey
+      ),
+      padded(
+        vendors.map(() => NO_EVIDENCE),
+        randomKey
+      ),
+      EXPIRES_AT
+    );
+    return firstId;
+  }
+
+  // The proposal ids of a batch, padded with ids no proposal has
+  const proposalIds = (firstId: bigint, count: number) =>
+    padded(
+      Array.from({ length: count }, (_, i) => firstId + BigInt(i)),
+      () => 999n
+    );
+
+  it("proposes and records a partial chunk, ignoring the unused slots", () => {
+    const setup = setUp();
+    const { sim, officers } = setup;
+    const vendors = [7n, 8n, 9n].map((vendorId) =>
+      makeVendor(vendorId, [80n, 70n, 90n, 60n])
+    );
+    vendors.forEach((vendor) => proveVendor(setup, vendor));
+
+    const firstId = proposeBatch(setup, vendors);
+
+    expect(sim.getLedger().proposalCount).toBe(firstId + 3n);
+    expect(
+      sim.call(
+        officers[1],
+        "approveQualificationBatch",
+        3n,
+        proposalIds(firstId, 3)
+      )
+    ).toEqual([3n]);
+    const state = sim.getLedger();
+    expect(state.qualifiedCount.lookup(ROUND).read()).toBe(3n);
+    for (const vendor of vendors) {
+      expect(state.vendors.lookup(ROUND).member(vendor.ref)).toBe(true);
+    }
+  });
+
+  it("returns how many approvals in the chunk recorded a qualification", () => {
+    const setup = setUp(4, 3n);
+    const { sim, officers } = setup;
+    const vendors = [7n, 8n].map((vendorId) =>
+      makeVendor(vendorId, [80n, 70n, 90n, 60n])
+    );
+    vendors.forEach((vendor) => proveVendor(setup, vendor));
+    const firstId = proposeBatch(setup, vendors);
+    sim.call(officers[1], "approveQualification", firstId);
+
+    // Only the first proposal reaches k = 3 with this approval
+    expect(
+      sim.call(
+        officers[2],
+        "approveQualificationBatch",
+        2n,
+        proposalIds(firstId, 2)
+      )
+    ).toEqual([1n]);
+    expect(
+      sim.call(
+        officers[3],
+        "approveQualificationBatch",
+        1n,
+        proposalIds(firstId + 1n, 1)
+      )
+    ).toEqual([1n]);
+  });
+
+  it("fails the whole chunk on an entry without fresh receipts", () => {
+    const setup = setUp();
+    const proven = makeVendor(7n, [80n, 70n, 90n, 60n]);
+    const unproven = makeVendor(8n, [80n, 70n, 90n, 60n]);
+    proveVendor(setup, proven);
+
+    expect(() => proposeBatch(setup, [proven, unproven])).toThrow(
+      "Vendor has no fresh qualification proof in this round"
+    );
+    expect(setup.sim.getLedger().proposalCount).toBe(0n);
+  });
+
+  it("fails the whole chunk on a duplicate or unknown proposal id", () => {
+    const setup = setUp(4, 3n);
+    const { sim, officers } = setup;
+    const vendors = [7n, 8n].map((vendorId) =>
+      makeVendor(vendorId, [80n, 70n, 90n, 60n])
+    );
+    vendors.forEach((vendor) => proveVendor(setup, vendor));
+    const firstId = proposeBatch(setup, vendors);
+
+    expect(() =>
+      sim.call(
+        officers[1],
+        "approveQualificationBatch",
+        2n,
+        padded([firstId, firstId], () => 999n)
+      )
+    ).toThrow("Officer already approved this proposal");
+    expect(() =>
+      sim.call(
+        officers[1],
+        "approveQualificationBatch",
+        2n,
+        padded([firstId, 999n], () => 999n)
+      )
+    ).toThrow("Unknown qualification proposal");
+    expect(sim.getLedger().proposals.lookup(firstId).approvalCount).toBe(1n);
+  });
+
+  it("takes chunks of 1 to 8 entries", () => {
+    const setup = setUp();
+    const vendor = makeVendor(7n, [80n, 70n, 90n, 60n]);
+    proveVendor(setup, vendor);
+
+    expect(() => proposeBatch(setup, [])).toThrow(
+      "Batch must hold between 1 and 8 entries"
+    );
+    expect(() =>
+      setup.sim.call(
+        setup.officers[1],
+        "approveQualificationBatch",
+        9n,
+        proposalIds(0n, 8)
+      )
+    ).toThrow("Batch must hold between 1 and 8 entries");
+  });
+});
+
+describe("Emergency pause", () => {
+  // A qualified vendor with a sealed bid ready in an open tender, and a proven vendor
+  // whose qualification is yet to be proposed
+  function setUpPaused() {
+    const setup = setUp();
+    const qualified = makeVendor(7n, [80n, 70n, 90n, 60n]);
+    const proven = makeVendor(8n, [80n, 70n, 90n, 60n]);
+    qualifyVendor(setup, qualified);
+    proveVendor(setup, proven);
+    setup.sim.call(
+      setup.authority,
+      "openTender",
+      ROUND,
+      NOW + DAY,
+      NOW + 2n * DAY
+    );
+    setup.sim.call(setup.authority, "pause");
+    const bidding: BlindingPrivateState = {
+      ...qualified.privateState,
+      bids: { [ROUND.toString()]: { amount: 500n, salt: randomKey() } }
+    };
+    return { setup, qualified, proven, bidding };
+  }
+
+  it("lets only the procurement authority pause and unpause", () => {
+    const { sim, authority, officers } = setUp();
+
+    expect(() => sim.call(officers[0], "pause")).toThrow(
+      "Not authorised: caller is not the procurement authority"
+    );
+    sim.call(authority, "pause");
+    expect(sim.getLedger().paused).toBe(true);
+    expect(() => sim.call(officers[0], "unpause")).toThrow(
+      "Not authorised: caller is not the procurement authority"
+    );
+    sim.call(authority, "unpause");
+    expect(sim.getLedger().paused).toBe(false);
+  });
+
+  it("stops state-changing circuits while paused", () => {
+    const { setup, qualified, proven, bidding } = setUpPaused();
+    const { sim, authority, officers } = setup;
+
+    expect(() =>
+      sim.call(
+        officers[0],
+        "proposeQualification",
+        ROUND,
+        proven.ref,
+        EXPIRES_AT,
+        proven.memberKey,
+        NO_EVIDENCE
+      )
+    ).toThrow("Contract is paused");
+    expect(() =>
+      sim.call(proven.privateState, "verifyQualification", ROUND, NOW - 60n)
+    ).toThrow("Contract is paused");
+    expect(() => sim.call(bidding, "commitBid", ROUND)).toThrow(
+      "Contract is paused"
+    );
+    expect(() =>
+      sim.call(authority, "revokeQualification", ROUND, qualified.ref)
+    ).toThrow("Contract is paused");
+  });
+
+  it("refuses to pause twice or unpause a running contract", () => {
+    const { sim, authority } = setUp();
+
+    expect(() => sim.call(authority, "unpause")).toThrow(
+      "Contract is not paused"
+    );
+    sim.call(authority, "pause");
+    expect(() => sim.call(authority, "pause")).toThrow("Contract is paused");
+  });
+
+  it("runs every circuit again after unpause", () => {
+    const { setup, qualified, proven, bidding } = setUpPaused();
+    const { sim, authority, officers } = setup;
+
+    sim.call(authority, "unpause");
+
+    expect(
+      sim.call(proven.privateState, "verifyQualification", ROUND, NOW - 60n)
+    ).toEqual([true]);
+    sim.call(
+      officers[0],
+      "proposeQualification",
+      ROUND,
+      proven.ref,
+      EXPIRES_AT,
+      proven.memberKey,
+      NO_EVIDENCE
+    );
+    sim.call(bidding, "commitBid", ROUND);
+    sim.call(authority, "revokeQualification", ROUND, qualified.ref);
+    const state = sim.getLedger();
+    expect(state.proposalCount).toBe(2n);
+    expect(state.bidCommitments.lookup(ROUND).size()).toBe(1n);
+    expect(state.vendors.lookup(ROUND).lookup(qualified.ref).revoked).toBe(
+      true
+    );
+  });
+});
+
+describe("Evidence hashes", () => {
+  const EVIDENCE = label("evidence-bundle-v1");
+
+  // Proposes the proven vendor's qualification with the evidence hash and approves it
+  function recordWithEvidence(
+    setup: Setup,
+    vendor: Vendor,
+    evidenceHash: Uint8Array
+  ): bigint {
+    const [proposalId] = setup.sim.call(
+      setup.officers[0],
+      "proposeQualification",
+      ROUND,
+      vendor.ref,
+      EXPIRES_AT,
+      vendor.memberKey,
+      evidenceHash
+    );
+    setup.sim.call(setup.officers[1], "approveQualification", proposalId);
+    return proposalId;
+  }
+
+  it("stores the reviewed evidence hash with the proposal and the qualification", () => {
+    const setup = setUp();
+    const vendor = makeVendor(7n, [80n, 70n, 90n, 60n]);
+    proveVendor(setup, vendor);
+
+    const proposalId = recordWithEvidence(setup, vendor, EVIDENCE);
+
+    const state = setup.sim.getLedger();
+    expect(state.proposals.lookup(proposalId).evidenceHash).toEqual(EVIDENCE);
+    expect(state.vendors.lookup(ROUND).lookup(vendor.ref).evidenceHash).toEqual(
+      EVIDENCE
+    );
+  });
+
+  it("keeps the evidence hash on a revoked qualification", () => {
+    const setup = setUp();
+    const vendor = makeVendor(7n, [80n, 70n, 90n, 60n]);
+    proveVendor(setup, vendor);
+    recordWithEvidence(setup, vendor, EVIDENCE);
+
+    setup.sim.call(setup.authority, "revokeQualification", ROUND, vendor.ref);
+
+    expect(
+      setup.sim.getLedger().vendors.lookup(ROUND).lookup(vendor.ref)
+        .evidenceHash
+    ).toEqual(EVIDENCE);
+  });
+
+  it("replaces the evidence hash only through a new approved proposal", () => {
+    const setup = setUp();
+    const { sim, officers } = setup;
+    const vendor = makeVendor(7n, [80n, 70n, 90n, 60n]);
+    proveVendor(setup, vendor);
+    recordWithEvidence(setup, vendor, EVIDENCE);
+
+    // The receipts were consumed by the first record, so new evidence needs new proofs
+    expect(() =>
+      sim.call(
+        officers[0],
+        "proposeQualification",
+        ROUND,
+        vendor.ref,
+        EXPIRES_AT,
+        vendor.memberKey,
+        label("evidence-bundle-v2")
+      )
+    ).toThrow("Vendor has no fresh qualification proof in this round");
+    sim.call(vendor.privateState, "verifyQualification", ROUND, NOW - 60n);
+    sim.call(vendor.privateState, "checkCompliance", PROFILE, ROUND, NOW - 60n);
+    recordWithEvidence(setup, vendor, label("evidence-bundle-v2"));
+
+    expect(
+      sim.getLedger().vendors.lookup(ROUND).lookup(vendor.ref).evidenceHash
+    ).toEqual(label("evidence-bundle-v2"));
+  });
+});
@@ -0,0 +1,198 @@
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { afterAll, afterEach, describe, expect, it, vi } from "vitest";
+
+import {
+  UsageError,
+  callerPrivateState,
+  parseBytes32,
+  parseCliArgs,
+  parseExpiry,
+  parseTimeout,
+  readAttestation,
+  readQualification,
+  requireInt
+} from "../cli-args.js";
+
+const HEX = "ab".repeat(32);
+const BYTES = new Uint8Array(32).fill(0xab);
+
+const QUALIFICATION = {
+  vendorId: "42",
+  referenceSalt: `0x${HEX}`,
+  metrics: [80, "75", 90, 60],
+  salt: "123456789"
+};
+
+const ATTESTATION = {
+  criterion: "7",
+  attestation: {
+    certifier: { x: "1", y: "2" },
+    validUntil: "1798761600",
+    nonceCommitment: { x: "3", y: "4" },
+    signature: "5"
+  }
+};
+
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), "cli-args-test-"));
+
+function writeJson(name: string, value: unknown): string {
+  const file = path.join(dir, name);
+  fs.writeFileSync(file, JSON.stringify(value));
+  return file;
+}
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+afterAll(() => {
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+describe("parseCliArgs", () => {
+  it("returns the command and its flags", () => {
+    const { command, values } = parseCliArgs([
+      "check-compliance",
+      "--profile",
+      "1",
+      "--round",
+      "2",
+      "--attestation",
+      "a.json",
+      "--attestation",
+      "b.json",
+      "--json"
+    ]);
+
+    expect(command).toBe("check-compliance");
+    expect(values).toMatchObject({
+      profile: "1",
+      round: "2",
+      attestation: ["a.json", "b.json"],
+      json: true
+    });
+  });
+
+  it("rejects an unknown command with the usage line", () => {
+    expect(() => parseCliArgs(["deploy"])).toThrow(UsageError);
+    expect(() => parseCliArgs([])).toThrow(
+      "Usage: cli <record-qualification|approve-qualification|"
+    );
+  });
+
+  it("rejects an unknown flag", () => {
+    expect(() =>
+      parseCliArgs(["is-vendor-qualified", "--vendor", "1"])
+    ).toThrow(
+      expect.objectContaining({ code: "ERR_PARSE_ARGS_UNKNOWN_OPTION" })
+    );
+  });
+});
+
+describe("flag values", () => {
+  it("requireInt reads a non-negative integer", () => {
+    expect(requireInt("12", "--round")).toBe(12n);
+    for (const value of [undefined, "", "-1", "1.5", "0x10"]) {
+      expect(() => requireInt(value, "--round")).toThrow(
+        "--round must be a non-negative integer"
+      );
+    }
+  });
+
+  it("parseBytes32 reads 32 bytes of hex, with or without 0x", () => {
+    expect(parseBytes32(HEX, "--vendor-ref")).toEqual(BYTES);
+    expect(parseBytes32(` 0x${HEX.toUpperCase()}\n`, "--vendor-ref")).toEqual(
+      BYTES
+    );
+    for (const value of [undefined, "ab", `${HEX}ab`, "zz".repeat(32)]) {
+      expect(() => parseBytes32(value, "--vendor-ref")).toThrow(
+        "--vendor-ref must be 32 bytes of hex"
+      );
+    }
+  });
+
+  it("parseExpiry reads a date as seconds since the epoch", () => {
+    expect(parseExpiry("2027-01-01")).toBe(1798761600n);
+    expect(parseExpiry("2027-01-01T00:00:30Z")).toBe(1798761630n);
+    expect(() => parseExpiry(undefined)).toThrow(
+      "--expires must be a date, e.g. 2027-01-01"
+    );
+    expect(() => parseExpiry("next year")).toThrow(UsageError);
+  });
+
+  it("parseTimeout defaults to no timeout", () => {
+    expect(parseTimeout(undefined)).toBe(0);
+    expect(parseTimeout("90")).toBe(90);
+    expect(() => parseTimeout("-5")).toThrow(
+      '--timeout must be a number of seconds, got "-5"'
+    );
+    expect(() => parseTimeout("soon")).toThrow(UsageError);
+  });
+});
+
+describe("private state files", () => {
+  it("readQualification converts the record to circuit values", () => {
+    expect(readQualification(writeJson("vendor.json", QUALIFICATION))).toEqual({
+      vendorId: 42n,
+      referenceSalt: BYTES,
+      metrics: [80n, 75n, 90n, 60n],
+      salt: 123456789n
+    });
+  });
+
+  it("readQualification needs all 4 sub-metric scores", () => {
+    const file = writeJson("short.json", { ...QUALIFICATION, metrics: [1, 2] });
+
+    expect(() => readQualification(file)).toThrow(
+      `${file}: metrics must list the 4 sub-metric scores`
+    );
+  });
+
+  it("readAttestation returns the criterion and the attestation", () => {
+    expect(readAttestation(writeJson("att.json", ATTESTATION))).toEqual([
+      "7",
+      {
+        certifier: { x: 1n, y: 2n },
+        validUntil: 1798761600n,
+        nonceCommitment: { x: 3n, y: 4n },
+        signature: 5n
+      }
+    ]);
+  });
+});
+
+describe("callerPrivateState", () => {
+  it("is undefined when nothing is given", () => {
+    vi.stubEnv("CALLER_SECRET_KEY", "");
+
+    expect(callerPrivateState({})).toBeUndefined();
+  });
+
+  it("holds only the secret key from CALLER_SECRET_KEY", () => {
+    vi.stubEnv("CALLER_SECRET_KEY", HEX);
+
+    expect(callerPrivateState({})).toEqual({
+      secretKey: BYTES,
+      qualification: undefined,
+      attestations: undefined
+    });
+  });
+
+  it("reads the record and keys the attestations by criterion", () => {
+    vi.stubEnv("CALLER_SECRET_KEY", "");
+    const qualification = writeJson("vendor.json", QUALIFICATION);
+    const first = writeJson("first.json", ATTESTATION);
+    const second = writeJson("second.json", { ...ATTESTATION, criterion: "9" });
+
+    const state = callerPrivateState({
+      qualification,
+      attestation: [first, second]
+    });
+
+    expect(state?.secretKey).toBeUndefined();
+    expect(state?.qualification?.vendorId).toBe(42n);
+    expect(Object.keys(state?.attestations ?? {})).toEqual(["7", "9"]);
+  });
+});
@@ -0,0 +1,91 @@
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import {
+  afterAll,
+  afterEach,
+  beforeAll,
+  describe,
+  expect,
+  it,
+  vi
+} from "vitest";
+
+const SEED = "ab".repeat(32);
+const PASSPHRASE = "correct horse battery";
+
+// keystore.ts reads KEYSTORE_DIR when it is loaded, so it is imported once the
+// temporary directory is set
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), "keystore-test-"));
+let keystore: typeof import("../keystore.js");
+
+beforeAll(async () => {
+  vi.stubEnv("KEYSTORE_DIR", dir);
+  keystore = await import("../keystore.js");
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+afterAll(() => {
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+describe("Keystore", () => {
+  it("decrypts a saved wallet with its passphrase and never writes the seed in plaintext", () => {
+    keystore.saveWallet("roundtrip", SEED, PASSPHRASE);
+
+    expect(keystore.hasWallet("roundtrip")).toBe(true);
+    expect(keystore.loadWallet("roundtrip", PASSPHRASE)).toBe(SEED);
+    expect(
+      fs.readFileSync(keystore.keystorePath("roundtrip"), "utf-8")
+    ).not.toContain(SEED);
+  });
+
+  it("rejects a wrong passphrase", () => {
+    keystore.saveWallet("wrong-passphrase", SEED, PASSPHRASE);
+
+    expect(() =>
+      keystore.loadWallet("wrong-passphrase", "not the passphrase")
+    ).toThrow('Wrong passphrase for wallet "wrong-passphrase"');
+  });
+
+  it("keeps wallet files readable by their owner only", () => {
+    keystore.saveWallet("permissions", SEED, PASSPHRASE);
+
+    const { mode } = fs.statSync(keystore.keystorePath("permissions"));
+    expect(mode & 0o777).toBe(0o600);
+  });
+
+  it("reports a wallet that was never saved", () => {
+    expect(keystore.hasWallet("missing")).toBe(false);
+    expect(() => keystore.loadWallet("missing", PASSPHRASE)).toThrow(
+      'No wallet "missing"'
+    );
+  });
+
+  it("refuses wallet names that would leave the keystore directory", () => {
+    expect(() => keystore.keystorePath("../deployer")).toThrow(
+      'Invalid wallet name "../deployer"'
+    );
+  });
+
+  it("reads the passphrase from KEYSTORE_PASSPHRASE", async () => {
+    vi.stubEnv("KEYSTORE_PASSPHRASE", PASSPHRASE);
+
+    await expect(keystore.readPassphrase({ interactive: false })).resolves.toBe(
+      PASSPHRASE
+    );
+  });
+
+  it("requires KEYSTORE_PASSPHRASE when prompts are disabled", async () => {
+    vi.stubEnv("KEYSTORE_PASSPHRASE", "");
+
+    await expect(
+      keystore.readPassphrase({ interactive: false })
+    ).rejects.toThrow(
+      "KEYSTORE_PASSPHRASE must be set when prompts are disabled"
+    );
+  });
+});
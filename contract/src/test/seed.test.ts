@@ -0,0 +1,187 @@
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import {
+  afterAll,
+  afterEach,
+  beforeAll,
+  beforeEach,
+  describe,
+  expect,
+  it,
+  vi
+} from "vitest";
+
+const HEX_SEED = "ab".repeat(32);
+const OTHER_SEED = "cd".repeat(32);
+const PASSPHRASE = "correct horse battery";
+// BIP-39 test vector: the all-zero entropy mnemonic and its seed (empty passphrase)
+const MNEMONIC =
+  "abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon about";
+const MNEMONIC_SEED =
+  "5eb00bbddcf069084889a8ab9155568165f5c453ccb85e70811aaed6f6da5fc19a5ac40b389cd370d086206dec8aa6c43daea6690f20ad3d8d48b2d2ce9e38e4";
+
+// seed.ts loads keystore.ts, which reads KEYSTORE_DIR when it is loaded, so both are
+// imported once the temporary directory is set
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), "seed-test-"));
+let seed: typeof import("../seed.js");
+let keystore: typeof import("../keystore.js");
+
+beforeAll(async () => {
+  vi.stubEnv("KEYSTORE_DIR", dir);
+  seed = await import("../seed.js");
+  keystore = await import("../keystore.js");
+});
+
+beforeEach(() => {
+  vi.stubEnv("KEYSTORE_PASSPHRASE", "");
+  vi.spyOn(console, "log").mockImplementation(() => undefined);
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+  vi.restoreAllMocks();
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+afterAll(() => {
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+describe("parseSeed", () => {
+  it("normalises a hex seed", () => {
+    expect(seed.parseSeed(` 0x${"AB".repeat(32)}\n`)).toBe(HEX_SEED);
+  });
+
+  it("derives the seed of a BIP-39 mnemonic, whatever its spacing and case", () => {
+    expect(seed.parseSeed(MNEMONIC)).toBe(MNEMONIC_SEED);
+    expect(
+      seed.parseSeed(`  ${MNEMONIC.toUpperCase().split(" ").join("\n")} `)
+    ).toBe(MNEMONIC_SEED);
+  });
+
+  it("rejects a mnemonic with a wrong checksum", () => {
+    expect(() => seed.parseSeed("abandon ".repeat(12))).toThrow(
+      "Invalid BIP-39 mnemonic"
+    );
+  });
+
+  it("rejects text that is neither hex nor a mnemonic", () => {
+    expect(() => seed.parseSeed("abcd")).toThrow(
+      "Seed must be hex (16 to 64 bytes) or a BIP-39 mnemonic"
+    );
+  });
+});
+
+describe("readSeedFlags", () => {
+  it("returns undefined without a seed flag", () => {
+    expect(seed.readSeedFlags({})).toBeUndefined();
+  });
+
+  it("reads the seed from the variable --seed-env names", () => {
+    vi.stubEnv("DEPLOY_SEED", HEX_SEED);
+
+    expect(seed.readSeedFlags({ "seed-env": "DEPLOY_SEED" })).toBe(HEX_SEED);
+  });
+
+  it("fails when the --seed-env variable is not set", () => {
+    vi.stubEnv("DEPLOY_SEED", "");
+
+    expect(() => seed.readSeedFlags({ "seed-env": "DEPLOY_SEED" })).toThrow(
+      "Environment variable DEPLOY_SEED is not set"
+    );
+  });
+
+  it("reads the seed from the --seed-file file", () => {
+    fs.mkdirSync(dir, { recursive: true });
+    const file = path.join(dir, "seed.txt");
+    fs.writeFileSync(file, `${MNEMONIC}\n`);
+
+    expect(seed.readSeedFlags({ "seed-file": file })).toBe(MNEMONIC_SEED);
+  });
+
+  it("refuses both flags at once", () => {
+    expect(() =>
+      seed.readSeedFlags({ "seed-env": "DEPLOY_SEED", "seed-file": "seed.txt" })
+    ).toThrow("Pass only one of --seed-env and --seed-file");
+  });
+});
+
+describe("resolveSeed", () => {
+  it("stores a flag seed under the default wallet when a passphrase is set", async () => {
+    vi.stubEnv("KEYSTORE_PASSPHRASE", PASSPHRASE);
+
+    await expect(
+      seed.resolveSeed({ seed: HEX_SEED, yes: true })
+    ).resolves.toEqual({ seed: HEX_SEED, wallet: seed.DEFAULT_WALLET });
+    expect(keystore.loadWallet(seed.DEFAULT_WALLET, PASSPHRASE)).toBe(HEX_SEED);
+  });
+
+  it("uses the stored wallet when no seed flag is given", async () => {
+    keystore.saveWallet(seed.DEFAULT_WALLET, HEX_SEED, PASSPHRASE);
+    vi.stubEnv("KEYSTORE_PASSPHRASE", PASSPHRASE);
+
+    await expect(seed.resolveSeed({ yes: true })).resolves.toEqual({
+      seed: HEX_SEED,
+      wallet: seed.DEFAULT_WALLET
+    });
+  });
+
+  it("uses a flag seed without storing it when no passphrase is at hand", async () => {
+    await expect(
+      seed.resolveSeed({ seed: HEX_SEED, yes: true })
+    ).resolves.toEqual({ seed: HEX_SEED });
+    expect(keystore.hasWallet(seed.DEFAULT_WALLET)).toBe(false);
+  });
+
+  it("refuses to generate a seed it cannot store", async () => {
+    await expect(seed.resolveSeed({ yes: true })).rejects.toThrow(
+      "A generated seed must be stored"
+    );
+    expect(keystore.hasWallet(seed.DEFAULT_WALLET)).toBe(false);
+  });
+
+  it("stores a generated seed and prints only its first bytes", async () => {
+    vi.stubEnv("KEYSTORE_PASSPHRASE", PASSPHRASE);
+
+    const resolved = await seed.resolveSeed({ yes: true });
+
+    expect(resolved.seed).toMatch(/^[0-9a-f]{64}$/);
+    expect(keystore.loadWallet(seed.DEFAULT_WALLET, PASSPHRASE)).toBe(
+      resolved.seed
+    );
+    const printed = vi.mocked(console.log).mock.calls.flat().join("\n");
+    expect(printed).toContain(`${resolved.seed.slice(0, 8)}...`);
+    expect(printed).not.toContain(resolved.seed);
+  });
+
+  it("leaves the default wallet alone when a flag seed is given", async () => {
+    keystore.saveWallet(seed.DEFAULT_WALLET, OTHER_SEED, PASSPHRASE);
+    vi.stubEnv("KEYSTORE_PASSPHRASE", PASSPHRASE);
+
+    await expect(
+      seed.resolveSeed({ seed: HEX_SEED, yes: true })
+    ).resolves.toEqual({ seed: HEX_SEED });
+    expect(keystore.loadWallet(seed.DEFAULT_WALLET, PASSPHRASE)).toBe(
+      OTHER_SEED
+    );
+  });
+
+  it("refuses a flag seed that differs from the --wallet it names", async () => {
+    keystore.saveWallet("treasury", OTHER_SEED, PASSPHRASE);
+    vi.stubEnv("KEYSTORE_PASSPHRASE", PASSPHRASE);
+
+    await expect(
+      seed.resolveSeed({ seed: HEX_SEED, wallet: "treasury", yes: true })
+    ).rejects.toThrow('Keystore wallet "treasury" holds a different seed');
+  });
+
+  it("accepts a flag seed that matches the --wallet it names", async () => {
+    keystore.saveWallet("treasury", HEX_SEED, PASSPHRASE);
+    vi.stubEnv("KEYSTORE_PASSPHRASE", PASSPHRASE);
+
+    await expect(
+      seed.resolveSeed({ seed: HEX_SEED, wallet: "treasury", yes: true })
+    ).resolves.toEqual({ seed: HEX_SEED, wallet: "treasury" });
+  });
+});
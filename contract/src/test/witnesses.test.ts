@@ -0,0 +1,85 @@
+import { describe, expect, it } from "vitest";
+
+import { decodeBlindingPrivateState } from "../witnesses.js";
+
+const HEX = "ab".repeat(32);
+const BYTES = new Uint8Array(32).fill(0xab);
+
+const ATTESTATION = {
+  certifier: { x: "1", y: "0x2" },
+  validUntil: 1798761600,
+  nonceCommitment: { x: "3", y: "4" },
+  signature: "5"
+};
+
+describe("decodeBlindingPrivateState", () => {
+  it("converts hex to bytes and integers to bigints", () => {
+    expect(
+      decodeBlindingPrivateState({
+        secretKey: HEX,
+        qualification: {
+          vendorId: 42,
+          referenceSalt: `0x${HEX}`,
+          metrics: ["80", 75, 90, 60],
+          salt: "123456789"
+        },
+        attestations: { "7": ATTESTATION },
+        membershipSecret: HEX,
+        membershipExpiries: { "1": "1798761600" },
+        bids: { "1": { amount: "5000", salt: HEX } }
+      })
+    ).toEqual({
+      secretKey: BYTES,
+      qualification: {
+        vendorId: 42n,
+        referenceSalt: BYTES,
+        metrics: [80n, 75n, 90n, 60n],
+        salt: 123456789n
+      },
+      attestations: {
+        "7": {
+          certifier: { x: 1n, y: 2n },
+          validUntil: 1798761600n,
+          nonceCommitment: { x: 3n, y: 4n },
+          signature: 5n
+        }
+      },
+      membershipSecret: BYTES,
+      membershipExpiries: { "1": 1798761600n },
+      bids: { "1": { amount: 5000n, salt: BYTES } }
+    });
+  });
+
+  it("leaves out the fields the JSON leaves out", () => {
+    expect(decodeBlindingPrivateState({ secretKey: HEX })).toEqual({
+      secretKey: BYTES
+    });
+    expect(decodeBlindingPrivateState({})).toEqual({});
+  });
+
+  it("names the field that cannot be decoded", () => {
+    expect(() => decodeBlindingPrivateState({ secretKey: "ab" })).toThrow(
+      "secretKey must be 32 bytes of hex"
+    );
+    expect(() =>
+      decodeBlindingPrivateState({ bids: { "1": { amount: -1, salt: HEX } } })
+    ).toThrow("bids.1.amount must be a non-negative integer");
+    expect(() =>
+      decodeBlindingPrivateState({ membershipExpiries: { next: "1" } })
+    ).toThrow('membershipExpiries key "next" must be a non-negative integer');
+    expect(() =>
+      decodeBlindingPrivateState({
+        attestations: { "7": { ...ATTESTATION, certifier: "0x01" } }
+      })
+    ).toThrow("attestations.7.certifier must be an object");
+  });
+
+  it("rejects unknown fields and non-objects", () => {
+    expect(() => decodeBlindingPrivateState({ secret: HEX })).toThrow(
+      'Unknown private state field "secret"'
+    );
+    expect(() => decodeBlindingPrivateState([HEX])).toThrow(
+      "Expected a JSON object"
+    );
+  });
+});
@@ -0,0 +1,667 @@
+/**
+ * Wallet and provider helpers shared by the Node scripts that join the network
+ * (deploy, maintain, cli).
+ *
+ * Builds a wallet from a hex seed, waits for sync (and, to pay fees, funds + dust), and
+ * creates the midnight-js providers and compiled blinding contract that deployContract
+ * and findDeployedContract need.
+ */
+
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { fileURLToPath, pathToFileURL } from "node:url";
+import * as Rx from "rxjs";
+import { WebSocket } from "ws";
+import pino from "pino";
+import pinoPretty from "pino-pretty";
+
+import { Contract } from "./managed/blinding/contract/index.js";
+import {
+  type BlindingPrivateState,
+  BlindingPrivateStateId,
+  witnesses
+} from "./witnesses.js";
+import {
+  CompiledContract,
+  type Contract as CompactContract,
+  type Witnesses
+} from "@midnight-ntwrk/compact-js";
+import type {
+  ConstructorContext,
+  ConstructorResult
+} from "@midnight-ntwrk/compact-runtime";
+import { httpClientProofProvider } from "@midnight-ntwrk/midnight-js-http-client-proof-provider";
+import { indexerPublicDataProvider } from "@midnight-ntwrk/midnight-js-indexer-public-data-provider";
+import { levelPrivateStateProvider } from "@midnight-ntwrk/midnight-js-level-private-state-provider";
+import { NodeZkConfigProvider } from "@midnight-ntwrk/midnight-js-node-zk-config-provider";
+import {
+  getNetworkId,
+  setNetworkId
+} from "@midnight-ntwrk/midnight-js-network-id";
+import type {
+  MidnightProvider,
+  PrivateStateProvider,
+  WalletProvider
+} from "@midnight-ntwrk/midnight-js-types";
+import type { ImpureCircuitId } from "@midnight-ntwrk/compact-js";
+import * as ledger from "@midnight-ntwrk/ledger-v7";
+
+import {
+  createKeystore,
+  InMemoryTransactionHistoryStorage,
+  type UnshieldedKeystore,
+  UnshieldedWallet,
+  PublicKey
+} from "@midnight-ntwrk/wallet-sdk-unshielded-wallet";
+import { ShieldedWallet } from "@midnight-ntwrk/wallet-sdk-shielded";
+import {
+  type DefaultV1Configuration,
+  DustWallet,
+  type SyncService
+} from "@midnight-ntwrk/wallet-sdk-dust-wallet";
+import {
+  type FacadeState,
+  WalletFacade
+} from "@midnight-ntwrk/wallet-sdk-facade";
+import { HDWallet, Roles } from "@midnight-ntwrk/wallet-sdk-hd";
+
+// @ts-expect-error: needed for apollo WS transport
+globalThis.WebSocket = WebSocket;
+
+// ---------------------------------------------------------------------------
+// Paths
+// ---------------------------------------------------------------------------
+const currentDir = path.dirname(fileURLToPath(import.meta.url));
+// ZK assets (keys, zkir) live in src/managed, not dist — tsc doesn't copy them
+export const managedPath = (managedDir: string) =>
+  path.resolve(currentDir, "..", "src", "managed", managedDir);
+export const zkConfigPath = managedPath("blinding");
+export const deploymentPath = path.resolve(currentDir, "..", "deployment.json");
+// Network profiles, shared with the Vite app; kept inside its root so Vite can import them
+export const networksPath = path.resolve(
+  currentDir,
+  "..",
+  "..",
+  "frontend-vite",
+  "networks.json"
+);
+
+// ---------------------------------------------------------------------------
+// Network profile – selected by name from networks.json
+// Pass --network <name> or set MIDNIGHT_NETWORK; targets the local undeployed network by default
+// ---------------------------------------------------------------------------
+export interface NetworkProfile {
+  networkId: string;
+  indexer: string;
+  indexerWS: string;
+  node: string;
+  proofServer: string;
+  faucet?: string;
+  // Validity window of balanced transactions
+  ttlMinutes: number;
+  // Dust wallet cost parameters; the overhead is a decimal string as JSON has no bigint
+  fees: { additionalFeeOverhead: string; feeBlocksMargin: number };
+}
+
+export type SelectedNetwork = NetworkProfile & { name: string };
+
+let selectedNetwork: SelectedNetwork | undefined;
+
+export function loadNetworkProfiles(): Record<string, NetworkProfile> {
+  return JSON.parse(fs.readFileSync(networksPath, "utf-8")) as Record<
+    string,
+    NetworkProfile
+  >;
+}
+
+// Selects the profile every wallet and provider helper below uses, and sets the network id
+export function selectNetwork(
+  name = process.env.MIDNIGHT_NETWORK ?? "undeployed"
+): SelectedNetwork {
+  const profiles = loadNetworkProfiles();
+  const profile = profiles[name];
+  if (!profile) {
+    throw new Error(
+      `Unknown network profile "${name}"; expected one of ${Object.keys(profiles).join(", ")}`
+    );
+  }
+  selectedNetwork = { ...profile, name };
+  setNetworkId(profile.networkId);
+  return selectedNetwork;
+}
+
+export const activeNetwork = (): SelectedNetwork =>
+  selectedNetwork ?? selectNetwork();
+
+// ---------------------------------------------------------------------------
+// Logger
+// ---------------------------------------------------------------------------
+export const logger = pino(
+  { level: process.env.DEBUG_LEVEL ?? "info" },
+  pinoPretty({
+    colorize: true,
+    sync: true,
+    translateTime: true,
+    ignore: "pid,time",
+    singleLine: false
+  })
+);
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+export type BlindingCircuits = ImpureCircuitId<Contract<BlindingPrivateState>>;
+
+// ---------------------------------------------------------------------------
+// Helpers (adapted from counter-cli/src/api.ts)
+// ---------------------------------------------------------------------------
+const frames = ["⠋", "⠙", "⠹", "⠸", "⠼", "⠴", "⠦", "⠧", "⠇", "⠏"];
+
+export async function withStatus<T>(
+  message: string,
+  fn: () => Promise<T>
+): Promise<T> {
+  let i = 0;
+  const interval = setInterval(() => {
+    process.stdout.write(`\r  ${frames[i++ % frames.length]} ${message}`);
+  }, 80);
+  try {
+    const result = await fn();
+    clearInterval(interval);
+    process.stdout.write(`\r  ✓ ${message}\n`);
+    return result;
+  } catch (e) {
+    clearInterval(interval);
+    process.stdout.write(`\r  ✗ ${message}\n`);
+    throw e;
+  }
+}
+
+function deriveKeysFromSeed(seed: string) {
+  const hdWallet = HDWallet.fromSeed(Buffer.from(seed, "hex"));
+  if (hdWallet.type !== "seedOk")
+    throw new Error("Failed to initialize HDWallet from seed");
+
+  const result = hdWallet.hdWallet
+    .selectAccount(0)
+    .selectRoles([Roles.Zswap, Roles.NightExternal, Roles.Dust])
+    .deriveKeysAt(0);
+
+  if (result.type !== "keysDerived") throw new Error("Failed to derive keys");
+  hdWallet.hdWallet.clear();
+  return result.keys;
+}
+
+export const formatBalance = (b: bigint) => b.toLocaleString();
+
+// ---------------------------------------------------------------------------
+// Waits (sync, funds, dust) – unbounded unless a timeout is given
+// ---------------------------------------------------------------------------
+export type WalletWait = "sync" | "funds" | "dust";
+
+// Process exit codes of the scripts, so callers can tell a timeout from other failures
+export const EXIT_CODES = {
+  failed: 1,
+  usage: 2,
+  sync: 3,
+  funds: 4,
+  dust: 5
+} as const;
+
+export class WalletTimeoutError extends Error {
+  constructor(
+    readonly wait: WalletWait,
+    readonly timeoutMs: number
+  ) {
+    super(
+      `Timed out after ${Math.round(timeoutMs / 1000)}s waiting for ${wait}`
+    );
+    this.name = "WalletTimeoutError";
+  }
+}
+
+function waitFor<T>(
+  source: Rx.Observable<T>,
+  wait: WalletWait,
+  timeoutMs?: number
+): Promise<T> {
+  if (!timeoutMs) {
+    return Rx.firstValueFrom(source);
+  }
+  return Rx.firstValueFrom(
+    source.pipe(
+      Rx.timeout({
+        first: timeoutMs,
+        with: () => Rx.throwError(() => new WalletTimeoutError(wait, timeoutMs))
+      })
+    )
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Wallet build
+// ---------------------------------------------------------------------------
+export async function buildWallet(seed: string) {
+  const { indexer, indexerWS, node, proofServer, fees } = activeNetwork();
+  const keys = deriveKeysFromSeed(seed);
+  const shieldedSecretKeys = ledger.ZswapSecretKeys.fromSeed(keys[Roles.Zswap]);
+  const dustSecretKey = ledger.DustSecretKey.fromSeed(keys[Roles.Dust]);
+  const unshieldedKeystore = createKeystore(
+    keys[Roles.NightExternal],
+    getNetworkId()
+  );
+
+  const shieldedWallet = ShieldedWallet({
+    networkId: getNetworkId(),
+    indexerClientConnection: {
+      indexerHttpUrl: indexer,
+      indexerWsUrl: indexerWS
+    },
+    provingServerUrl: new URL(proofServer),
+    relayURL: new URL(node.replace(/^http/, "ws"))
+  }).startWithSecretKeys(shieldedSecretKeys);
+
+  const unshieldedWallet = UnshieldedWallet({
+    networkId: getNetworkId(),
+    indexerClientConnection: {
+      indexerHttpUrl: indexer,
+      indexerWsUrl: indexerWS
+    },
+    txHistoryStorage: new InMemoryTransactionHistoryStorage()
+  }).startWithPublicKey(PublicKey.fromKeyStore(unshieldedKeystore));
+
+  // DustWallet's DefaultV1Configuration type is narrower than what withDefaults() needs at runtime
+  const dustConfiguration: DefaultV1Configuration &
+    SyncService.DefaultSyncConfiguration & {
+      provingServerUrl: URL;
+      relayURL: URL;
+    } = {
+    networkId: getNetworkId(),
+    costParameters: {
+      additionalFeeOverhead: BigInt(fees.additionalFeeOverhead),
+      feeBlocksMargin: fees.feeBlocksMargin
+    },
+    indexerClientConnection: {
+      indexerHttpUrl: indexer,
+      indexerWsUrl: indexerWS
+    },
+    provingServerUrl: new URL(proofServer),
+    relayURL: new URL(node.replace(/^http/, "ws"))
+  };
+  const dustWallet = DustWallet(dustConfiguration).startWithSecretKey(
+    dustSecretKey,
+    ledger.LedgerParameters.initialParameters().dust
+  );
+
+  const wallet = new WalletFacade(shieldedWallet, unshieldedWallet, dustWallet);
+  await wallet.start(shieldedSecretKeys, dustSecretKey);
+
+  return { wallet, shieldedSecretKeys, dustSecretKey, unshieldedKeystore };
+}
+
+// ---------------------------------------------------------------------------
+// Sign transaction intents (workaround from counter-cli)
+// ---------------------------------------------------------------------------
+function signTransactionIntents(
+  tx: { intents?: Map<number, { serialize(): Uint8Array }> },
+  signFn: (payload: Uint8Array) => ledger.Signature,
+  proofMarker: "proof" | "pre-proof"
+): void {
+  if (!tx.intents || tx.intents.size === 0) return;
+  for (const segment of tx.intents.keys()) {
+    const intent = tx.intents.get(segment);
+    if (!intent) continue;
+    const cloned = ledger.Intent.deserialize<
+      ledger.SignatureEnabled,
+      ledger.Proofish,
+      ledger.PreBinding
+    >("signature", proofMarker, "pre-binding", intent.serialize());
+    const sigData = cloned.signatureData(segment);
+    const signature = signFn(sigData);
+    if (cloned.fallibleUnshieldedOffer) {
+      const sigs = cloned.fallibleUnshieldedOffer.inputs.map(
+        (_: ledger.UtxoSpend, i: number) =>
+          cloned.fallibleUnshieldedOffer!.signatures.at(i) ?? signature
+      );
+      cloned.fallibleUnshieldedOffer =
+        cloned.fallibleUnshieldedOffer.addSignatures(sigs);
+    }
+    if (cloned.guaranteedUnshieldedOffer) {
+      const sigs = cloned.guaranteedUnshieldedOffer.inputs.map(
+        (_: ledger.UtxoSpend, i: number) =>
+          cloned.guaranteedUnshieldedOffer!.signatures.at(i) ?? signature
+      );
+      cloned.guaranteedUnshieldedOffer =
+        cloned.guaranteedUnshieldedOffer.addSignatures(sigs);
+    }
+    tx.intents.set(segment, cloned);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Provider creation
+// ---------------------------------------------------------------------------
+export function createWalletAndMidnightProvider(
+  wallet: WalletFacade,
+  shieldedSecretKeys: ledger.ZswapSecretKeys,
+  dustSecretKey: ledger.DustSecretKey,
+  unshieldedKeystore: UnshieldedKeystore,
+  syncedState: FacadeState
+): WalletProvider & MidnightProvider {
+  const { ttlMinutes } = activeNetwork();
+  return {
+    getCoinPublicKey: () => syncedState.shielded.coinPublicKey.toHexString(),
+    getEncryptionPublicKey: () =>
+      syncedState.shielded.encryptionPublicKey.toHexString(),
+    async balanceTx(tx, ttl) {
+      const recipe = await wallet.balanceUnboundTransaction(
+        tx,
+        { shieldedSecretKeys, dustSecretKey },
+        { ttl: ttl ?? new Date(Date.now() + ttlMinutes * 60 * 1000) }
+      );
+      const signFn = (payload: Uint8Array) =>
+        unshieldedKeystore.signData(payload);
+      signTransactionIntents(recipe.baseTransaction, signFn, "proof");
+      if (recipe.balancingTransaction) {
+        signTransactionIntents(
+          recipe.balancingTransaction,
+          signFn,
+          "pre-proof"
+        );
+      }
+      return wallet.finalizeRecipe(recipe);
+    },
+    async submitTx(tx: ledger.FinalizedTransaction) {
+      return wallet.submitTransaction(tx);
+    }
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Dust registration (required for tx fees)
+// ---------------------------------------------------------------------------
+export async function registerForDustGeneration(
+  wallet: WalletFacade,
+  unshieldedKeystore: UnshieldedKeystore,
+  timeoutMs?: number
+) {
+  const state = await Rx.firstValueFrom(
+    wallet.state().pipe(Rx.filter((s) => s.isSynced))
+  );
+
+  if (state.dust.availableCoins.length > 0) {
+    const dustBal = state.dust.walletBalance(new Date());
+    console.log(
+      `  ✓ Dust tokens already available (${formatBalance(dustBal)} DUST)`
+    );
+    return;
+  }
+
+  const nightUtxos = state.unshielded.availableCoins.filter(
+    (coin) => coin.meta?.registeredForDustGeneration !== true
+  );
+
+  if (nightUtxos.length > 0) {
+    await withStatus(
+      `Registering ${nightUtxos.length} NIGHT UTXO(s) for dust generation`,
+      async () => {
+        const recipe = await wallet.registerNightUtxosForDustGeneration(
+          nightUtxos,
+          unshieldedKeystore.getPublicKey(),
+          (payload) => unshieldedKeystore.signData(payload)
+        );
+        const finalized = await wallet.finalizeRecipe(recipe);
+        await wallet.submitTransaction(finalized);
+      }
+    );
+  }
+
+  await withStatus("Waiting for dust tokens to generate", () =>
+    waitFor(
+      wallet.state().pipe(
+        Rx.throttleTime(5_000),
+        Rx.filter((s) => s.isSynced),
+        Rx.filter((s) => s.dust.walletBalance(new Date()) > 0n)
+      ),
+      "dust",
+      timeoutMs
+    )
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Synced wallet (build + sync), and funded wallet (synced + funds + dust)
+// ---------------------------------------------------------------------------
+// timeoutMs bounds each wait; a timeout rejects with WalletTimeoutError
+export async function syncWallet(seed: string, timeoutMs?: number) {
+  const { wallet, shieldedSecretKeys, dustSecretKey, unshieldedKeystore } =
+    await withStatus("Building wallet", () => buildWallet(seed));
+
+  console.log(
+    `\n  Unshielded address: ${unshieldedKeystore.getBech32Address()}`
+  );
+
+  const { faucet } = activeNetwork();
+  if (faucet) {
+    console.log(`  Fund via faucet: ${faucet}\n`);
+  } else {
+    console.log("");
+  }
+
+  // --- Wait for sync ---
+  const syncedState = await withStatus("Syncing wallet with network", () =>
+    waitFor(
+      wallet.state().pipe(
+        Rx.throttleTime(5_000),
+        Rx.tap((s) => logger.debug(`Sync status: ${s.isSynced}`)),
+        Rx.filter((s) => s.isSynced)
+      ),
+      "sync",
+      timeoutMs
+    )
+  );
+
+  return {
+    wallet,
+    shieldedSecretKeys,
+    dustSecretKey,
+    unshieldedKeystore,
+    syncedState
+  };
+}
+
+// A synced wallet that can pay fees, with the provider deployContract and callTx sign with
+export async function prepareWallet(seed: string, timeoutMs?: number) {
+  const {
+    wallet,
+    shieldedSecretKeys,
+    dustSecretKey,
+    unshieldedKeystore,
+    syncedState
+  } = await syncWallet(seed, timeoutMs);
+
+  // --- Wait for funds ---
+  const balance =
+    (syncedState.unshielded?.balances[ledger.nativeToken().raw] ?? 0n) +
+    (syncedState.shielded?.balances[ledger.nativeToken().raw] ?? 0n);
+
+  if (balance === 0n) {
+    await withStatus(
+      "Waiting for incoming funds (send tNight to address above)",
+      () =>
+        waitFor(
+          wallet.state().pipe(
+            Rx.throttleTime(10_000),
+            Rx.tap((s) => {
+              const u = s.unshielded?.balances[ledger.nativeToken().raw] ?? 0n;
+              logger.debug(`Balance: ${u}`);
+            }),
+            Rx.filter((s) => s.isSynced),
+            Rx.map(
+              (s) =>
+                (s.unshielded?.balances[ledger.nativeToken().raw] ?? 0n) +
+                (s.shielded?.balances[ledger.nativeToken().raw] ?? 0n)
+            ),
+            Rx.filter((b) => b > 0n)
+          ),
+          "funds",
+          timeoutMs
+        )
+    );
+  } else {
+    console.log(`  ✓ Balance: ${formatBalance(balance)} tNight`);
+  }
+
+  // --- Dust registration ---
+  await registerForDustGeneration(wallet, unshieldedKeystore, timeoutMs);
+
+  const walletAndMidnightProvider = createWalletAndMidnightProvider(
+    wallet,
+    shieldedSecretKeys,
+    dustSecretKey,
+    unshieldedKeystore,
+    syncedState
+  );
+
+  return { wallet, walletAndMidnightProvider };
+}
+
+export async function stopWallet(wallet: WalletFacade) {
+  try {
+    await wallet.stop();
+  } catch {
+    // ignore cleanup errors
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Contract providers
+// ---------------------------------------------------------------------------
+// Defaults to the blinding contract; deploy passes the managed directory and store of the
+// contract it deploys
+export function createProviders<K extends string = BlindingCircuits>(
+  walletAndMidnightProvider: WalletProvider & MidnightProvider,
+  managedDir = "blinding",
+  privateStateStoreName = "blinding-private-state"
+) {
+  const { indexer, indexerWS, proofServer } = activeNetwork();
+  const zkConfigProvider = new NodeZkConfigProvider<K>(managedPath(managedDir));
+
+  return {
+    privateStateProvider: levelPrivateStateProvider<string>({
+      privateStateStoreName,
+      signingKeyStoreName: "signing-keys",
+      midnightDbName: "midnight-level-db",
+      walletProvider: walletAndMidnightProvider
+    }),
+    publicDataProvider: indexerPublicDataProvider(indexer, indexerWS),
+    zkConfigProvider,
+    proofProvider: httpClientProofProvider(proofServer, zkConfigProvider),
+    walletProvider: walletAndMidnightProvider,
+    midnightProvider: walletAndMidnightProvider
+  };
+}
+
+// initialPrivateState replaces the private state stored for the contract, so callers that
+// set a key or record pass the stored state with their fields merged over it
+export async function mergedPrivateState(
+  privateStateProvider: PrivateStateProvider<string, BlindingPrivateState>,
+  fields: Partial<BlindingPrivateState>
+): Promise<BlindingPrivateState> {
+  const stored = await privateStateProvider.get(BlindingPrivateStateId);
+  const defined = Object.entries(fields).filter(
+    ([, value]) => value !== undefined
+  );
+  return { ...stored, ...Object.fromEntries(defined) };
+}
+
+// Contract class of a generated module; deploy passes no constructor arguments
+export interface GeneratedContract<PS> extends CompactContract<PS> {
+  initialState(context: ConstructorContext<PS>): ConstructorResult<PS>;
+}
+
+// Generated contract module (contract/index.js) of a contract with private state PS
+export interface ContractModule<PS> {
+  readonly Contract: new (witnesses: Witnesses<PS>) => GeneratedContract<PS>;
+}
+
+// Loads the generated module for a managed directory, compiled into dist. Nothing at run
+// time ties it to PS; the caller's registry entry or flags name the private state type
+export async function loadContractModule<PS>(
+  managedDir: string
+): Promise<ContractModule<PS>> {
+  const modulePath = path.resolve(
+    currentDir,
+    "managed",
+    managedDir,
+    "contract",
+    "index.js"
+  );
+  if (!fs.existsSync(modulePath)) {
+    throw new Error(
+      `No compiled contract at ${modulePath}; run compact compile and npm run build first`
+    );
+  }
+  const module: { Contract?: unknown } = await import(
+    pathToFileURL(modulePath).href
+  );
+  if (typeof module.Contract !== "function") {
+    throw new Error(`${modulePath} exports no Contract class`);
+  }
+  return module as ContractModule<PS>;
+}
+
+export const compileBlindingContract = () =>
+  CompiledContract.make<Contract<BlindingPrivateState>>(
+    "blinding",
+    Contract
+  ).pipe(
+    CompiledContract.withWitnesses(witnesses),
+    CompiledContract.withCompiledFileAssets(zkConfigPath)
+  );
+
+// ---------------------------------------------------------------------------
+// Deployment record (written by deploy, read by maintain)
+// ---------------------------------------------------------------------------
+// Public metadata only; the deployer seed is kept in the encrypted keystore (keystore.ts)
+export interface DeploymentRecord {
+  // Registry name or managed directory of the deployed contract (see contracts.ts)
+  contract?: string;
+  contractAddress: string;
+  // Network id, and the networks.json profile deployed to
+  network: string;
+  profile?: string;
+  deployedAt: string;
+  // Keystore name of the deployer wallet
+  wallet?: string;
+  // Plaintext seed written by older deploy scripts; never written now
+  seed?: string;
+}
+
+// Warns when an old deployment.json still carries the deployer seed in plaintext; the
+// scripts call it right after readDeployment
+export function warnIfPlaintextSeed(deployment: DeploymentRecord) {
+  if (deployment.seed) {
+    console.warn(
+      `  ⚠ ${deploymentPath} contains the wallet seed in plaintext.`
+    );
+    console.warn(
+      "    Move it into the encrypted keystore with: npm run maintain -- import-seed\n"
+    );
+  }
+}
+
+export function readDeployment(): DeploymentRecord {
+  if (!fs.existsSync(deploymentPath)) {
+    throw new Error(
+      `No deployment found at ${deploymentPath}; run npm run deploy first`
+    );
+  }
+  return JSON.parse(
+    fs.readFileSync(deploymentPath, "utf-8")
+  ) as DeploymentRecord;
+}
+
+export function writeDeployment(deployment: DeploymentRecord) {
+  fs.writeFileSync(deploymentPath, JSON.stringify(deployment, null, 2));
+}
@@ -0,0 +1,281 @@
+/**
+ * Private state and witness implementations for the blinding contract.
+ *
+ * The vendor's qualification record and the caller's secret key live only in
+ * local private state; circuits read them through witnesses so they are never
+ * part of a transaction.
+ */
+
+import type {
+  MerkleTreePath,
+  WitnessContext
+} from "@midnight-ntwrk/compact-runtime";
+import type {
+  Attestation,
+  Certifier,
+  Ledger,
+  SealedBid,
+  VendorQualification
+} from "./managed/blinding/contract/index.js";
+
+export type BlindingPrivateState = {
+  readonly secretKey?: Uint8Array;
+  readonly qualification?: VendorQualification;
+  // Certifier-signed attestations per compliance criterion id (decimal string, see attest.ts)
+  readonly attestations?: Readonly<Record<string, Attestation>>;
+  // Secret behind the vendor's membership commitment in the qualified-set tree
+  readonly membershipSecret?: Uint8Array;
+  // Qualification expiry per round id (decimal string), needed to rebuild the membership leaf
+  readonly membershipExpiries?: Readonly<Record<string, bigint>>;
+  // Sealed bid (amount and salt) per round id (decimal string), kept until it is revealed
+  readonly bids?: Readonly<Record<string, SealedBid>>;
+};
+
+export const BlindingPrivateStateId = "blindingPrivateState" as const;
+
+export const createBlindingPrivateState = (
+  secretKey?: Uint8Array,
+  qualification?: VendorQualification
+): BlindingPrivateState => ({
+  secretKey,
+  qualification
+});
+
+export const witnesses = {
+  privateQualification: ({
+    privateState
+  }: WitnessContext<Ledger, BlindingPrivateState>): [
+    BlindingPrivateState,
+    VendorQualification
+  ] => {
+    if (!privateState.qualification) {
+      throw new Error("No vendor qualification in private state");
+    }
+    return [privateState, privateState.qualification];
+  },
+
+  localSecretKey: ({
+    privateState
+  }: WitnessContext<Ledger, BlindingPrivateState>): [
+    BlindingPrivateState,
+    Uint8Array
+  ] => {
+    if (!privateState.secretKey) {
+      throw new Error(
+        "No secret key in private state: set the authority, officer or vendor key before calling this circuit"
+      );
+    }
+    return [privateState, privateState.secretKey];
+  },
+
+  complianceAttestation: (
+    { privateState }: WitnessContext<Ledger, BlindingPrivateState>,
+    criterion: bigint
+  ): [BlindingPrivateState, Attestation] => {
+    const attestation = privateState.attestations?.[criterion.toString()];
+    if (!attestation) {
+      throw new Error(
+        `No attestation in private state for compliance criterion ${criterion}`
+      );
+    }
+    return [privateState, attestation];
+  },
+
+  findCertifierPath: (
+    { privateState, ledger }: WitnessContext<Ledger, BlindingPrivateState>,
+    certifier: Certifier
+  ): [BlindingPrivateState, MerkleTreePath<Certifier>] => {
+    const path = ledger.certifierTree.findPathForLeaf(certifier);
+    if (!path) {
+      throw new Error(
+        "Attestation signer is not a registered certifier for this compliance criterion"
+      );
+    }
+    return [privateState, path];
+  },
+
+  membershipSecret: ({
+    privateState
+  }: WitnessContext<Ledger, BlindingPrivateState>): [
+    BlindingPrivateState,
+    Uint8Array
+  ] => {
+    if (!privateState.membershipSecret) {
+      throw new Error("No membership secret in private state");
+    }
+    return [privateState, privateState.membershipSecret];
+  },
+
+  membershipExpiry: (
+    { privateState }: WitnessContext<Ledger, BlindingPrivateState>,
+    roundId: bigint
+  ): [BlindingPrivateState, bigint] => {
+    const expiresAt = privateState.membershipExpiries?.[roundId.toString()];
+    if (expiresAt === undefined) {
+      throw new Error(
+        `No qualification expiry in private state for procurement round ${roundId}`
+      );
+    }
+    return [privateState, expiresAt];
+  },
+
+  findMembershipPath: (
+    { privateState, ledger }: WitnessContext<Ledger, BlindingPrivateState>,
+    leaf: Uint8Array
+  ): [BlindingPrivateState, MerkleTreePath<Uint8Array>] => {
+    const path = ledger.qualifiedMembers.findPathForLeaf(leaf);
+    if (!path) {
+      throw new Error("Not a qualified vendor in this procurement round");
+    }
+    return [privateState, path];
+  },
+
+  sealedBid: (
+    { privateState }: WitnessContext<Ledger, BlindingPrivateState>,
+    roundId: bigint
+  ): [BlindingPrivateState, SealedBid] => {
+    const bid = privateState.bids?.[roundId.toString()];
+    if (!bid) {
+      throw new Error(
+        `No sealed bid in private state for procurement round ${roundId}`
+      );
+    }
+    return [privateState, bid];
+  }
+};
+
+// ---------------------------------------------------------------------------
+// JSON decoding (deploy --private-state, cli --qualification and --attestation)
+// ---------------------------------------------------------------------------
+// JSON has no bigints or bytes: integers are numbers or decimal / 0x-hex strings, and
+// bytes are hex strings. Errors name the offending field by its path in the JSON.
+type JsonObject = Record<string, unknown>;
+
+const field = (path: string, name: string) => (path ? `${path}.${name}` : name);
+
+function decodeObject(json: unknown, path: string): JsonObject {
+  if (typeof json !== "object" || json === null || Array.isArray(json)) {
+    throw new Error(
+      path ? `${path} must be an object` : "Expected a JSON object"
+    );
+  }
+  return json as JsonObject;
+}
+
+function decodeInt(json: unknown, path: string): bigint {
+  if (
+    (typeof json === "number" && Number.isSafeInteger(json) && json >= 0) ||
+    (typeof json === "string" && /^(\d+|0x[0-9a-fA-F]+)$/.test(json))
+  ) {
+    return BigInt(json);
+  }
+  throw new Error(`${path} must be a non-negative integer`);
+}
+
+function decodeBytes32(json: unknown, path: string): Uint8Array {
+  const clean = typeof json === "string" ? json.trim().replace(/^0x/, "") : "";
+  if (!/^[0-9a-fA-F]{64}$/.test(clean)) {
+    throw new Error(`${path} must be 32 bytes of hex`);
+  }
+  return new Uint8Array(Buffer.from(clean, "hex"));
+}
+
+// Maps keyed by a decimal id (round or criterion), as the witnesses look them up
+function decodeIdMap<T>(
+  decodeValue: (json: unknown, path: string) => T
+): (json: unknown, path: string) => Record<string, T> {
+  return (json, path) =>
+    Object.fromEntries(
+      Object.entries(decodeObject(json, path)).map(([id, value]) => [
+        decodeInt(id, `${path} key "${id}"`).toString(),
+        decodeValue(value, field(path, id))
+      ])
+    );
+}
+
+export function decodeQualification(
+  json: unknown,
+  path = ""
+): VendorQualification {
+  const raw = decodeObject(json, path);
+  if (!Array.isArray(raw.metrics) || raw.metrics.length !== 4) {
+    throw new Error(
+      `${field(path, "metrics")} must list the 4 sub-metric scores`
+    );
+  }
+  return {
+    vendorId: decodeInt(raw.vendorId, field(path, "vendorId")),
+    referenceSalt: decodeBytes32(
+      raw.referenceSalt,
+      field(path, "referenceSalt")
+    ),
+    metrics: raw.metrics.map((metric, i) =>
+      decodeInt(metric, `${field(path, "metrics")}[${i}]`)
+    ),
+    salt: decodeInt(raw.salt, field(path, "salt"))
+  };
+}
+
+export function decodeAttestation(json: unknown, path = ""): Attestation {
+  const raw = decodeObject(json, path);
+  const point = (name: string) => {
+    const { x, y } = decodeObject(raw[name], field(path, name));
+    return {
+      x: decodeInt(x, field(path, `${name}.x`)),
+      y: decodeInt(y, field(path, `${name}.y`))
+    };
+  };
+  return {
+    certifier: point("certifier"),
+    validUntil: decodeInt(raw.validUntil, field(path, "validUntil")),
+    nonceCommitment: point("nonceCommitment"),
+    signature: decodeInt(raw.signature, field(path, "signature"))
+  };
+}
+
+// The JSON `npm run attest -- issue` prints, as [criterion id, attestation]
+export function decodeIssuedAttestation(json: unknown): [string, Attestation] {
+  const raw = decodeObject(json, "");
+  return [
+    decodeInt(raw.criterion, "criterion").toString(),
+    decodeAttestation(raw.attestation, "attestation")
+  ];
+}
+
+function decodeSealedBid(json: unknown, path: string): SealedBid {
+  const raw = decodeObject(json, path);
+  return {
+    amount: decodeInt(raw.amount, field(path, "amount")),
+    salt: decodeBytes32(raw.salt, field(path, "salt"))
+  };
+}
+
+const PRIVATE_STATE_FIELDS: {
+  [K in keyof BlindingPrivateState]-?: (
+    json: unknown,
+    path: string
+  ) => BlindingPrivateState[K];
+} = {
+  secretKey: decodeBytes32,
+  qualification: decodeQualification,
+  attestations: decodeIdMap(decodeAttestation),
+  membershipSecret: decodeBytes32,
+  membershipExpiries: decodeIdMap(decodeInt),
+  bids: decodeIdMap(decodeSealedBid)
+};
+
+// Private state written as JSON (deploy --private-state); every field is optional
+export function decodeBlindingPrivateState(
+  json: unknown
+): BlindingPrivateState {
+  const raw = decodeObject(json, "");
+  return Object.fromEntries(
+    Object.entries(raw).map(([name, value]) => {
+      if (!Object.hasOwn(PRIVATE_STATE_FIELDS, name)) {
+        throw new Error(`Unknown private state field "${name}"`);
+      }
+      const decode = PRIVATE_STATE_FIELDS[name as keyof BlindingPrivateState];
+      return [name, decode(value, name)];
+    })
+  ) as BlindingPrivateState;
+}
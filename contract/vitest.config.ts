@@ -0,0 +1,10 @@
+import { defineConfig } from "vitest/config";
+
+export default defineConfig({
+  test: {
+    include: ["src/test/**/*.test.ts"],
+    environment: "node",
+    // Simulator runs execute whole circuits, and keystore tests derive scrypt keys
+    testTimeout: 60_000
+  }
+});
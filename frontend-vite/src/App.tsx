@@ -1,25 +1,402 @@
 import { useState } from 'react'
 import './App.css'
 import Header from './components/Header'
-import VendorRegistry from './components/VendorRegistry'
+import VendorRegistry, { type StatusQueryCaller } from './components/VendorRegistry'
 import VerifyQualification from './components/VerifyQualification'
 import CheckCompliance from './components/CheckCompliance'
+import ProveMembership from './components/ProveMembership'
+import SealedBidTender from './components/SealedBidTender'
+import PendingProposals, { type QualificationProposal } from './components/PendingProposals'
+import QualificationSteps, { type ProofReceipt } from './components/QualificationSteps'
+import VendorEnrolment from './components/VendorEnrolment'
+import QualificationStats from './components/QualificationStats'
+import BatchQualification from './components/BatchQualification'
+import EvidenceCheck from './components/EvidenceCheck'
 import Debug from './components/Debug'
+import {
+  useContractConnection,
+  useProofReceipt,
+  useVendorEnrolment,
+  useVendorTier
+} from './hooks/useContractMethods'
+import {
+  bytesToHex,
+  type ContractConnection,
+  type QualificationBatchEntry,
+  type TierBandSummary,
+  type VendorTier
+} from './services/ContractService'
 
-function App() {
+// Simulated entry of the vendors ledger map
+interface QualificationRecord {
+  expiresAt: number
+  revoked: boolean
+  membershipCommitment: string
+  // Hash of the evidence bundle behind the approval; the files never leave the browser
+  evidenceHash: string | null
+}
+
+// Simulated complianceCriteria and complianceProfiles ledger maps, as procurement
+// would define them with defineCriterion and setComplianceProfile; a connected
+// contract's own maps replace them
+const COMPLIANCE_CRITERIA = new Map([
+  [1, 'Certification'],
+  [2, 'Insurance'],
+  [3, 'Payment History'],
+  [4, 'Safety Audit'],
+  [5, 'Data Protection']
+])
+const COMPLIANCE_PROFILES = new Map([
+  [1, [1, 2, 3]], // general supplies
+  [2, [1, 2, 4]], // construction
+  [3, [1, 3, 5]] // IT services
+])
+
+// Simulated tierBands ledger map, as procurement would define it with setTierBand; a
+// connected contract's own map replaces it
+const TIER_BANDS: TierBandSummary[] = [
+  { tier: 'bronze', low: 60, high: 75 },
+  { tier: 'silver', low: 75, high: 90 },
+  { tier: 'gold', low: 90, high: 101 }
+]
+
+// Simulated receiptValidity: proof receipts stay fresh for one day; a connected
+// contract's own value replaces it
+const RECEIPT_VALIDITY_MS = 24 * 60 * 60 * 1000
+
+interface AppProps {
+  // Joined contract and providers (see ContractConnection); the ledger-backed cards read
+  // through it, the other cards keep running their simulations
+  connection?: ContractConnection
+}
+
+function App({ connection }: AppProps) {
+  const { connected } = useContractConnection(connection)
+  const { createVendorReference } = useVendorEnrolment()
+  const { fetchTier } = useVendorTier()
+  const { fetchValidity } = useProofReceipt()
   const [debugInfo, setDebugInfo] = useState<any>(null)
-  const [vendorsRegistry, setVendorsRegistry] = useState<Set<number>>(new Set())
+  // Keyed by `${roundId}:${vendorRef}`; each procurement round has its own qualified set
+  const [vendorsRegistry, setVendorsRegistry] = useState<Map<string, QualificationRecord>>(new Map())
+  // Simulated vendorTiers ledger map, keyed like vendorsRegistry
+  const [vendorTiers, setVendorTiers] = useState<Map<string, VendorTier>>(new Map())
+  // Simulated proofReceipts ledger map, keyed like vendorsRegistry
+  const [proofReceipts, setProofReceipts] = useState<Map<string, ProofReceipt>>(new Map())
+  // Simulated vendorKeys ledger map (vendorRef -> public key)
+  const [vendorKeys, setVendorKeys] = useState<Map<string, string>>(new Map())
+  // Vendor references derived at enrolment (vendorId -> vendorRef); the ledger maps only ever
+  // see the reference, so a vendor id missing here has nothing recorded
+  const [vendorRefs, setVendorRefs] = useState<Map<number, string>>(new Map())
+  // Simulated private state: the reference salt used while no contract is connected
+  const [referenceSalt] = useState(() => bytesToHex(crypto.getRandomValues(new Uint8Array(32))))
+  // Public key of the vendor secret key held in this browser's simulated private state
+  const [localVendorKey, setLocalVendorKey] = useState<string | null>(null)
+  // Simulated membershipNullifiers ledger set
+  const [membershipNullifiers, setMembershipNullifiers] = useState<Set<string>>(new Set())
+  // Simulated k-of-n officer approval
+  const [proposals, setProposals] = useState<QualificationProposal[]>([])
+  const [approvalThreshold, setApprovalThreshold] = useState(2)
 
   const updateDebugInfo = (info: any) => {
     setDebugInfo(info)
   }
 
-  const addQualifiedVendor = (vendorId: number) => {
-    setVendorsRegistry(prev => new Set([...Array.from(prev), vendorId]))
+  // Derives vendorReference(vendorId, referenceSalt) as the vendor does before enrolment:
+  // through the contract's pure circuit and the salt in private state when connected, else
+  // from the simulated salt
+  const deriveVendorRef = async (vendorId: number) => {
+    if (connected) {
+      return createVendorReference(vendorId)
+    }
+    const preimage = new TextEncoder().encode(`blinding:vendor-reference:${vendorId}:${referenceSalt}`)
+    return bytesToHex(new Uint8Array(await crypto.subtle.digest('SHA-256', preimage)))
+  }
+
+  const requireVendorRef = (vendorId: number) => {
+    const vendorRef = vendorRefs.get(vendorId)
+    if (!vendorRef) {
+      throw new Error('Vendor is not enrolled')
+    }
+    return vendorRef
+  }
+
+  const addQualifiedVendor = (
+    roundId: number,
+    vendorRef: string,
+    expiresAt: Date,
+    membershipCommitment: string,
+    evidenceHash: string | null
+  ) => {
+    setVendorsRegistry(prev => new Map(prev).set(`${roundId}:${vendorRef}`, {
+      expiresAt: expiresAt.getTime(),
+      revoked: false,
+      membershipCommitment,
+      evidenceHash
+    }))
+  }
+
+  // Procurement enrols the vendor reference, never the vendor id
+  const enrolVendor = async (vendorId: number, publicKey: string) => {
+    const vendorRef = await deriveVendorRef(vendorId)
+    setVendorRefs(prev => new Map(prev).set(vendorId, vendorRef))
+    setVendorKeys(prev => new Map(prev).set(vendorRef, publicKey))
+    return vendorRef
+  }
+
+  // Simulates assertVendorKey: the caller's key must be the one enrolled for the vendor reference
+  // Returns the vendor reference the vendor's ledger entries are keyed by
+  const assertVendorKey = (vendorId: number, callerKey: string | null = localVendorKey) => {
+    const vendorRef = requireVendorRef(vendorId)
+    if (vendorKeys.get(vendorRef) !== callerKey) {
+      throw new Error("Not authorised: caller does not hold the vendor's enrolled key")
+    }
+    return vendorRef
+  }
+
+  const rotateVendorKey = (vendorId: number, currentKey: string, newKey: string) => {
+    const vendorRef = assertVendorKey(vendorId, currentKey)
+    setVendorKeys(prev => new Map(prev).set(vendorRef, newKey))
+    setLocalVendorKey(newKey)
+    return vendorRef
+  }
+
+  // Simulates assertStatusReader: only the vendor's enrolled key or an officer may ask
+  const assertStatusReader = (caller: StatusQueryCaller, vendorId: number) => {
+    const vendorRef = vendorRefs.get(vendorId)
+    const allowed = caller.role === 'officer'
+      ? caller.officer !== ''
+      : caller.role === 'vendor' && !!caller.publicKey && !!vendorRef && vendorKeys.get(vendorRef) === caller.publicKey
+    if (!allowed) {
+      throw new Error('Not authorised: only the vendor or a registered procurement officer can query its status')
+    }
+  }
+
+  // Reads receiptValidity from the ledger when connected; setReceiptValidity may change it at any time
+  const receiptValidityMs = async () => {
+    if (!connected) {
+      return RECEIPT_VALIDITY_MS
+    }
+    const response = await fetchValidity()
+    if (response.error) {
+      throw new Error(response.error)
+    }
+    return response.result * 1000
+  }
+
+  const recordQualificationProof = async (roundId: number, vendorRef: string) => {
+    const qualifiedUntil = Date.now() + await receiptValidityMs()
+    setProofReceipts(prev => {
+      const key = `${roundId}:${vendorRef}`
+      const receipt = prev.get(key) ?? { qualifiedUntil: 0, compliantUntil: 0, profileId: 0 }
+      return new Map(prev).set(key, { ...receipt, qualifiedUntil })
+    })
+  }
+
+  const recordComplianceProof = async (roundId: number, vendorRef: string, profileId: number) => {
+    const compliantUntil = Date.now() + await receiptValidityMs()
+    setProofReceipts(prev => {
+      const key = `${roundId}:${vendorRef}`
+      const receipt = prev.get(key) ?? { qualifiedUntil: 0, compliantUntil: 0, profileId: 0 }
+      return new Map(prev).set(key, { ...receipt, compliantUntil, profileId })
+    })
+  }
+
+  // Simulates assertFreshReceipt
+  const assertFreshReceipt = (roundId: number, vendorRef: string) => {
+    const receipt = proofReceipts.get(`${roundId}:${vendorRef}`)
+    if (!receipt || Date.now() >= receipt.qualifiedUntil) {
+      throw new Error('Vendor has no fresh qualification proof in this round')
+    }
+    if (Date.now() >= receipt.compliantUntil) {
+      throw new Error('Vendor has no fresh compliance proof in this round')
+    }
+  }
+
+  // Simulates approve: the k-th distinct officer approval records the vendor,
+  // consuming its proof receipt
+  const approveProposal = (officer: string, proposal: QualificationProposal) => {
+    if (proposal.approvedBy.includes(officer)) {
+      throw new Error('Officer already approved this proposal')
+    }
+    const approvedBy = [...proposal.approvedBy, officer]
+    const executed = approvedBy.length >= approvalThreshold
+    if (executed) {
+      assertFreshReceipt(proposal.roundId, proposal.vendorRef)
+      const key = `${proposal.roundId}:${proposal.vendorRef}`
+      addQualifiedVendor(
+        proposal.roundId,
+        proposal.vendorRef,
+        proposal.expiresAt,
+        proposal.membershipCommitment,
+        proposal.evidenceHash
+      )
+      setProofReceipts(prev => {
+        const next = new Map(prev)
+        next.delete(key)
+        return next
+      })
+    }
+    return { ...proposal, approvedBy, executed }
+  }
+
+  const proposeQualification = (
+    officer: string,
+    roundId: number,
+    vendorId: number,
+    expiresAt: Date,
+    membershipCommitment: string,
+    evidenceHash: string | null
+  ) => {
+    const vendorRef = requireVendorRef(vendorId)
+    assertFreshReceipt(roundId, vendorRef)
+    const proposal = approveProposal(officer, {
+      proposalId: proposals.length,
+      roundId,
+      vendorRef,
+      expiresAt,
+      membershipCommitment,
+      evidenceHash,
+      approvedBy: [],
+      executed: false
+    })
+    setProposals(prev => [...prev, proposal])
+    return proposal.proposalId
   }
 
-  const isQualified = (vendorId: number) => {
-    return vendorsRegistry.has(vendorId)
+  const approveQualification = (officer: string, proposalId: number) => {
+    const proposal = proposals.find(p => p.proposalId === proposalId)
+    if (!proposal) {
+      throw new Error('Unknown qualification proposal')
+    }
+    if (proposal.executed) {
+      throw new Error('Qualification proposal already executed')
+    }
+    const updated = approveProposal(officer, proposal)
+    setProposals(prev => prev.map(p => (p.proposalId === proposalId ? updated : p)))
+    return updated.executed
+  }
+
+  // Simulates proposeQualificationBatch for one chunk: every entry is checked before
+  // any proposal is stored, so a failing chunk leaves the ledger unchanged
+  const proposeQualificationBatch = (
+    officer: string,
+    roundId: number,
+    entries: QualificationBatchEntry[],
+    expiresAt: Date
+  ) => {
+    entries.forEach(({ vendorRef }) => assertFreshReceipt(roundId, vendorRef))
+    // The proposer's approval alone never reaches k, so nothing is executed here
+    setProposals(prev => [
+      ...prev,
+      ...entries.map(({ vendorRef, membershipCommitment, evidenceHash }, i) => ({
+        proposalId: prev.length + i,
+        roundId,
+        vendorRef,
+        expiresAt,
+        membershipCommitment,
+        evidenceHash: evidenceHash ?? null,
+        approvedBy: [officer],
+        executed: false
+      }))
+    ])
+    return entries.length
+  }
+
+  // Simulates approveQualificationBatch for one chunk; returns the number of vendors recorded
+  const approveQualificationBatch = (officer: string, proposalIds: number[]) => {
+    if (new Set(proposalIds).size !== proposalIds.length) {
+      throw new Error('Officer already approved this proposal')
+    }
+    const batch = proposalIds.map((proposalId) => {
+      const proposal = proposals.find(p => p.proposalId === proposalId)
+      if (!proposal) {
+        throw new Error('Unknown qualification proposal')
+      }
+      if (proposal.executed) {
+        throw new Error('Qualification proposal already executed')
+      }
+      if (proposal.approvedBy.includes(officer)) {
+        throw new Error('Officer already approved this proposal')
+      }
+      if (proposal.approvedBy.length + 1 >= approvalThreshold) {
+        assertFreshReceipt(proposal.roundId, proposal.vendorRef)
+      }
+      return proposal
+    })
+    const updated = new Map(batch.map(proposal => [proposal.proposalId, approveProposal(officer, proposal)]))
+    setProposals(prev => prev.map(p => updated.get(p.proposalId) ?? p))
+    return Array.from(updated.values()).filter(p => p.executed).length
+  }
+
+  // Key of a vendor's entries in a round; null for vendor ids that were never enrolled
+  const ledgerKeyOf = (roundId: number, vendorId: number) => {
+    const vendorRef = vendorRefs.get(vendorId)
+    return vendorRef ? `${roundId}:${vendorRef}` : null
+  }
+
+  const recordOf = (roundId: number, vendorId: number) => {
+    const key = ledgerKeyOf(roundId, vendorId)
+    return key ? vendorsRegistry.get(key) : undefined
+  }
+
+  const revokeVendor = (roundId: number, vendorId: number) => {
+    const key = ledgerKeyOf(roundId, vendorId)
+    const record = recordOf(roundId, vendorId)
+    if (!key || !record) {
+      return false
+    }
+    setVendorsRegistry(prev => new Map(prev).set(key, { ...record, revoked: true }))
+    return true
+  }
+
+  // Reads the evidence hash stored with a vendor's qualification (null when none was attached)
+  const evidenceHashOf = (roundId: number, vendorId: number) => {
+    const record = recordOf(roundId, vendorId)
+    if (!record) {
+      throw new Error('Vendor has no qualification recorded in this round')
+    }
+    return record.evidenceHash
+  }
+
+  const isQualified = (roundId: number, vendorId: number) => {
+    const record = recordOf(roundId, vendorId)
+    return !!record && !record.revoked && Date.now() < record.expiresAt
+  }
+
+  const recordTier = (roundId: number, vendorRef: string, tier: VendorTier) => {
+    setVendorTiers(prev => new Map(prev).set(`${roundId}:${vendorRef}`, tier))
+  }
+
+  // Reads the tier proveTier recorded: from the ledger through getVendorTier when connected,
+  // else simulates currentTier (none unless the vendor is qualified and proved a tier)
+  const vendorTier = async (roundId: number, vendorId: number): Promise<VendorTier> => {
+    if (connected) {
+      const response = await fetchTier(roundId, await deriveVendorRef(vendorId))
+      if (response.error) {
+        throw new Error(response.error)
+      }
+      return response.result
+    }
+    const key = ledgerKeyOf(roundId, vendorId)
+    return key && isQualified(roundId, vendorId) ? vendorTiers.get(key) ?? 'none' : 'none'
+  }
+
+  // Simulates proveMembership: only the commitment is matched, never the vendor id
+  const proveMembership = (roundId: number, membershipCommitment: string) => {
+    const isMember = Array.from(vendorsRegistry).some(([key, record]) =>
+      key.startsWith(`${roundId}:`) &&
+      record.membershipCommitment === membershipCommitment &&
+      !record.revoked &&
+      Date.now() < record.expiresAt
+    )
+    if (!isMember) {
+      throw new Error('Not a qualified vendor in this procurement round')
+    }
+    const nullifier = `${roundId}:${membershipCommitment}`
+    if (membershipNullifiers.has(nullifier)) {
+      throw new Error('Membership already proven in this procurement round')
+    }
+    setMembershipNullifiers(prev => new Set(prev).add(nullifier))
   }
 
   return (
@@ -27,13 +404,62 @@ function App() {
       <Header />
       <div className="main-content">
         <div className="cards-grid">
-          <VerifyQualification onDebugUpdate={updateDebugInfo} />
-          <CheckCompliance onDebugUpdate={updateDebugInfo} />
+          <VendorEnrolment
+            onDebugUpdate={updateDebugInfo}
+            vendorKeys={vendorKeys}
+            vendorRefs={vendorRefs}
+            onVendorKeyCreated={setLocalVendorKey}
+            onEnrol={enrolVendor}
+            onRotate={rotateVendorKey}
+          />
+          <VerifyQualification
+            onDebugUpdate={updateDebugInfo}
+            connected={connected}
+            tierBands={TIER_BANDS}
+            onTierProof={recordTier}
+            onQualificationProof={recordQualificationProof}
+            onVendorKeyCheck={assertVendorKey}
+          />
+          <CheckCompliance
+            onDebugUpdate={updateDebugInfo}
+            connected={connected}
+            complianceCriteria={COMPLIANCE_CRITERIA}
+            complianceProfiles={COMPLIANCE_PROFILES}
+            onComplianceProof={recordComplianceProof}
+            onVendorKeyCheck={assertVendorKey}
+          />
+          <QualificationSteps
+            vendorRefs={vendorRefs}
+            proofReceipts={proofReceipts}
+            proposals={proposals}
+            onStatusCheck={isQualified}
+          />
+          <QualificationStats connected={connected} />
+          <ProveMembership onDebugUpdate={updateDebugInfo} onMembershipProof={proveMembership} />
           <VendorRegistry 
             onDebugUpdate={updateDebugInfo}
-            onQualificationRecord={addQualifiedVendor}
+            onQualificationPropose={proposeQualification}
+            onQualificationRevoke={revokeVendor}
             onStatusCheck={isQualified}
+            onTierLookup={vendorTier}
+            vendorPublicKey={localVendorKey}
+            onStatusReaderCheck={assertStatusReader}
+          />
+          <BatchQualification
+            onDebugUpdate={updateDebugInfo}
+            vendorRefs={vendorRefs}
+            onBatchPropose={proposeQualificationBatch}
+          />
+          <EvidenceCheck onDebugUpdate={updateDebugInfo} onEvidenceLookup={evidenceHashOf} />
+          <PendingProposals
+            onDebugUpdate={updateDebugInfo}
+            proposals={proposals.filter(p => !p.executed)}
+            approvalThreshold={approvalThreshold}
+            onApprovalThresholdChange={setApprovalThreshold}
+            onApprove={approveQualification}
+            onApproveBatch={approveQualificationBatch}
           />
+          <SealedBidTender onDebugUpdate={updateDebugInfo} onStatusCheck={isQualified} />
         </div>
         <Debug debugInfo={debugInfo} />
       </div>
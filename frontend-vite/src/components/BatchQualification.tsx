@@ -0,0 +1,208 @@
+import { useState } from 'react'
+import Card from './Card'
+import ResultBox from './ResultBox'
+import { chunkBatch, QUALIFICATION_BATCH_SIZE, type BatchProgress, type QualificationBatchEntry } from '../services/ContractService'
+import './Form.css'
+
+interface BatchQualificationProps {
+  onDebugUpdate: (info: unknown) => void
+  // Vendor references derived at enrolment (vendorId -> vendorRef); the batch takes references
+  vendorRefs: Map<number, string>
+  // Simulates proposeQualificationBatch for one chunk; returns the number of proposals created
+  onBatchPropose: (
+    officer: string,
+    roundId: number,
+    entries: QualificationBatchEntry[],
+    expiresAt: Date
+  ) => number
+}
+
+const defaultExpiry = () => {
+  const date = new Date()
+  date.setFullYear(date.getFullYear() + 1)
+  return date.toISOString().slice(0, 10)
+}
+
+// Simulated proving time per transaction
+const CHUNK_DELAY_MS = 300
+
+// One "vendorId,membershipCommitment[,evidenceHash]" entry per line; blank lines and # comments are skipped
+const parseBatch = (text: string, vendorRefs: Map<number, string>): QualificationBatchEntry[] =>
+  text
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter((line) => line && !line.startsWith('#'))
+    .map((line, index) => {
+      const [vendorId, commitment = '', evidence = ''] = line.split(/[,;\s]+/)
+      const vendorNum = parseInt(vendorId)
+      const membershipCommitment = commitment.replace(/^0x/, '').toLowerCase()
+      const evidenceHash = evidence.replace(/^0x/, '').toLowerCase()
+      if (Number.isNaN(vendorNum) || vendorNum < 0) {
+        throw new Error(`Line ${index + 1}: invalid vendor ID "${vendorId}"`)
+      }
+      const vendorRef = vendorRefs.get(vendorNum)
+      if (!vendorRef) {
+        throw new Error(`Line ${index + 1}: vendor ${vendorNum} is not enrolled`)
+      }
+      if (!/^[0-9a-f]{64}$/.test(membershipCommitment)) {
+        throw new Error(`Line ${index + 1}: membership commitment must be 32 bytes of hex`)
+      }
+      if (evidenceHash && !/^[0-9a-f]{64}$/.test(evidenceHash)) {
+        throw new Error(`Line ${index + 1}: evidence hash must be 32 bytes of hex`)
+      }
+      return { vendorRef, membershipCommitment, ...(evidenceHash ? { evidenceHash } : {}) }
+    })
+
+export default function BatchQualification({ onDebugUpdate, vendorRefs, onBatchPropose }: BatchQualificationProps) {
+  const [officer, setOfficer] = useState('')
+  const [roundId, setRoundId] = useState('1')
+  const [expiresAt, setExpiresAt] = useState(defaultExpiry())
+  const [batchText, setBatchText] = useState('')
+  const [progress, setProgress] = useState<BatchProgress | null>(null)
+  const [result, setResult] = useState<Record<string, unknown> | null>(null)
+  const [loading, setLoading] = useState(false)
+
+  const handleBatchFile = async (file: File | undefined) => {
+    if (!file) {
+      return
+    }
+    setBatchText(await file.text())
+  }
+
+  const handlePropose = async () => {
+    if (!officer || !roundId || !expiresAt || !batchText.trim()) {
+      alert('Please enter acting officer, round ID, expiry date and the list of vendors')
+      return
+    }
+
+    setLoading(true)
+    setProgress(null)
+    const roundNum = parseInt(roundId)
+    const expiry = new Date(expiresAt)
+    let proposed = 0
+    let completedChunks = 0
+    try {
+      const entries = parseBatch(batchText, vendorRefs)
+      const chunks = chunkBatch(entries)
+
+      // Simulate one smart contract call per chunk; a failed chunk stops the batch
+      for (const [index, chunk] of chunks.entries()) {
+        await new Promise((resolve) => setTimeout(resolve, CHUNK_DELAY_MS))
+        try {
+          proposed += onBatchPropose(officer, roundNum, chunk, expiry)
+        } catch (error) {
+          throw new Error(`Chunk ${index + 1} of ${chunks.length} failed: ${error instanceof Error ? error.message : 'Unknown error'}`)
+        }
+        completedChunks = index + 1
+        setProgress({ chunk: index + 1, chunks: chunks.length, processed: proposed, total: entries.length })
+      }
+
+      const response = {
+        method: 'proposeQualificationBatch',
+        params: { roundId: roundNum, vendors: entries.length, expiresAt: expiry.toISOString() },
+        result: { proposed, completedChunks, chunks: chunks.length },
+        timestamp: new Date().toISOString(),
+        contractCall: {
+          circuit: 'proposeQualificationBatch',
+          input: `${chunks.length} transaction(s) of up to ${QUALIFICATION_BATCH_SIZE} vendors`,
+          output: `${proposed} proposal(s) created`,
+          ledgerUpdate: `proposals.insert(proposalId, { ... }); proposalApprovals[proposalId].insert(${officer}) per vendor`,
+          authorization: `Officer ${officer}`
+        }
+      }
+
+      setResult(response)
+      onDebugUpdate(response)
+      setBatchText('')
+    } catch (error) {
+      const errorResponse = {
+        method: 'proposeQualificationBatch',
+        result: { proposed, completedChunks },
+        error: error instanceof Error ? error.message : 'Unknown error',
+        timestamp: new Date().toISOString()
+      }
+      setResult(errorResponse)
+      onDebugUpdate(errorResponse)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <Card
+      badge="Circuit 3, batched"
+      title="📋 Batch Qualification"
+      description={`Propose a list of vendors, ${QUALIFICATION_BATCH_SIZE} per transaction; each still needs k officer approvals`}
+    >
+      <div className="input-group">
+        <label>Acting Officer</label>
+        <input
+          type="text"
+          value={officer}
+          onChange={(e) => setOfficer(e.target.value)}
+          placeholder="e.g., officer-a"
+          disabled={loading}
+        />
+      </div>
+
+      <div className="input-group">
+        <label>Round ID</label>
+        <input
+          type="number"
+          value={roundId}
+          onChange={(e) => setRoundId(e.target.value)}
+          placeholder="e.g., 1"
+          min="0"
+          disabled={loading}
+        />
+      </div>
+
+      <div className="input-group">
+        <label>Qualified Until</label>
+        <input
+          type="date"
+          value={expiresAt}
+          onChange={(e) => setExpiresAt(e.target.value)}
+          disabled={loading}
+        />
+      </div>
+
+      <div className="input-group">
+        <label>Vendors (vendorId,membershipCommitment[,evidenceHash] per line)</label>
+        <textarea
+          value={batchText}
+          onChange={(e) => setBatchText(e.target.value)}
+          placeholder={'999,3f2a...\n1000,8c41...'}
+          rows={6}
+          disabled={loading}
+        />
+        <input
+          type="file"
+          accept="text/csv,text/plain,.csv,.txt"
+          onChange={(e) => handleBatchFile(e.target.files?.[0])}
+          disabled={loading}
+        />
+        {progress && (
+          <span className="input-hint">
+            Chunk {progress.chunk} of {progress.chunks} · {progress.processed} of {progress.total} vendors proposed
+          </span>
+        )}
+      </div>
+
+      <button
+        onClick={handlePropose}
+        className="btn-primary"
+        disabled={loading}
+      >
+        {loading ? '⏳ Proposing...' : '→ Propose Batch'}
+      </button>
+
+      {result && (
+        <ResultBox
+          success={!('error' in result)}
+          data={result}
+        />
+      )}
+    </Card>
+  )
+}
@@ -1,38 +1,128 @@
-import { useState } from 'react'
+import { useEffect, useState } from 'react'
 import Card from './Card'
 import ResultBox from './ResultBox'
+import {
+  parseIssuedAttestation,
+  type ComplianceCriterionSummary,
+  type IssuedAttestation
+} from '../services/ContractService'
+import { useComplianceProfile } from '../hooks/useContractMethods'
 import './Form.css'
 
 interface CheckComplianceProps {
-  onDebugUpdate: (info: any) => void
+  onDebugUpdate: (info: unknown) => void
+  // True once a contract is bound; profiles are then read from its ledger
+  connected: boolean
+  // Simulated complianceCriteria (criterionId -> label) and complianceProfiles ledger maps,
+  // used while no contract is connected
+  complianceCriteria: Map<number, string>
+  complianceProfiles: Map<number, number[]>
+  // Simulates the proof receipt a successful check leaves in the round
+  onComplianceProof: (roundId: number, vendorRef: string, profileId: number) => Promise<void>
+  // Simulates the enrolled-key check every vendor-side circuit makes; returns the vendor reference
+  onVendorKeyCheck: (vendorId: number) => string
 }
 
-export default function CheckCompliance({ onDebugUpdate }: CheckComplianceProps) {
-  const [certification, setCertification] = useState(true)
-  const [insurance, setInsurance] = useState(true)
-  const [paymentHistory, setPaymentHistory] = useState(true)
-  const [result, setResult] = useState<any>(null)
+export default function CheckCompliance({
+  onDebugUpdate,
+  connected,
+  complianceCriteria,
+  complianceProfiles,
+  onComplianceProof,
+  onVendorKeyCheck
+}: CheckComplianceProps) {
+  const [vendorId, setVendorId] = useState('')
+  const [roundId, setRoundId] = useState('1')
+  const [profileId, setProfileId] = useState('1')
+  const [attestations, setAttestations] = useState<Record<string, IssuedAttestation>>({})
+  const [result, setResult] = useState<Record<string, unknown> | null>(null)
   const [loading, setLoading] = useState(false)
+  // Profiles are defined by procurement on the ledger, never picked by the vendor
+  const {
+    fetchProfile,
+    profile: ledgerProfile,
+    loading: profileLoading,
+    error: profileError
+  } = useComplianceProfile()
+
+  useEffect(() => {
+    if (connected && profileId) {
+      fetchProfile(parseInt(profileId))
+    }
+  }, [connected, profileId, fetchProfile])
+
+  // The checklist is the active profile's required criteria
+  const requiredCriteria: ComplianceCriterionSummary[] = connected
+    ? (ledgerProfile?.profileId === String(parseInt(profileId)) ? ledgerProfile.criteria : [])
+    : (complianceProfiles.get(parseInt(profileId)) ?? []).map((criterionId) => ({
+        criterionId: criterionId.toString(),
+        label: complianceCriteria.get(criterionId) ?? `criterion ${criterionId}`
+      }))
+
+  // Attestation files are read locally and only ever go into private state
+  const handleAttestationFile = async (criterionId: string, file: File | undefined) => {
+    if (!file) return
+    try {
+      const issued = parseIssuedAttestation(await file.text())
+      if (issued.criterion !== criterionId) {
+        throw new Error(`File attests criterion ${issued.criterion}, not ${criterionId}`)
+      }
+      setAttestations(prev => ({ ...prev, [issued.criterion]: issued }))
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Invalid attestation file')
+    }
+  }
 
   const handleCheck = async () => {
+    if (!vendorId || !roundId || !profileId) {
+      alert('Please enter your vendor ID, the round ID and the compliance profile')
+      return
+    }
+
     setLoading(true)
     try {
       // Simulate smart contract call
-      const compliant = certification && insurance && paymentHistory
+      // The circuit also checks each signature and that the signer is a registered certifier
+      if (requiredCriteria.length === 0) {
+        throw new Error('Unknown compliance profile')
+      }
+      const vendorRef = onVendorKeyCheck(parseInt(vendorId))
+      const now = Date.now()
+      const criteria = Object.fromEntries(
+        requiredCriteria.map(({ criterionId, label }) => {
+          const issued = attestations[criterionId]
+          const valid = !!issued &&
+            BigInt(issued.vendorId) === BigInt(vendorId) &&
+            Number(issued.attestation.validUntil) * 1000 > now
+          return [label, valid]
+        })
+      )
+      const compliant = Object.values(criteria).every(Boolean)
+      if (compliant) {
+        await onComplianceProof(parseInt(roundId), vendorRef, parseInt(profileId))
+      }
 
       const response = {
         method: 'checkCompliance',
         params: {
-          certificationValid: certification,
-          insuranceActive: insurance,
-          paymentHistoryGood: paymentHistory,
+          vendorId,
+          profileId: parseInt(profileId),
+          roundId: parseInt(roundId),
+          criteria: requiredCriteria
+            .filter(({ criterionId }) => attestations[criterionId])
+            .map(({ criterionId }) => parseInt(criterionId)),
         },
         result: compliant,
         timestamp: new Date().toISOString(),
         contractCall: {
           circuit: 'checkCompliance',
-          input: `[${certification}, ${insurance}, ${paymentHistory}]`,
-          output: `[${compliant}]`
+          input: `[${profileId}, ${roundId}, <proof time>]`,
+          output: `[${compliant}]`,
+          ledgerUpdate: compliant ? `proofReceipts[${roundId}][${vendorRef.slice(0, 16)}...].compliantUntil` : undefined,
+          attestations: Object.fromEntries(
+            Object.entries(criteria).map(([criterion, valid]) => [criterion, valid ? '✓' : '✗'])
+          ),
+          privacyLevel: 'FULL_ZERO_KNOWLEDGE'
         }
       }
 
@@ -55,43 +145,73 @@ export default function CheckCompliance({ onDebugUpdate }: CheckComplianceProps)
     <Card
       badge="Circuit 2"
       title="📋 Check Compliance"
-      description="Verify all compliance checks pass without revealing individual details"
+      description="Prove certifier-signed attestations for every criterion in a compliance profile without revealing them"
     >
-      <div className="checkbox-group">
-        <div className="checkbox-item">
-          <input
-            type="checkbox"
-            id="cert"
-            checked={certification}
-            onChange={(e) => setCertification(e.target.checked)}
-            disabled={loading}
-          />
-          <label htmlFor="cert">Certification Valid</label>
-        </div>
+      <div className="input-group">
+        <label>Vendor ID</label>
+        <input
+          type="number"
+          value={vendorId}
+          onChange={(e) => setVendorId(e.target.value)}
+          placeholder="e.g., 999"
+          min="0"
+          disabled={loading}
+        />
+      </div>
 
-        <div className="checkbox-item">
-          <input
-            type="checkbox"
-            id="insur"
-            checked={insurance}
-            onChange={(e) => setInsurance(e.target.checked)}
-            disabled={loading}
-          />
-          <label htmlFor="insur">Insurance Active</label>
-        </div>
+      <div className="input-group">
+        <label>Round ID</label>
+        <input
+          type="number"
+          value={roundId}
+          onChange={(e) => setRoundId(e.target.value)}
+          placeholder="e.g., 1"
+          min="0"
+          disabled={loading}
+        />
+      </div>
 
-        <div className="checkbox-item">
-          <input
-            type="checkbox"
-            id="payment"
-            checked={paymentHistory}
-            onChange={(e) => setPaymentHistory(e.target.checked)}
-            disabled={loading}
-          />
-          <label htmlFor="payment">Payment History Good</label>
-        </div>
+      <div className="input-group">
+        <label>Compliance Profile</label>
+        <input
+          type="number"
+          value={profileId}
+          onChange={(e) => setProfileId(e.target.value)}
+          placeholder="e.g., 1"
+          min="0"
+          disabled={loading}
+        />
+        <span className="input-hint">
+          {connected && profileLoading
+            ? 'Loading profile from the ledger...'
+            : connected && profileError
+              ? `Profile unavailable (${profileError})`
+              : requiredCriteria.length > 0
+                ? `Requires ${requiredCriteria.length} attested criteria`
+                : 'Unknown compliance profile'}
+        </span>
       </div>
 
+      {requiredCriteria.map(({ criterionId, label }) => {
+        const issued = attestations[criterionId]
+        return (
+          <div className="input-group" key={criterionId}>
+            <label>{label} Attestation</label>
+            <input
+              type="file"
+              accept="application/json,.json"
+              onChange={(e) => handleAttestationFile(criterionId, e.target.files?.[0])}
+              disabled={loading}
+            />
+            <span className="input-hint">
+              {issued
+                ? `Loaded: issued to vendor ${issued.vendorId}, valid until ${new Date(Number(issued.attestation.validUntil) * 1000).toLocaleDateString()}`
+                : 'No attestation loaded'}
+            </span>
+          </div>
+        )
+      })}
+
       <button 
         onClick={handleCheck} 
         className="btn-primary"
@@ -0,0 +1,128 @@
+import { useState } from 'react'
+import Card from './Card'
+import ResultBox from './ResultBox'
+import { hashEvidenceFiles } from '../services/ContractService'
+import './Form.css'
+
+interface EvidenceCheckProps {
+  onDebugUpdate: (info: unknown) => void
+  // Reads the evidence hash stored with a vendor's qualification (null when none was attached)
+  onEvidenceLookup: (roundId: number, vendorId: number) => string | null
+}
+
+export default function EvidenceCheck({ onDebugUpdate, onEvidenceLookup }: EvidenceCheckProps) {
+  const [roundId, setRoundId] = useState('1')
+  const [vendorId, setVendorId] = useState('')
+  const [files, setFiles] = useState<File[]>([])
+  const [result, setResult] = useState<Record<string, unknown> | null>(null)
+  const [loading, setLoading] = useState(false)
+
+  const handleCheck = async () => {
+    if (!roundId || !vendorId || files.length === 0) {
+      alert('Please enter round ID and vendor ID and select the evidence files')
+      return
+    }
+
+    setLoading(true)
+    try {
+      // Read the public ledger, then hash the files locally; nothing is uploaded
+      const roundNum = parseInt(roundId)
+      const vendorNum = parseInt(vendorId)
+      const stored = onEvidenceLookup(roundNum, vendorNum)
+      if (!stored) {
+        throw new Error('No evidence was attached to this qualification')
+      }
+      const computedHash = await hashEvidenceFiles(files)
+      const matches = computedHash === stored
+
+      const response = {
+        method: 'verifyEvidence',
+        params: { roundId: roundNum, vendorId: vendorNum, files: files.length },
+        result: { matches, evidenceHash: stored, computedHash },
+        timestamp: new Date().toISOString(),
+        contractCall: {
+          circuit: 'ledger.vendors',
+          input: `[${roundNum}, ${vendorNum}]`,
+          output: matches ? 'Evidence matches the stored hash' : 'Evidence does not match the stored hash',
+          privacyLevel: 'PUBLIC',
+          note: 'Files are hashed locally and never uploaded'
+        }
+      }
+
+      setResult(response)
+      onDebugUpdate(response)
+    } catch (error) {
+      const errorResponse = {
+        method: 'verifyEvidence',
+        error: error instanceof Error ? error.message : 'Unknown error',
+        timestamp: new Date().toISOString()
+      }
+      setResult(errorResponse)
+      onDebugUpdate(errorResponse)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const matched = result && !('error' in result) && (result.result as { matches: boolean }).matches
+
+  return (
+    <Card
+      badge="Audit"
+      title="🧾 Check Evidence"
+      description="Check that a set of files is the evidence bundle recorded with a vendor's approval"
+    >
+      <div className="input-group">
+        <label>Round ID</label>
+        <input
+          type="number"
+          value={roundId}
+          onChange={(e) => setRoundId(e.target.value)}
+          placeholder="e.g., 1"
+          min="0"
+          disabled={loading}
+        />
+      </div>
+
+      <div className="input-group">
+        <label>Vendor ID</label>
+        <input
+          type="number"
+          value={vendorId}
+          onChange={(e) => setVendorId(e.target.value)}
+          placeholder="e.g., 999"
+          min="0"
+          disabled={loading}
+        />
+      </div>
+
+      <div className="input-group">
+        <label>Evidence Files</label>
+        <input
+          type="file"
+          multiple
+          onChange={(e) => setFiles(Array.from(e.target.files ?? []))}
+          disabled={loading}
+        />
+        <span className="input-hint">
+          Select every file of the bundle; names and order do not matter
+        </span>
+      </div>
+
+      <button
+        onClick={handleCheck}
+        className="btn-primary"
+        disabled={loading}
+      >
+        {loading ? '⏳ Hashing...' : '→ Check Evidence'}
+      </button>
+
+      {result && (
+        <ResultBox
+          success={!!matched}
+          data={result}
+        />
+      )}
+    </Card>
+  )
+}
@@ -0,0 +1,237 @@
+import { useState } from 'react'
+import Card from './Card'
+import ResultBox from './ResultBox'
+import { chunkBatch, QUALIFICATION_BATCH_SIZE, type BatchProgress } from '../services/ContractService'
+import './Form.css'
+
+// Simulated entry of the proposals ledger map with its proposalApprovals set
+export interface QualificationProposal {
+  proposalId: number
+  roundId: number
+  vendorRef: string
+  expiresAt: Date
+  membershipCommitment: string
+  // Evidence bundle hash attached by the proposer, null when none
+  evidenceHash: string | null
+  approvedBy: string[]
+  executed: boolean
+}
+
+interface PendingProposalsProps {
+  onDebugUpdate: (info: unknown) => void
+  proposals: QualificationProposal[]
+  approvalThreshold: number
+  onApprovalThresholdChange: (threshold: number) => void
+  onApprove: (officer: string, proposalId: number) => boolean
+  // Simulates approveQualificationBatch for one chunk; returns the number of vendors recorded
+  onApproveBatch: (officer: string, proposalIds: number[]) => number
+}
+
+// Simulated proving time per transaction
+const CHUNK_DELAY_MS = 300
+
+export default function PendingProposals({
+  onDebugUpdate,
+  proposals,
+  approvalThreshold,
+  onApprovalThresholdChange,
+  onApprove,
+  onApproveBatch
+}: PendingProposalsProps) {
+  const [officer, setOfficer] = useState('')
+  const [progress, setProgress] = useState<BatchProgress | null>(null)
+  const [result, setResult] = useState<Record<string, unknown> | null>(null)
+  const [loading, setLoading] = useState(false)
+
+  const handleThresholdChange = (value: string) => {
+    const threshold = parseInt(value)
+    // Mirrors setApprovalThreshold: no single signer may qualify a vendor alone
+    if (threshold >= 2) {
+      onApprovalThresholdChange(threshold)
+    }
+  }
+
+  const handleApprove = async (proposalId: number) => {
+    if (!officer) {
+      alert('Please enter the acting officer')
+      return
+    }
+
+    setLoading(true)
+    try {
+      // Simulate smart contract call
+      const executed = onApprove(officer, proposalId)
+
+      const response = {
+        method: 'approveQualification',
+        params: { proposalId },
+        result: executed,
+        timestamp: new Date().toISOString(),
+        contractCall: {
+          circuit: 'approveQualification',
+          input: `[${proposalId}]`,
+          output: executed ? 'Approval threshold reached: vendor marked as qualified' : 'Approval counted',
+          ledgerUpdate: executed
+            ? `proposalApprovals[${proposalId}].insert(${officer}); vendors[roundId].insert(vendorRef, { ... })`
+            : `proposalApprovals[${proposalId}].insert(${officer})`,
+          authorization: `Officer ${officer}`
+        }
+      }
+
+      setResult(response)
+      onDebugUpdate(response)
+    } catch (error) {
+      const errorResponse = {
+        method: 'approveQualification',
+        error: error instanceof Error ? error.message : 'Unknown error',
+        timestamp: new Date().toISOString()
+      }
+      setResult(errorResponse)
+      onDebugUpdate(errorResponse)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  // Approves every pending proposal the acting officer has not approved yet, one chunk per transaction
+  const handleApproveAll = async () => {
+    if (!officer) {
+      alert('Please enter the acting officer')
+      return
+    }
+    const proposalIds = proposals
+      .filter(p => !p.approvedBy.includes(officer))
+      .map(p => p.proposalId)
+    if (proposalIds.length === 0) {
+      alert('No pending proposals left for this officer to approve')
+      return
+    }
+
+    setLoading(true)
+    setProgress(null)
+    const chunks = chunkBatch(proposalIds)
+    let approved = 0
+    let recorded = 0
+    try {
+      // Simulate one smart contract call per chunk; a failed chunk stops the batch
+      for (const [index, chunk] of chunks.entries()) {
+        await new Promise((resolve) => setTimeout(resolve, CHUNK_DELAY_MS))
+        try {
+          recorded += onApproveBatch(officer, chunk)
+        } catch (error) {
+          throw new Error(`Chunk ${index + 1} of ${chunks.length} failed: ${error instanceof Error ? error.message : 'Unknown error'}`)
+        }
+        approved += chunk.length
+        setProgress({ chunk: index + 1, chunks: chunks.length, processed: approved, total: proposalIds.length })
+      }
+
+      const response = {
+        method: 'approveQualificationBatch',
+        params: { proposals: proposalIds.length },
+        result: { approved, recorded },
+        timestamp: new Date().toISOString(),
+        contractCall: {
+          circuit: 'approveQualificationBatch',
+          input: `${chunks.length} transaction(s) of up to ${QUALIFICATION_BATCH_SIZE} proposals`,
+          output: `${approved} approval(s) counted, ${recorded} vendor(s) marked as qualified`,
+          ledgerUpdate: `proposalApprovals[proposalId].insert(${officer}) per proposal; vendors[roundId].insert(vendorRef, { ... }) once k is reached`,
+          authorization: `Officer ${officer}`
+        }
+      }
+
+      setResult(response)
+      onDebugUpdate(response)
+    } catch (error) {
+      const errorResponse = {
+        method: 'approveQualificationBatch',
+        result: { approved, recorded },
+        error: error instanceof Error ? error.message : 'Unknown error',
+        timestamp: new Date().toISOString()
+      }
+      setResult(errorResponse)
+      onDebugUpdate(errorResponse)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <Card
+      badge="Circuit 3a"
+      title="🗳 Pending Approvals"
+      description="Officers approve proposed qualifications; the k-th approval records the vendor"
+    >
+      <div className="input-group">
+        <label>Acting Officer</label>
+        <input
+          type="text"
+          value={officer}
+          onChange={(e) => setOfficer(e.target.value)}
+          placeholder="e.g., officer-b"
+          disabled={loading}
+        />
+      </div>
+
+      <div className="input-group">
+        <label>Approvals Required (k)</label>
+        <input
+          type="number"
+          value={approvalThreshold}
+          onChange={(e) => handleThresholdChange(e.target.value)}
+          min="2"
+          disabled={loading}
+        />
+      </div>
+
+      {proposals.length === 0 && (
+        <span className="input-hint">No proposals awaiting approval</span>
+      )}
+
+      {proposals.length > 1 && (
+        <div className="input-group">
+          <button
+            type="button"
+            onClick={handleApproveAll}
+            className="btn-secondary"
+            disabled={loading}
+          >
+            ✔ Approve All
+          </button>
+          {progress && (
+            <span className="input-hint">
+              Chunk {progress.chunk} of {progress.chunks} · {progress.processed} of {progress.total} approvals counted
+            </span>
+          )}
+        </div>
+      )}
+
+      {proposals.map((proposal) => (
+        <div className="input-group" key={proposal.proposalId}>
+          <label>
+            Proposal {proposal.proposalId}: vendor {proposal.vendorRef.slice(0, 16)}... in round {proposal.roundId}
+          </label>
+          <span className="input-hint">
+            {proposal.approvedBy.length} of {approvalThreshold} approvals ({proposal.approvedBy.join(', ')}) ·
+            valid until {proposal.expiresAt.toISOString().slice(0, 10)} ·
+            {proposal.evidenceHash ? ` evidence ${proposal.evidenceHash.slice(0, 16)}...` : ' no evidence'}
+          </span>
+          <button
+            type="button"
+            onClick={() => handleApprove(proposal.proposalId)}
+            className="btn-secondary"
+            disabled={loading}
+          >
+            ✔ Approve
+          </button>
+        </div>
+      ))}
+
+      {result && (
+        <ResultBox
+          success={!('error' in result)}
+          data={result}
+        />
+      )}
+    </Card>
+  )
+}
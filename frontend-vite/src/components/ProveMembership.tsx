@@ -0,0 +1,126 @@
+import { useState } from 'react'
+import Card from './Card'
+import ResultBox from './ResultBox'
+import { bytesToHex } from '../services/ContractService'
+import './Form.css'
+
+interface ProveMembershipProps {
+  onDebugUpdate: (info: unknown) => void
+  onMembershipProof: (roundId: number, membershipCommitment: string) => void
+}
+
+export default function ProveMembership({ onDebugUpdate, onMembershipProof }: ProveMembershipProps) {
+  // Simulated private state: the secret never leaves this component
+  const [membershipSecret, setMembershipSecret] = useState<string | null>(null)
+  const [membershipCommitment, setMembershipCommitment] = useState<string | null>(null)
+  const [roundId, setRoundId] = useState('1')
+  const [result, setResult] = useState<Record<string, unknown> | null>(null)
+  const [loading, setLoading] = useState(false)
+
+  const computeMembershipCommitment = async (secret: string) => {
+    const preimage = new TextEncoder().encode(`blinding:member:${secret}`)
+    return bytesToHex(new Uint8Array(await crypto.subtle.digest('SHA-256', preimage)))
+  }
+
+  const handleCreateKey = async () => {
+    const secret = bytesToHex(crypto.getRandomValues(new Uint8Array(32)))
+    setMembershipSecret(secret)
+    setMembershipCommitment(await computeMembershipCommitment(secret))
+  }
+
+  const handleProve = async () => {
+    if (!membershipSecret || !membershipCommitment || !roundId) {
+      alert('Please generate a membership key and enter a round ID')
+      return
+    }
+
+    setLoading(true)
+    try {
+      // Simulate smart contract call
+      // Only the round id and a nullifier are public; the vendor id is never sent
+      const roundNum = parseInt(roundId)
+      onMembershipProof(roundNum, membershipCommitment)
+
+      const response = {
+        method: 'proveMembership',
+        params: { roundId: roundNum },
+        result: true,
+        timestamp: new Date().toISOString(),
+        contractCall: {
+          circuit: 'proveMembership',
+          input: `[${roundNum}]`,
+          output: 'Membership proven',
+          ledgerUpdate: 'membershipNullifiers.insert(nullifier)',
+          privacyLevel: 'FULL_ZERO_KNOWLEDGE'
+        }
+      }
+
+      setResult(response)
+      onDebugUpdate(response)
+    } catch (error) {
+      const errorResponse = {
+        method: 'proveMembership',
+        error: error instanceof Error ? error.message : 'Unknown error',
+        timestamp: new Date().toISOString()
+      }
+      setResult(errorResponse)
+      onDebugUpdate(errorResponse)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <Card
+      badge="Circuit 5"
+      title="🕶 Prove Membership"
+      description="Prove you are in a round's qualified set without revealing your vendor ID"
+    >
+      <button
+        type="button"
+        onClick={handleCreateKey}
+        className="btn-secondary"
+        disabled={loading}
+      >
+        🔑 Generate Membership Key
+      </button>
+
+      <div className="input-group">
+        <label>Membership Commitment (give to procurement)</label>
+        <input
+          type="text"
+          value={membershipCommitment ?? ''}
+          placeholder="Generate a membership key first"
+          readOnly
+        />
+      </div>
+
+      <div className="input-group">
+        <label>Round ID</label>
+        <input
+          type="number"
+          value={roundId}
+          onChange={(e) => setRoundId(e.target.value)}
+          placeholder="e.g., 1"
+          min="0"
+          disabled={loading}
+        />
+      </div>
+
+      <button
+        onClick={handleProve}
+        className="btn-primary"
+        disabled={loading}
+      >
+        {loading ? '⏳ Proving...' : '→ Prove Membership'}
+      </button>
+
+      {result && (
+        <ResultBox
+          success={!('error' in result)}
+          data={result}
+        />
+      )}
+    </Card>
+  )
+}
@@ -0,0 +1,72 @@
+import Card from './Card'
+import { useQualificationStatistics } from '../hooks/useContractMethods'
+import './Form.css'
+
+// How often the counters are re-read from the ledger while connected
+const REFRESH_INTERVAL_MS = 15_000
+
+interface QualificationStatsProps {
+  // True once App bound a contract and ledger reader to the service
+  connected: boolean
+}
+
+export default function QualificationStats({ connected }: QualificationStatsProps) {
+  // qualifiedCount / revokedCount (per round) and profileQualifications, read through the
+  // service's ledger reader; counts only, no vendor is ever read
+  const { fetchStatistics, statistics, loading, error } = useQualificationStatistics(
+    connected ? REFRESH_INTERVAL_MS : undefined
+  )
+
+  return (
+    <Card
+      badge="Public Ledger"
+      title="📊 Qualification Statistics"
+      description="Aggregate counts per round and compliance profile; no vendor is ever identified"
+    >
+      {!connected && (
+        <span className="input-hint">Not connected to a deployed contract; no ledger to read</span>
+      )}
+
+      {error && <span className="input-hint">Could not read the ledger: {error}</span>}
+
+      {statistics && (
+        <>
+          <div className="input-group">
+            <label>All Rounds</label>
+            <span className="input-hint">
+              {statistics.totalQualified} qualified · {statistics.totalRevoked} revoked
+            </span>
+          </div>
+
+          {statistics.rounds.length === 0 && (
+            <span className="input-hint">No procurement rounds yet</span>
+          )}
+
+          {statistics.rounds.map((round) => (
+            <div className="input-group" key={`round-${round.roundId}`}>
+              <label>Round {round.roundId}</label>
+              <span className="input-hint">
+                {round.qualified} qualified · {round.revoked} revoked
+              </span>
+            </div>
+          ))}
+
+          {statistics.profiles.map((profile) => (
+            <div className="input-group" key={`profile-${profile.profileId}`}>
+              <label>Compliance Profile {profile.profileId}</label>
+              <span className="input-hint">{profile.qualifications} qualification(s) recorded</span>
+            </div>
+          ))}
+        </>
+      )}
+
+      <button
+        onClick={() => fetchStatistics()}
+        className="btn-secondary"
+        disabled={!connected || loading}
+      >
+        {loading ? '⏳ Refreshing...' : '🔄 Refresh'}
+      </button>
+    </Card>
+  )
+}
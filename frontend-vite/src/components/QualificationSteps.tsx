@@ -0,0 +1,104 @@
+import { useState } from 'react'
+import Card from './Card'
+import type { QualificationProposal } from './PendingProposals'
+import './Form.css'
+
+// Simulated entry of the proofReceipts ledger map (expiries in ms, 0 = not proven)
+export interface ProofReceipt {
+  qualifiedUntil: number
+  compliantUntil: number
+  profileId: number
+}
+
+interface QualificationStepsProps {
+  // Vendor references derived at enrolment (vendorId -> vendorRef)
+  vendorRefs: Map<number, string>
+  // Keyed by `${roundId}:${vendorRef}`
+  proofReceipts: Map<string, ProofReceipt>
+  proposals: QualificationProposal[]
+  onStatusCheck: (roundId: number, vendorId: number) => boolean
+}
+
+export default function QualificationSteps({
+  vendorRefs,
+  proofReceipts,
+  proposals,
+  onStatusCheck
+}: QualificationStepsProps) {
+  const [roundId, setRoundId] = useState('1')
+  const [vendorId, setVendorId] = useState('')
+
+  const roundNum = parseInt(roundId)
+  const vendorNum = parseInt(vendorId)
+  const vendorRef = vendorRefs.get(vendorNum)
+  const selected = !Number.isNaN(roundNum) && !!vendorRef
+  const receipt = selected ? proofReceipts.get(`${roundNum}:${vendorRef}`) : undefined
+  const now = Date.now()
+  const qualified = !!receipt && now < receipt.qualifiedUntil
+  const compliant = !!receipt && now < receipt.compliantUntil
+  const recorded = selected && onStatusCheck(roundNum, vendorNum)
+  const pending = selected && proposals.find(p => p.roundId === roundNum && p.vendorRef === vendorRef && !p.executed)
+
+  const until = (expiry: number) => `fresh until ${new Date(expiry).toLocaleString()}`
+
+  return (
+    <Card
+      badge="Circuits 1 → 3"
+      title="🧭 Qualification Steps"
+      description="Follow one vendor through verification, compliance and the officers' proposal in order"
+    >
+      <div className="input-group">
+        <label>Round ID</label>
+        <input
+          type="number"
+          value={roundId}
+          onChange={(e) => setRoundId(e.target.value)}
+          placeholder="e.g., 1"
+          min="0"
+        />
+      </div>
+
+      <div className="input-group">
+        <label>Vendor ID</label>
+        <input
+          type="number"
+          value={vendorId}
+          onChange={(e) => setVendorId(e.target.value)}
+          placeholder="e.g., 999"
+          min="0"
+        />
+      </div>
+
+      <div className="input-group">
+        <label>{qualified ? '✅' : '1️⃣'} Verify Qualification</label>
+        <span className="input-hint">
+          {qualified
+            ? `Receipt recorded, ${until(receipt!.qualifiedUntil)}`
+            : 'Vendor proves its weighted score in Circuit 1 for this round'}
+        </span>
+      </div>
+
+      <div className="input-group">
+        <label>{compliant ? '✅' : '2️⃣'} Check Compliance</label>
+        <span className="input-hint">
+          {compliant
+            ? `Profile ${receipt!.profileId} proven, ${until(receipt!.compliantUntil)}`
+            : 'Vendor proves its compliance profile in Circuit 2 for this round'}
+        </span>
+      </div>
+
+      <div className="input-group">
+        <label>{recorded ? '✅' : '3️⃣'} Propose & Approve Qualification</label>
+        <span className="input-hint">
+          {recorded
+            ? 'Qualification recorded; the receipt was consumed'
+            : pending
+              ? `Proposal ${pending.proposalId} awaiting approvals`
+              : qualified && compliant
+                ? 'Ready: an officer can propose this vendor in Circuit 3'
+                : 'Locked until steps 1 and 2 have fresh receipts'}
+        </span>
+      </div>
+    </Card>
+  )
+}
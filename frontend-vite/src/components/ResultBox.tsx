@@ -67,6 +67,15 @@ export default function ResultBox({ success, data }: ResultBoxProps) {
           </div>
         )}
 
+        {data.contractCall?.tier && (
+          <div className="result-item highlight">
+            <span className="result-label">Tier:</span>
+            <span className={`tier-badge ${data.contractCall.tier}`}>
+              {data.contractCall.tier}
+            </span>
+          </div>
+        )}
+
         {data.contractCall?.ledgerUpdate && (
           <div className="result-item">
             <span className="result-label">Ledger Update:</span>
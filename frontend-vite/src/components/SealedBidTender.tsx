@@ -0,0 +1,462 @@
+import { useEffect, useState } from 'react'
+import Card from './Card'
+import ResultBox from './ResultBox'
+import { bytesToHex } from '../services/ContractService'
+import './Form.css'
+
+interface SealedBidTenderProps {
+  onDebugUpdate: (info: unknown) => void
+  onStatusCheck: (roundId: number, vendorId: number) => boolean
+}
+
+// Simulated entry of the tenders ledger map, with its bidCommitments and revealedBids
+// Bids are keyed by bidder tag, never by vendor id
+interface TenderRecord {
+  biddingEndsAt: number
+  revealEndsAt: number
+  commitments: Map<string, string>
+  revealed: Map<string, number>
+  winner: { bidder: string; amount: number } | null
+  finalized: boolean
+}
+
+// Simulated private state: each vendor's bid stays local until it is revealed
+interface PrivateBid {
+  amount: number
+  salt: string
+}
+
+const sha256Hex = async (text: string) =>
+  bytesToHex(new Uint8Array(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text))))
+
+// Stands in for bidderTag(roundId, membershipSecret); the simulation has no membership secret,
+// so the vendor id plays that part locally and never appears in the ledger updates
+const computeBidderTag = (roundId: number, vendorId: number) =>
+  sha256Hex(`blinding:bidder-tag:${roundId}:${vendorId}`)
+
+const computeBidCommitment = (roundId: number, bidder: string, bid: PrivateBid) =>
+  sha256Hex(`blinding:bid-commitment:${roundId}:${bidder}:${bid.amount}:${bid.salt}`)
+
+const tenderPhase = (tender: TenderRecord, now: number) => {
+  if (tender.finalized) return 'finalized'
+  if (now < tender.biddingEndsAt) return 'bidding'
+  if (now < tender.revealEndsAt) return 'revealing'
+  return 'awaiting-finalization'
+}
+
+export default function SealedBidTender({ onDebugUpdate, onStatusCheck }: SealedBidTenderProps) {
+  const [tenders, setTenders] = useState<Map<number, TenderRecord>>(new Map())
+  const [privateBids, setPrivateBids] = useState<Map<string, PrivateBid>>(new Map())
+  const [roundId, setRoundId] = useState('1')
+  const [biddingMinutes, setBiddingMinutes] = useState('2')
+  const [revealMinutes, setRevealMinutes] = useState('2')
+  const [vendorId, setVendorId] = useState('')
+  const [bidAmount, setBidAmount] = useState('')
+  const [openResult, setOpenResult] = useState<Record<string, unknown> | null>(null)
+  const [bidResult, setBidResult] = useState<Record<string, unknown> | null>(null)
+  const [finalizeResult, setFinalizeResult] = useState<Record<string, unknown> | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [now, setNow] = useState(Date.now())
+
+  // Re-render every second so the tender phase follows the bidding and reveal windows
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 1000)
+    return () => clearInterval(timer)
+  }, [])
+
+  const roundNum = parseInt(roundId)
+  const tender = tenders.get(roundNum)
+
+  const updateTender = (round: number, update: Partial<TenderRecord>) => {
+    setTenders(prev => {
+      const current = prev.get(round)
+      return current ? new Map(prev).set(round, { ...current, ...update }) : prev
+    })
+  }
+
+  const handleOpen = async () => {
+    if (!roundId || !biddingMinutes || !revealMinutes) {
+      alert('Please enter round ID and both window lengths')
+      return
+    }
+
+    setLoading(true)
+    try {
+      // Simulate smart contract call
+      if (tenders.has(roundNum)) {
+        throw new Error('Tender already opened for procurement round')
+      }
+      const biddingEndsAt = Date.now() + parseFloat(biddingMinutes) * 60_000
+      const revealEndsAt = biddingEndsAt + parseFloat(revealMinutes) * 60_000
+      if (!(revealEndsAt > biddingEndsAt) || !(biddingEndsAt > Date.now())) {
+        throw new Error('Both windows must be longer than zero')
+      }
+      setTenders(prev => new Map(prev).set(roundNum, {
+        biddingEndsAt,
+        revealEndsAt,
+        commitments: new Map(),
+        revealed: new Map(),
+        winner: null,
+        finalized: false
+      }))
+
+      const biddingSeconds = Math.floor(biddingEndsAt / 1000)
+      const revealSeconds = Math.floor(revealEndsAt / 1000)
+      const response = {
+        method: 'openTender',
+        params: { roundId: roundNum, biddingEndsAt: new Date(biddingEndsAt).toISOString(), revealEndsAt: new Date(revealEndsAt).toISOString() },
+        result: null,
+        timestamp: new Date().toISOString(),
+        contractCall: {
+          circuit: 'openTender',
+          input: `[${roundNum}, ${biddingSeconds}, ${revealSeconds}]`,
+          output: 'Tender opened for sealed bids',
+          ledgerUpdate: `tenders.insert(${roundNum}, { biddingEndsAt: ${biddingSeconds}, revealEndsAt: ${revealSeconds}, ... })`
+        }
+      }
+
+      setOpenResult(response)
+      onDebugUpdate(response)
+    } catch (error) {
+      const errorResponse = {
+        method: 'openTender',
+        error: error instanceof Error ? error.message : 'Unknown error',
+        timestamp: new Date().toISOString()
+      }
+      setOpenResult(errorResponse)
+      onDebugUpdate(errorResponse)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleCommit = async () => {
+    if (!roundId || !vendorId || !bidAmount) {
+      alert('Please enter round ID, vendor ID and bid amount')
+      return
+    }
+
+    setLoading(true)
+    try {
+      // Simulate smart contract call
+      const vendorNum = parseInt(vendorId)
+      const amount = parseInt(bidAmount)
+      if (!tender) {
+        throw new Error('No tender for procurement round')
+      }
+      if (Date.now() >= tender.biddingEndsAt) {
+        throw new Error('Bidding window has closed')
+      }
+      if (!onStatusCheck(roundNum, vendorNum)) {
+        throw new Error('Vendor is not qualified in this procurement round')
+      }
+      if (!(amount > 0)) {
+        throw new Error('Bid amount must be a positive whole number')
+      }
+      const bid = { amount, salt: bytesToHex(crypto.getRandomValues(new Uint8Array(32))) }
+      const bidder = await computeBidderTag(roundNum, vendorNum)
+      const commitment = await computeBidCommitment(roundNum, bidder, bid)
+      setPrivateBids(prev => new Map(prev).set(`${roundNum}:${vendorNum}`, bid))
+      updateTender(roundNum, { commitments: new Map(tender.commitments).set(bidder, commitment) })
+
+      const response = {
+        method: 'commitBid',
+        params: { roundId: roundNum },
+        result: null,
+        timestamp: new Date().toISOString(),
+        contractCall: {
+          circuit: 'commitBid',
+          input: `[${roundNum}]`,
+          output: 'Sealed bid committed',
+          zkProof: 'Proves a leaf of qualifiedMembers belongs to the bidder without revealing which',
+          ledgerUpdate: `bidCommitments[${roundNum}].insert(${bidder.slice(0, 16)}..., ${commitment.slice(0, 16)}...)`,
+          privacyLevel: 'PRIVACY_PRESERVING',
+          note: 'Bid amount stays in private state until revealBid'
+        }
+      }
+
+      setBidResult(response)
+      onDebugUpdate(response)
+      setBidAmount('')
+    } catch (error) {
+      const errorResponse = {
+        method: 'commitBid',
+        error: error instanceof Error ? error.message : 'Unknown error',
+        timestamp: new Date().toISOString()
+      }
+      setBidResult(errorResponse)
+      onDebugUpdate(errorResponse)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleReveal = async () => {
+    if (!roundId || !vendorId) {
+      alert('Please enter round ID and vendor ID')
+      return
+    }
+
+    setLoading(true)
+    try {
+      // Simulate smart contract call
+      const vendorNum = parseInt(vendorId)
+      const bid = privateBids.get(`${roundNum}:${vendorNum}`)
+      const bidder = await computeBidderTag(roundNum, vendorNum)
+      if (!tender) {
+        throw new Error('No tender for procurement round')
+      }
+      if (Date.now() < tender.biddingEndsAt) {
+        throw new Error('Bidding window is still open')
+      }
+      if (Date.now() >= tender.revealEndsAt) {
+        throw new Error('Reveal window has closed')
+      }
+      if (!tender.commitments.has(bidder) || !bid) {
+        throw new Error('No sealed bid from this bidder')
+      }
+      if (tender.revealed.has(bidder)) {
+        throw new Error('Bid already revealed')
+      }
+      if (!onStatusCheck(roundNum, vendorNum)) {
+        throw new Error('Vendor is not qualified in this procurement round')
+      }
+      if (tender.commitments.get(bidder) !== await computeBidCommitment(roundNum, bidder, bid)) {
+        throw new Error('Bid does not match the sealed commitment')
+      }
+      const winner = !tender.winner || bid.amount < tender.winner.amount
+        ? { bidder, amount: bid.amount }
+        : tender.winner
+      updateTender(roundNum, { revealed: new Map(tender.revealed).set(bidder, bid.amount), winner })
+
+      const response = {
+        method: 'revealBid',
+        params: { roundId: roundNum },
+        result: bid.amount,
+        timestamp: new Date().toISOString(),
+        contractCall: {
+          circuit: 'revealBid',
+          input: `[${roundNum}]`,
+          output: `Bid revealed: ${bid.amount}`,
+          ledgerUpdate: `revealedBids[${roundNum}].insert(${bidder.slice(0, 16)}..., ${bid.amount})`
+        }
+      }
+
+      setBidResult(response)
+      onDebugUpdate(response)
+    } catch (error) {
+      const errorResponse = {
+        method: 'revealBid',
+        error: error instanceof Error ? error.message : 'Unknown error',
+        timestamp: new Date().toISOString()
+      }
+      setBidResult(errorResponse)
+      onDebugUpdate(errorResponse)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleFinalize = async () => {
+    if (!roundId) {
+      alert('Please enter round ID')
+      return
+    }
+
+    setLoading(true)
+    try {
+      // Simulate smart contract call
+      if (!tender) {
+        throw new Error('No tender for procurement round')
+      }
+      if (tender.finalized) {
+        throw new Error('Tender already finalized')
+      }
+      if (Date.now() < tender.revealEndsAt) {
+        throw new Error('Reveal window is still open')
+      }
+      updateTender(roundNum, { finalized: true })
+
+      const response = {
+        method: 'finalizeTender',
+        params: { roundId: roundNum },
+        result: tender.winner,
+        timestamp: new Date().toISOString(),
+        contractCall: {
+          circuit: 'finalizeTender',
+          input: `[${roundNum}]`,
+          output: tender.winner
+            ? `Awarded to bidder ${tender.winner.bidder.slice(0, 16)}... at ${tender.winner.amount}`
+            : 'Tender closed without valid bids',
+          ledgerUpdate: `tenders.insert(${roundNum}, { ..., finalized: true })`
+        }
+      }
+
+      setFinalizeResult(response)
+      onDebugUpdate(response)
+    } catch (error) {
+      const errorResponse = {
+        method: 'finalizeTender',
+        error: error instanceof Error ? error.message : 'Unknown error',
+        timestamp: new Date().toISOString()
+      }
+      setFinalizeResult(errorResponse)
+      onDebugUpdate(errorResponse)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const roundInput = (
+    <div className="input-group">
+      <label>Round ID</label>
+      <input
+        type="number"
+        value={roundId}
+        onChange={(e) => setRoundId(e.target.value)}
+        placeholder="e.g., 1"
+        min="0"
+        disabled={loading}
+      />
+      {tender && (
+        <span className="input-hint">
+          Phase: {tenderPhase(tender, now)} · {tender.commitments.size} sealed, {tender.revealed.size} revealed
+        </span>
+      )}
+    </div>
+  )
+
+  return (
+    <div style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fit, minmax(350px, 1fr))', gap: '25px' }}>
+      <Card
+        badge="Circuit 6"
+        title="📣 Open Tender"
+        description="Open a sealed-bid tender for the round's qualified vendors"
+      >
+        {roundInput}
+
+        <div className="input-group">
+          <label>Bidding Window (minutes)</label>
+          <input
+            type="number"
+            value={biddingMinutes}
+            onChange={(e) => setBiddingMinutes(e.target.value)}
+            min="1"
+            disabled={loading}
+          />
+        </div>
+
+        <div className="input-group">
+          <label>Reveal Window (minutes)</label>
+          <input
+            type="number"
+            value={revealMinutes}
+            onChange={(e) => setRevealMinutes(e.target.value)}
+            min="1"
+            disabled={loading}
+          />
+        </div>
+
+        <button
+          onClick={handleOpen}
+          className="btn-primary"
+          disabled={loading}
+        >
+          {loading ? '⏳ Opening...' : '→ Open Tender'}
+        </button>
+
+        {openResult && (
+          <ResultBox
+            success={!('error' in openResult)}
+            data={openResult}
+          />
+        )}
+      </Card>
+
+      <Card
+        badge="Circuit 6b"
+        title="✉ Sealed Bid"
+        description="Commit a hidden bid while bidding is open, then reveal it in the reveal window"
+      >
+        {roundInput}
+
+        <div className="input-group">
+          <label>Vendor ID (local only, never sent to the contract)</label>
+          <input
+            type="number"
+            value={vendorId}
+            onChange={(e) => setVendorId(e.target.value)}
+            placeholder="e.g., 1"
+            min="0"
+            disabled={loading}
+          />
+        </div>
+
+        <div className="input-group">
+          <label>Bid Amount (private until revealed)</label>
+          <input
+            type="number"
+            value={bidAmount}
+            onChange={(e) => setBidAmount(e.target.value)}
+            placeholder="e.g., 125000"
+            min="1"
+            disabled={loading}
+          />
+        </div>
+
+        <button
+          onClick={handleCommit}
+          className="btn-primary"
+          disabled={loading}
+        >
+          {loading ? '⏳ Committing...' : '→ Commit Sealed Bid'}
+        </button>
+
+        <button
+          type="button"
+          onClick={handleReveal}
+          className="btn-secondary"
+          disabled={loading}
+        >
+          🔓 Reveal Bid
+        </button>
+
+        {bidResult && (
+          <ResultBox
+            success={!('error' in bidResult)}
+            data={bidResult}
+          />
+        )}
+      </Card>
+
+      <Card
+        badge="Circuit 6c"
+        title="🏆 Award Tender"
+        description="Finalize after the reveal window; the lowest revealed bid wins"
+      >
+        {roundInput}
+
+        {tender?.winner && (
+          <span className="input-hint">
+            {tender.finalized ? 'Winner' : 'Lowest bid so far'}: bidder {tender.winner.bidder.slice(0, 16)}... at {tender.winner.amount}
+          </span>
+        )}
+
+        <button
+          onClick={handleFinalize}
+          className="btn-primary"
+          disabled={loading}
+        >
+          {loading ? '⏳ Finalizing...' : '→ Finalize Tender'}
+        </button>
+
+        {finalizeResult && (
+          <ResultBox
+            success={!('error' in finalizeResult)}
+            data={finalizeResult}
+          />
+        )}
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,183 @@
+import { useState } from 'react'
+import Card from './Card'
+import ResultBox from './ResultBox'
+import { bytesToHex } from '../services/ContractService'
+import './Form.css'
+
+interface VendorEnrolmentProps {
+  onDebugUpdate: (info: unknown) => void
+  // Simulated vendorKeys ledger map (vendorRef -> public key)
+  vendorKeys: Map<string, string>
+  // Vendor references derived at enrolment (vendorId -> vendorRef)
+  vendorRefs: Map<number, string>
+  onVendorKeyCreated: (publicKey: string) => void
+  // Derives the vendor reference and enrols it; returns the reference
+  onEnrol: (vendorId: number, publicKey: string) => Promise<string>
+  // Returns the vendor reference whose key was replaced
+  onRotate: (vendorId: number, currentKey: string, newKey: string) => string
+}
+
+export default function VendorEnrolment({
+  onDebugUpdate,
+  vendorKeys,
+  vendorRefs,
+  onVendorKeyCreated,
+  onEnrol,
+  onRotate
+}: VendorEnrolmentProps) {
+  // Simulated private state: the secret key never leaves this component
+  const [vendorSecret, setVendorSecret] = useState<string | null>(null)
+  const [vendorPublicKey, setVendorPublicKey] = useState<string | null>(null)
+  const [vendorId, setVendorId] = useState('')
+  const [result, setResult] = useState<Record<string, unknown> | null>(null)
+  const [loading, setLoading] = useState(false)
+
+  const computePublicKey = async (secret: string) => {
+    const preimage = new TextEncoder().encode(`blinding:pk:${secret}`)
+    return bytesToHex(new Uint8Array(await crypto.subtle.digest('SHA-256', preimage)))
+  }
+
+  const createKey = async () => {
+    const secret = bytesToHex(crypto.getRandomValues(new Uint8Array(32)))
+    return { secret, publicKey: await computePublicKey(secret) }
+  }
+
+  const handleCreateKey = async () => {
+    const key = await createKey()
+    setVendorSecret(key.secret)
+    setVendorPublicKey(key.publicKey)
+    onVendorKeyCreated(key.publicKey)
+  }
+
+  const vendorRef = vendorId ? vendorRefs.get(parseInt(vendorId)) : undefined
+  const enrolled = vendorRef ? vendorKeys.get(vendorRef) : undefined
+
+  const runCall = async (method: string, call: (vendorNum: number) => Promise<Record<string, unknown>>) => {
+    if (!vendorSecret || !vendorPublicKey || !vendorId) {
+      alert('Please generate a vendor key and enter a vendor ID')
+      return
+    }
+
+    setLoading(true)
+    try {
+      // Simulate smart contract call
+      const contractCall = await call(parseInt(vendorId))
+      const response = {
+        method,
+        params: { vendorId },
+        timestamp: new Date().toISOString(),
+        contractCall: { circuit: method, ...contractCall }
+      }
+
+      setResult(response)
+      onDebugUpdate(response)
+    } catch (error) {
+      const errorResponse = {
+        method,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        timestamp: new Date().toISOString()
+      }
+      setResult(errorResponse)
+      onDebugUpdate(errorResponse)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  // Procurement enrols the vendor's reference with the public key the vendor handed over
+  const handleEnrol = () => runCall('enrolVendor', async (vendorNum) => {
+    const ref = await onEnrol(vendorNum, vendorPublicKey!)
+    return {
+      input: `[${ref.slice(0, 16)}..., ${vendorPublicKey!.slice(0, 16)}...]`,
+      output: 'Vendor enrolled',
+      ledgerUpdate: `vendorKeys.insert(${ref.slice(0, 16)}..., vendorKey)`,
+      authorization: 'Procurement authority'
+    }
+  })
+
+  // The vendor proves the current key and switches to a fresh one
+  const handleRotate = () => runCall('rotateVendorKey', async (vendorNum) => {
+    const next = await createKey()
+    const ref = onRotate(vendorNum, await computePublicKey(vendorSecret!), next.publicKey)
+    setVendorSecret(next.secret)
+    setVendorPublicKey(next.publicKey)
+    return {
+      input: `[${ref.slice(0, 16)}..., ${next.publicKey.slice(0, 16)}...]`,
+      output: 'Vendor key rotated',
+      ledgerUpdate: `vendorKeys.insert(${ref.slice(0, 16)}..., newKey)`,
+      authorization: "Proof of the vendor's current key"
+    }
+  })
+
+  return (
+    <Card
+      badge="Vendor Keys"
+      title="🪪 Vendor Enrolment"
+      description="Bind a vendor ID to the vendor's key so only that vendor can prove for it"
+    >
+      <button
+        type="button"
+        onClick={handleCreateKey}
+        className="btn-secondary"
+        disabled={loading}
+      >
+        🔑 Generate Vendor Key
+      </button>
+
+      <div className="input-group">
+        <label>Vendor Public Key (give to procurement)</label>
+        <input
+          type="text"
+          value={vendorPublicKey ?? ''}
+          placeholder="Generate a vendor key first"
+          readOnly
+        />
+      </div>
+
+      <div className="input-group">
+        <label>Vendor ID</label>
+        <input
+          type="number"
+          value={vendorId}
+          onChange={(e) => setVendorId(e.target.value)}
+          placeholder="e.g., 999"
+          min="0"
+          disabled={loading}
+        />
+        {vendorId && (
+          <span className="input-hint">
+            {!enrolled
+              ? 'Not enrolled'
+              : enrolled === vendorPublicKey
+                ? 'Enrolled with this key'
+                : 'Enrolled with a different key'}
+          </span>
+        )}
+      </div>
+
+      <button
+        onClick={handleEnrol}
+        className="btn-primary"
+        disabled={loading}
+      >
+        {loading ? '⏳ Processing...' : '🏛 Enrol Vendor'}
+      </button>
+
+      <button
+        type="button"
+        onClick={handleRotate}
+        className="btn-secondary"
+        disabled={loading}
+      >
+        🔄 Rotate Key
+      </button>
+
+      {result && (
+        <ResultBox
+          success={!('error' in result)}
+          data={result}
+        />
+      )}
+    </Card>
+  )
+}
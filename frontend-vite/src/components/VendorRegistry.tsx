@@ -1,55 +1,120 @@
 import { useState } from 'react'
 import Card from './Card'
 import ResultBox from './ResultBox'
+import { hashEvidenceFiles, type VendorTier } from '../services/ContractService'
 import './Form.css'
 
+// Identity a status query is made as; key ownership is what the circuit checks
+export type StatusQueryCaller =
+  | { role: 'vendor'; publicKey: string | null }
+  | { role: 'officer'; officer: string }
+  | { role: 'anonymous' }
+
 interface VendorRegistryProps {
   onDebugUpdate: (info: any) => void
-  onQualificationRecord: (vendorId: number) => void
-  onStatusCheck: (vendorId: number) => boolean
+  onQualificationPropose: (
+    officer: string,
+    roundId: number,
+    vendorId: number,
+    expiresAt: Date,
+    membershipCommitment: string,
+    evidenceHash: string | null
+  ) => number
+  onQualificationRevoke: (roundId: number, vendorId: number) => boolean
+  onStatusCheck: (roundId: number, vendorId: number) => boolean
+  onTierLookup: (roundId: number, vendorId: number) => Promise<VendorTier>
+  // Public key of the vendor key held in this browser (null until one is generated)
+  vendorPublicKey: string | null
+  // Simulates assertStatusReader: throws unless the caller may see the vendor's status
+  onStatusReaderCheck: (caller: StatusQueryCaller, vendorId: number) => void
+}
+
+const defaultExpiry = () => {
+  const date = new Date()
+  date.setFullYear(date.getFullYear() + 1)
+  return date.toISOString().slice(0, 10)
 }
 
 export default function VendorRegistry({ 
   onDebugUpdate, 
-  onQualificationRecord,
-  onStatusCheck 
+  onQualificationPropose,
+  onQualificationRevoke,
+  onStatusCheck,
+  onTierLookup,
+  vendorPublicKey,
+  onStatusReaderCheck
 }: VendorRegistryProps) {
+  const [roundId, setRoundId] = useState('1')
+  const [officer, setOfficer] = useState('')
   const [recordVendorId, setRecordVendorId] = useState('')
+  const [expiresAt, setExpiresAt] = useState(defaultExpiry())
+  const [membershipCommitment, setMembershipCommitment] = useState('')
+  // Hash of the selected evidence files, computed locally; the files are never uploaded
+  const [evidenceHash, setEvidenceHash] = useState<string | null>(null)
+  const [evidenceFiles, setEvidenceFiles] = useState(0)
+  const [revokeVendorId, setRevokeVendorId] = useState('')
   const [checkVendorId, setCheckVendorId] = useState('')
+  const [queryAs, setQueryAs] = useState<StatusQueryCaller['role']>('vendor')
   const [result, setResult] = useState<any>(null)
+  const [revokeResult, setRevokeResult] = useState<Record<string, unknown> | null>(null)
   const [statusResult, setStatusResult] = useState<any>(null)
   const [loading, setLoading] = useState(false)
 
+  const handleEvidenceFiles = async (files: FileList | null) => {
+    if (!files || files.length === 0) {
+      setEvidenceHash(null)
+      setEvidenceFiles(0)
+      return
+    }
+    try {
+      setEvidenceHash(await hashEvidenceFiles(Array.from(files)))
+      setEvidenceFiles(files.length)
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Could not hash evidence files')
+    }
+  }
+
   const handleRecord = async () => {
-    if (!recordVendorId) {
-      alert('Please enter vendor ID')
+    if (!officer || !roundId || !recordVendorId || !expiresAt || !membershipCommitment) {
+      alert('Please enter acting officer, round ID, vendor ID, expiry date and the vendor\'s membership commitment')
       return
     }
 
     setLoading(true)
     try {
+      const roundNum = parseInt(roundId)
       const vendorNum = parseInt(recordVendorId)
-      onQualificationRecord(vendorNum)
+      const expiry = new Date(expiresAt)
+      const expirySeconds = Math.floor(expiry.getTime() / 1000)
+      const commitment = membershipCommitment.trim().replace(/^0x/, '').toLowerCase()
+      if (!/^[0-9a-f]{64}$/.test(commitment)) {
+        throw new Error('Membership commitment must be 32 bytes of hex')
+      }
+      const proposalId = onQualificationPropose(officer, roundNum, vendorNum, expiry, commitment, evidenceHash)
 
       const response = {
-        method: 'recordQualification',
-        params: { vendorId: vendorNum },
-        result: null,
+        method: 'proposeQualification',
+        params: { roundId: roundNum, vendorId: vendorNum, expiresAt: expiry.toISOString() },
+        result: proposalId,
         timestamp: new Date().toISOString(),
         contractCall: {
-          circuit: 'recordQualification',
-          input: `[${vendorNum}]`,
-          output: 'Vendor marked as qualified in ledger',
-          ledgerUpdate: `vendors.markQualified(${vendorNum})`
+          circuit: 'proposeQualification',
+          input: `[${roundNum}, ${vendorNum}, ${expirySeconds}, ${commitment.slice(0, 16)}..., ${evidenceHash ? `${evidenceHash.slice(0, 16)}...` : 'no evidence'}]`,
+          output: `Proposal ${proposalId} created`,
+          ledgerUpdate: `proposals.insert(${proposalId}, { ... }); proposalApprovals[${proposalId}].insert(${officer})`,
+          authorization: `Officer ${officer}`
         }
       }
 
       setResult(response)
       onDebugUpdate(response)
       setRecordVendorId('')
+      setMembershipCommitment('')
+      setEvidenceHash(null)
+      setEvidenceFiles(0)
     } catch (error) {
       const errorResponse = {
-        method: 'recordQualification',
+        method: 'proposeQualification',
         error: error instanceof Error ? error.message : 'Unknown error',
         timestamp: new Date().toISOString()
       }
@@ -60,27 +125,99 @@ export default function VendorRegistry({
     }
   }
 
+  const handleRevoke = async () => {
+    if (!roundId || !revokeVendorId) {
+      alert('Please enter round ID and vendor ID')
+      return
+    }
+
+    setLoading(true)
+    try {
+      const roundNum = parseInt(roundId)
+      const vendorNum = parseInt(revokeVendorId)
+      if (!onQualificationRevoke(roundNum, vendorNum)) {
+        throw new Error('Vendor has no qualification to revoke')
+      }
+
+      const response = {
+        method: 'revokeQualification',
+        params: { roundId: roundNum, vendorId: vendorNum },
+        result: null,
+        timestamp: new Date().toISOString(),
+        contractCall: {
+          circuit: 'revokeQualification',
+          input: `[${roundNum}, ${vendorNum}]`,
+          output: 'Vendor qualification revoked',
+          ledgerUpdate: `vendors[${roundNum}].insert(${vendorNum}, { ..., revoked: true })`
+        }
+      }
+
+      setRevokeResult(response)
+      onDebugUpdate(response)
+      setRevokeVendorId('')
+    } catch (error) {
+      const errorResponse = {
+        method: 'revokeQualification',
+        error: error instanceof Error ? error.message : 'Unknown error',
+        timestamp: new Date().toISOString()
+      }
+      setRevokeResult(errorResponse)
+      onDebugUpdate(errorResponse)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const queryCaller = (): StatusQueryCaller => {
+    switch (queryAs) {
+      case 'vendor':
+        return { role: 'vendor', publicKey: vendorPublicKey }
+      case 'officer':
+        return { role: 'officer', officer }
+      default:
+        return { role: 'anonymous' }
+    }
+  }
+
+  const describeCaller = (caller: StatusQueryCaller) => {
+    switch (caller.role) {
+      case 'vendor':
+        return caller.publicKey ? `Vendor key ${caller.publicKey.slice(0, 16)}...` : 'Vendor (no vendor key generated)'
+      case 'officer':
+        return caller.officer ? `Officer ${caller.officer}` : 'Officer (enter the acting officer above)'
+      default:
+        return 'Anonymous (no key)'
+    }
+  }
+
   const handleCheck = async () => {
-    if (!checkVendorId) {
-      alert('Please enter vendor ID')
+    if (!roundId || !checkVendorId) {
+      alert('Please enter round ID and vendor ID')
       return
     }
 
     setLoading(true)
     try {
+      const roundNum = parseInt(roundId)
       const vendorNum = parseInt(checkVendorId)
-      const isQualified = onStatusCheck(vendorNum)
+      // Refused callers get an error before anything about the vendor is read
+      const caller = queryCaller()
+      onStatusReaderCheck(caller, vendorNum)
+      const isQualified = onStatusCheck(roundNum, vendorNum)
+      const tier = await onTierLookup(roundNum, vendorNum)
 
       const response = {
         method: 'isVendorQualified',
-        params: { vendorId: vendorNum },
+        params: { roundId: roundNum, vendorId: vendorNum },
         result: isQualified,
         timestamp: new Date().toISOString(),
         contractCall: {
           circuit: 'isVendorQualified',
-          input: `[${vendorNum}]`,
-          output: `[${isQualified}]`,
-          status: isQualified ? 'QUALIFIED' : 'NOT QUALIFIED'
+          input: `[${roundNum}, ${vendorNum}]`,
+          output: `[${isQualified}, ${tier}]`,
+          status: isQualified ? 'QUALIFIED' : 'NOT QUALIFIED',
+          tier,
+          queriedAs: describeCaller(caller)
         }
       }
 
@@ -103,9 +240,32 @@ export default function VendorRegistry({
     <div style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fit, minmax(350px, 1fr))', gap: '25px' }}>
       <Card
         badge="Circuit 3"
-        title="📝 Record Qualification"
-        description="Record vendor qualification approval in the public ledger"
+        title="📝 Propose Qualification"
+        description="Propose a vendor; it is recorded in the public ledger once k officers approve"
       >
+        <div className="input-group">
+          <label>Acting Officer</label>
+          <input
+            type="text"
+            value={officer}
+            onChange={(e) => setOfficer(e.target.value)}
+            placeholder="e.g., officer-a"
+            disabled={loading}
+          />
+        </div>
+
+        <div className="input-group">
+          <label>Round ID</label>
+          <input
+            type="number"
+            value={roundId}
+            onChange={(e) => setRoundId(e.target.value)}
+            placeholder="e.g., 1"
+            min="0"
+            disabled={loading}
+          />
+        </div>
+
         <div className="input-group">
           <label>Vendor ID</label>
           <input
@@ -118,12 +278,48 @@ export default function VendorRegistry({
           />
         </div>
 
+        <div className="input-group">
+          <label>Valid Until</label>
+          <input
+            type="date"
+            value={expiresAt}
+            onChange={(e) => setExpiresAt(e.target.value)}
+            disabled={loading}
+          />
+        </div>
+
+        <div className="input-group">
+          <label>Membership Commitment</label>
+          <input
+            type="text"
+            value={membershipCommitment}
+            onChange={(e) => setMembershipCommitment(e.target.value)}
+            placeholder="64 hex characters, supplied by the vendor"
+            disabled={loading}
+          />
+        </div>
+
+        <div className="input-group">
+          <label>Evidence Files (optional)</label>
+          <input
+            type="file"
+            multiple
+            onChange={(e) => handleEvidenceFiles(e.target.files)}
+            disabled={loading}
+          />
+          <span className="input-hint">
+            {evidenceHash
+              ? `${evidenceFiles} file(s) hashed locally: ${evidenceHash.slice(0, 16)}...`
+              : 'Certificates, audit reports: hashed in your browser, never uploaded'}
+          </span>
+        </div>
+
         <button 
           onClick={handleRecord} 
           className="btn-primary"
           disabled={loading}
         >
-          {loading ? '⏳ Recording...' : '→ Record Qualification'}
+          {loading ? '⏳ Proposing...' : '→ Propose Qualification'}
         </button>
 
         {result && (
@@ -134,11 +330,82 @@ export default function VendorRegistry({
         )}
       </Card>
 
+      <Card
+        badge="Circuit 3b"
+        title="🚫 Revoke Qualification"
+        description="Revoke a vendor's approval, e.g. after a lost certification"
+      >
+        <div className="input-group">
+          <label>Round ID</label>
+          <input
+            type="number"
+            value={roundId}
+            onChange={(e) => setRoundId(e.target.value)}
+            placeholder="e.g., 1"
+            min="0"
+            disabled={loading}
+          />
+        </div>
+
+        <div className="input-group">
+          <label>Vendor ID</label>
+          <input
+            type="number"
+            value={revokeVendorId}
+            onChange={(e) => setRevokeVendorId(e.target.value)}
+            placeholder="e.g., 1"
+            min="0"
+            disabled={loading}
+          />
+        </div>
+
+        <button 
+          onClick={handleRevoke} 
+          className="btn-primary"
+          disabled={loading}
+        >
+          {loading ? '⏳ Revoking...' : '→ Revoke Qualification'}
+        </button>
+
+        {revokeResult && (
+          <ResultBox 
+            success={!('error' in revokeResult)}
+            data={revokeResult}
+          />
+        )}
+      </Card>
+
       <Card
         badge="Circuit 4"
         title="❓ Check Vendor Status"
-        description="Check if a vendor is qualified (yes/no only, no details revealed)"
+        description="Check if a vendor is qualified (yes/no only, false once revoked or expired); only the vendor or an officer may ask"
       >
+        <div className="input-group">
+          <label>Query As</label>
+          <select
+            value={queryAs}
+            onChange={(e) => setQueryAs(e.target.value as StatusQueryCaller['role'])}
+            disabled={loading}
+          >
+            <option value="vendor">Vendor (this browser's vendor key)</option>
+            <option value="officer">Procurement officer (acting officer)</option>
+            <option value="anonymous">Anonymous</option>
+          </select>
+          <span className="input-hint">Querying as: {describeCaller(queryCaller())}</span>
+        </div>
+
+        <div className="input-group">
+          <label>Round ID</label>
+          <input
+            type="number"
+            value={roundId}
+            onChange={(e) => setRoundId(e.target.value)}
+            placeholder="e.g., 1"
+            min="0"
+            disabled={loading}
+          />
+        </div>
+
         <div className="input-group">
           <label>Vendor ID</label>
           <input
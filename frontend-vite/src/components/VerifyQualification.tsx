@@ -1,21 +1,163 @@
-import { useState } from 'react'
+import { useEffect, useState } from 'react'
 import Card from './Card'
 import ResultBox from './ResultBox'
+import {
+  generateSalt,
+  weightedScore,
+  VENDOR_METRICS,
+  type TierBandSummary,
+  type VendorMetricName,
+  type VendorMetrics,
+  type VendorTier
+} from '../services/ContractService'
+import { useRoundThreshold, useRoundWeights, useVendorTier } from '../hooks/useContractMethods'
 import './Form.css'
 
+const METRIC_LABELS: Record<VendorMetricName, string> = {
+  deliveryPunctuality: 'On-time Deliveries (%)',
+  defectRate: 'Defect Rate (%)',
+  priceCompetitiveness: 'Price Competitiveness (0-100)',
+  esgRating: 'ESG Rating (0-100)'
+}
+
+const EMPTY_METRICS: Record<VendorMetricName, string> = {
+  deliveryPunctuality: '',
+  defectRate: '',
+  priceCompetitiveness: '',
+  esgRating: ''
+}
+
 interface VerifyQualificationProps {
   onDebugUpdate: (info: any) => void
+  // True once a contract is bound; tier bands are then read from its ledger
+  connected: boolean
+  // Simulated tierBands ledger map, used while no contract is connected
+  tierBands: TierBandSummary[]
+  onTierProof: (roundId: number, vendorRef: string, tier: VendorTier) => void
+  // Simulates the proof receipt a successful verification leaves in the round
+  onQualificationProof: (roundId: number, vendorRef: string) => Promise<void>
+  // Simulates the enrolled-key check every vendor-side circuit makes; returns the vendor reference
+  onVendorKeyCheck: (vendorId: number) => string
 }
 
-export default function VerifyQualification({ onDebugUpdate }: VerifyQualificationProps) {
-  const [vendorScore, setVendorScore] = useState('')
-  const [minimumThreshold, setMinimumThreshold] = useState('')
+export default function VerifyQualification({
+  onDebugUpdate,
+  connected,
+  tierBands,
+  onTierProof,
+  onQualificationProof,
+  onVendorKeyCheck
+}: VerifyQualificationProps) {
+  const [vendorId, setVendorId] = useState('')
+  const [metrics, setMetrics] = useState(EMPTY_METRICS)
+  const [roundId, setRoundId] = useState('1')
   const [salt, setSalt] = useState('')
+  const [tier, setTier] = useState<VendorTier>('gold')
+  // Simulated scoreCommitments ledger: vendorRef -> commitment
+  const [commitments, setCommitments] = useState<Map<string, string>>(new Map())
   const [result, setResult] = useState<any>(null)
   const [loading, setLoading] = useState(false)
+  // Active threshold is published by procurement on the ledger, never entered by the vendor
+  const {
+    fetchThreshold,
+    threshold: activeThreshold,
+    loading: thresholdLoading,
+    error: thresholdError
+  } = useRoundThreshold()
+  // Sub-metric weights are published per round too; the score is computed from them
+  const {
+    fetchWeights,
+    weights: activeWeights,
+    loading: weightsLoading,
+    error: weightsError
+  } = useRoundWeights()
+
+  // Tier bands are defined by procurement for all rounds
+  const {
+    fetchBands,
+    bands: ledgerBands,
+    loading: bandsLoading,
+    error: bandsError
+  } = useVendorTier()
+
+  useEffect(() => {
+    if (roundId) {
+      fetchThreshold(parseInt(roundId))
+      fetchWeights(parseInt(roundId))
+    }
+  }, [roundId, fetchThreshold, fetchWeights])
+
+  useEffect(() => {
+    if (connected) {
+      fetchBands()
+    }
+  }, [connected, fetchBands])
+
+  const activeBands = connected ? ledgerBands ?? [] : tierBands
+
+  const metricsComplete = VENDOR_METRICS.every((name) => metrics[name] !== '')
+
+  const parseMetrics = (): VendorMetrics => ({
+    deliveryPunctuality: Number(metrics.deliveryPunctuality),
+    defectRate: Number(metrics.defectRate),
+    priceCompetitiveness: Number(metrics.priceCompetitiveness),
+    esgRating: Number(metrics.esgRating)
+  })
+
+  const computeCommitment = async (id: string, saltValue: string) => {
+    const scores = VENDOR_METRICS.map((name) => metrics[name]).join(',')
+    const preimage = new TextEncoder().encode(`blinding:score-commitment:${id}:${scores}:${saltValue}`)
+    const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', preimage))
+    return Array.from(digest, (b) => b.toString(16).padStart(2, '0')).join('')
+  }
+
+  const handleCommit = async () => {
+    if (!vendorId || !metricsComplete || !salt) {
+      alert('Please enter vendor ID, all sub-metrics and salt')
+      return
+    }
+
+    setLoading(true)
+    try {
+      // Simulate smart contract call
+      // Only the salted commitment is published; sub-metrics and salt stay in private state
+      const vendorRef = onVendorKeyCheck(parseInt(vendorId))
+      if (commitments.has(vendorRef)) {
+        throw new Error('Score already committed for vendor')
+      }
+      const commitment = await computeCommitment(vendorId, salt)
+      setCommitments(prev => new Map(prev).set(vendorRef, commitment))
+
+      const response = {
+        method: 'commitScore',
+        params: { vendorId },
+        result: commitment,
+        timestamp: new Date().toISOString(),
+        contractCall: {
+          circuit: 'commitScore',
+          input: '[]',
+          output: 'Score commitment published',
+          ledgerUpdate: `scoreCommitments.insert(${vendorRef.slice(0, 16)}..., ${commitment.slice(0, 16)}...)`
+        }
+      }
+
+      setResult(response)
+      onDebugUpdate(response)
+    } catch (error) {
+      const errorResponse = {
+        method: 'commitScore',
+        error: error instanceof Error ? error.message : 'Unknown error',
+        timestamp: new Date().toISOString()
+      }
+      setResult(errorResponse)
+      onDebugUpdate(errorResponse)
+    } finally {
+      setLoading(false)
+    }
+  }
 
   const handleVerify = async () => {
-    if (!vendorScore || !minimumThreshold || !salt) {
+    if (!vendorId || !metricsComplete || !roundId || !salt) {
       alert('Please fill all fields')
       return
     }
@@ -23,23 +165,44 @@ export default function VerifyQualification({ onDebugUpdate }: VerifyQualificati
     setLoading(true)
     try {
       // Simulate smart contract call
-      const scoreNum = parseInt(vendorScore)
-      const thresholdNum = parseInt(minimumThreshold)
-      const qualifies = scoreNum >= thresholdNum
+      // Sub-metrics and salt stay in private state; only the round id is a circuit input
+      // The proof runs on the committed sub-metrics, so they must open the published commitment
+      const roundNum = parseInt(roundId)
+      const vendorRef = onVendorKeyCheck(parseInt(vendorId))
+      const published = commitments.get(vendorRef)
+      if (!published) {
+        throw new Error('No score commitment for vendor')
+      }
+      if (published !== await computeCommitment(vendorId, salt)) {
+        throw new Error('Private sub-metrics do not match the committed score')
+      }
+
+      if (activeThreshold === null) {
+        throw new Error('No threshold policy for procurement round')
+      }
+      if (activeWeights === null) {
+        throw new Error('No scoring weights for procurement round')
+      }
+
+      // The circuit computes this weighted score privately; only the outcome is disclosed
+      // Compliance is proven separately from certifier attestations (Circuit 2)
+      const qualifies = weightedScore(parseMetrics(), activeWeights) >= activeThreshold
+      if (qualifies) {
+        await onQualificationProof(roundNum, vendorRef)
+      }
 
       const response = {
         method: 'verifyQualification',
         params: {
-          vendorScore: scoreNum,
-          minimumThreshold: thresholdNum,
-          salt: parseInt(salt),
+          roundId: roundNum,
         },
         result: qualifies,
         timestamp: new Date().toISOString(),
         contractCall: {
           circuit: 'verifyQualification',
-          input: `[${scoreNum}, ${thresholdNum}, ${salt}]`,
-          output: `[${qualifies}]`
+          input: `[${roundNum}, <proof time>]`,
+          output: `[${qualifies}]`,
+          ledgerUpdate: qualifies ? `proofReceipts[${roundNum}][${vendorRef.slice(0, 16)}...].qualifiedUntil` : undefined
         }
       }
 
@@ -58,38 +221,133 @@ export default function VerifyQualification({ onDebugUpdate }: VerifyQualificati
     }
   }
 
+  const handleProveTier = async () => {
+    if (!vendorId || !metricsComplete || !roundId || !salt) {
+      alert('Please fill all fields')
+      return
+    }
+
+    setLoading(true)
+    try {
+      // Simulate smart contract call
+      // The band check runs on the committed sub-metrics; only the tier is recorded
+      const roundNum = parseInt(roundId)
+      const vendorRef = onVendorKeyCheck(parseInt(vendorId))
+      const published = commitments.get(vendorRef)
+      if (!published) {
+        throw new Error('No score commitment for vendor')
+      }
+      if (published !== await computeCommitment(vendorId, salt)) {
+        throw new Error('Private sub-metrics do not match the committed score')
+      }
+      const band = activeBands.find((b) => b.tier === tier)
+      if (!band) {
+        throw new Error('No score band for tier')
+      }
+      if (activeWeights === null) {
+        throw new Error('No scoring weights for procurement round')
+      }
+      const score = weightedScore(parseMetrics(), activeWeights)
+      if (score < band.low || score >= band.high) {
+        throw new Error('Score is not in the tier\'s band')
+      }
+      onTierProof(roundNum, vendorRef, tier)
+
+      const response = {
+        method: 'proveTier',
+        params: { roundId: roundNum, tier },
+        result: tier,
+        timestamp: new Date().toISOString(),
+        contractCall: {
+          circuit: 'proveTier',
+          input: `[${roundNum}, ${tier}]`,
+          output: 'Tier recorded',
+          tier,
+          ledgerUpdate: `vendorTiers[${roundNum}].insert(${vendorRef.slice(0, 16)}..., ${tier})`
+        }
+      }
+
+      setResult(response)
+      onDebugUpdate(response)
+    } catch (error) {
+      const errorResponse = {
+        method: 'proveTier',
+        error: error instanceof Error ? error.message : 'Unknown error',
+        timestamp: new Date().toISOString()
+      }
+      setResult(errorResponse)
+      onDebugUpdate(errorResponse)
+    } finally {
+      setLoading(false)
+    }
+  }
+
   return (
     <Card
       badge="Circuit 1"
       title="✓ Verify Qualification"
-      description="Verify vendor meets minimum quality threshold without revealing actual score"
+      description="Prove your weighted score meets the round's published threshold without revealing your sub-metrics"
     >
       <div className="input-group">
-        <label>Vendor Score</label>
+        <label>Vendor ID</label>
         <input
           type="number"
-          value={vendorScore}
-          onChange={(e) => setVendorScore(e.target.value)}
-          placeholder="e.g., 85"
+          value={vendorId}
+          onChange={(e) => setVendorId(e.target.value)}
+          placeholder="e.g., 1"
           min="0"
           disabled={loading}
         />
       </div>
 
+      {VENDOR_METRICS.map((name) => (
+        <div className="input-group" key={name}>
+          <label>{METRIC_LABELS[name]} (private)</label>
+          <input
+            type="number"
+            value={metrics[name]}
+            onChange={(e) => setMetrics(prev => ({ ...prev, [name]: e.target.value }))}
+            placeholder={name === 'defectRate' ? 'e.g., 3' : 'e.g., 85'}
+            min="0"
+            max="100"
+            disabled={loading}
+          />
+        </div>
+      ))}
+
       <div className="input-group">
-        <label>Minimum Threshold</label>
+        <label>Round ID</label>
         <input
           type="number"
-          value={minimumThreshold}
-          onChange={(e) => setMinimumThreshold(e.target.value)}
-          placeholder="e.g., 80"
+          value={roundId}
+          onChange={(e) => setRoundId(e.target.value)}
+          placeholder="e.g., 1"
           min="0"
           disabled={loading}
         />
+        <span className="input-hint">
+          Active threshold (from ledger):{' '}
+          {thresholdLoading
+            ? 'loading...'
+            : thresholdError
+              ? `unavailable (${thresholdError})`
+              : activeThreshold === null
+                ? 'not published for this round'
+                : activeThreshold}
+          <br />
+          Scoring weights (from ledger):{' '}
+          {weightsLoading
+            ? 'loading...'
+            : weightsError
+              ? `unavailable (${weightsError})`
+              : activeWeights === null
+                ? 'not published for this round'
+                : VENDOR_METRICS.map((name) => `${METRIC_LABELS[name].split(' (')[0]} ${activeWeights[name]}%`).join(', ')}
+        </span>
       </div>
 
       <div className="input-group">
-        <label>Salt (for ZK proof)</label>
+        <label>Salt (private, for ZK proof)</label>
         <input
           type="number"
           value={salt}
@@ -98,14 +356,60 @@ export default function VerifyQualification({ onDebugUpdate }: VerifyQualificati
           min="0"
           disabled={loading}
         />
+        <button
+          type="button"
+          onClick={() => setSalt(generateSalt().toString())}
+          className="btn-secondary"
+          disabled={loading}
+        >
+          🎲 Generate Random Salt
+        </button>
       </div>
 
+      <button
+        onClick={handleCommit}
+        className="btn-secondary"
+        disabled={loading}
+      >
+        {loading ? '⏳ Committing...' : '🔒 Commit Score (step 1)'}
+      </button>
+
       <button 
         onClick={handleVerify} 
         className="btn-primary"
         disabled={loading}
       >
-        {loading ? '⏳ Verifying...' : '→ Verify Qualification'}
+        {loading ? '⏳ Verifying...' : '→ Verify Qualification (step 2)'}
+      </button>
+
+      <div className="input-group">
+        <label>Tier to Prove</label>
+        <select
+          value={tier}
+          onChange={(e) => setTier(e.target.value as VendorTier)}
+          disabled={loading}
+        >
+          {activeBands.map((band) => (
+            <option key={band.tier} value={band.tier}>
+              {band.tier} (score {band.low} to {band.high - 1})
+            </option>
+          ))}
+        </select>
+        <span className="input-hint">
+          {connected && bandsLoading
+            ? 'Loading score bands from the ledger...'
+            : connected && bandsError
+              ? `Score bands unavailable (${bandsError})`
+              : 'Uses the committed sub-metrics; only the tier is recorded'}
+        </span>
+      </div>
+
+      <button
+        onClick={handleProveTier}
+        className="btn-secondary"
+        disabled={loading}
+      >
+        {loading ? '⏳ Proving...' : '🏅 Prove Tier'}
       </button>
 
       {result && (
@@ -13,11 +13,75 @@ export {
   contractService,
   VendorQualificationService,
   CONTRACT_CONFIG,
+  NETWORK_NAME,
+  NETWORK_PROFILE,
+  NETWORK_PROFILES,
+  generateSalt,
+  parseIssuedAttestation,
+  hexToBytes,
+  bytesToHex,
+  encodeCriterionLabel,
+  decodeCriterionLabel,
+  COMPLIANCE_PROFILE_SLOTS,
+  QUALIFICATION_BATCH_SIZE,
+  chunkBatch,
+  hashEvidenceFiles,
+  indexerLedgerReader,
+  VENDOR_METRICS,
+  metricScores,
+  weightedScore,
+  VENDOR_TIERS,
 } from './services';
 
 export type {
+  VendorMetrics,
+  VendorMetricName,
+  ScoringWeights,
+  VendorTier,
+  NetworkProfile,
   VerifyQualificationParams,
+  CommitScoreParams,
+  ProveTierParams,
   CheckComplianceParams,
+  VendorQualificationRecord,
+  BlindingPrivateState,
+  PrivateStateStore,
+  ContractConnection,
+  LedgerMap,
+  LedgerSet,
+  BlindingLedgerState,
+  ProcurementRoundState,
+  QualificationRecordState,
+  QualificationProposalState,
+  LedgerMerkleTree,
+  TenderState,
+  SealedBidRecord,
+  ProcurementRoundSummary,
+  PendingProposalSummary,
+  QualificationBatchEntry,
+  BatchProgress,
+  ProposalBatchSummary,
+  ApprovalBatchSummary,
+  ComplianceCriterionSummary,
+  ComplianceProfileSummary,
+  CurvePoint,
+  AttestationRecord,
+  IssuedAttestation,
+  TierBandState,
+  TierBandSummary,
+  ProofReceiptState,
+  ProofReceiptSummary,
+  EvidenceSummary,
+  EvidenceCheckSummary,
+  VendorEnrolmentSummary,
+  StatusQueryIdentity,
+  RoundStatisticsSummary,
+  ProfileStatisticsSummary,
+  QualificationStatisticsSummary,
+  CertifierState,
+  CertifierSummary,
+  TenderPhase,
+  TenderSummary,
   SmartContractResponse,
 } from './services';
 
@@ -27,9 +91,26 @@ export type {
 
 export {
   useVerifyQualification,
+  useCommitScore,
   useCheckCompliance,
-  useRecordQualification,
+  useQualificationProposals,
+  useQualificationBatch,
+  useOfficers,
+  useVendorEnrolment,
+  useRevokeQualification,
   useCheckVendorStatus,
+  useVendorTier,
+  useProofReceipt,
+  useEvidence,
+  useProcurementRounds,
+  useContractConnection,
+  useQualificationStatistics,
+  useRoundThreshold,
+  useRoundWeights,
+  useCertifiers,
+  useComplianceProfile,
+  useMembershipProof,
+  useTender,
   useVendorQualificationContract,
 } from './hooks';
 
@@ -42,8 +123,8 @@ export {
  *                   CONTRACT INTEGRATION - QUICK START
  * ═══════════════════════════════════════════════════════════════════════════
  * 
- * CONTRACT ADDRESS: 2aa78f99159e7662a1fe3658f402ef4e64ff77c8769cb07368ac1702696301f8
- * Network: midnight-testnet
+ * CONTRACT ADDRESS: VITE_CONTRACT_ADDRESS (contractAddress in contract/deployment.json)
+ * Network: VITE_NETWORK profile in frontend-vite/networks.json
  * 
  * ═══════════════════════════════════════════════════════════════════════════
  *                             IMPORT OPTIONS
@@ -73,8 +154,9 @@ export {
  * import { contractService } from '@/contract';
  * 
  * const result = await contractService.verifyQualification({
- *   vendorScore: 85,
- *   minimumThreshold: 80,
+ *   vendorId: 999,
+ *   metrics: { deliveryPunctuality: 92, defectRate: 3, priceCompetitiveness: 80, esgRating: 75 },
+ *   roundId: 1,
  *   salt: 12345
  * });
  * 
@@ -92,8 +174,9 @@ export {
  * 
  *   const handleClick = async () => {
  *     await verifyQualification({
- *       vendorScore: 85,
- *       minimumThreshold: 80,
+ *       vendorId: 999,
+ *       metrics: { deliveryPunctuality: 92, defectRate: 3, priceCompetitiveness: 80, esgRating: 75 },
+ *       roundId: 1,
  *       salt: 12345
  *     });
  *   };
@@ -138,38 +221,70 @@ export {
  * Circuit 1: Verify Qualification (ZK Proof)
  * ──────────────────────────────────────────
  * const result = await contractService.verifyQualification({
- *   vendorScore: 85,
- *   minimumThreshold: 80,
+ *   vendorId: 999,
+ *   metrics: { deliveryPunctuality: 92, defectRate: 3, priceCompetitiveness: 80, esgRating: 75 },
+ *   roundId: 1,
  *   salt: 12345
  * });
- * // Returns: Boolean - true if score >= threshold
- * // Privacy: Full Zero-Knowledge
+ * // Returns: Boolean - true if the weighted score of the committed sub-metrics >= the
+ * // round's published threshold (weights from roundWeights)
+ * // Privacy: Full Zero-Knowledge (sub-metrics and salt go to private state via
+ * // bindPrivateStateProvider(), only the round id is sent)
+ * // Requires: The vendor's enrolled key in private state (createVendorKey, enrolVendor)
  * 
  * 
  * Circuit 2: Check Compliance
  * ────────────────────────────
  * const result = await contractService.checkCompliance({
- *   certificationValid: true,
- *   insuranceActive: true,
- *   paymentHistoryGood: true
+ *   vendorId: 999,
+ *   roundId: 1,
+ *   profileId: 1,
+ *   attestations: attestationFiles.map(parseIssuedAttestation)
  * });
- * // Returns: Boolean - true if all criteria met
- * // Privacy: Full Zero-Knowledge
+ * // Returns: Boolean - true if a registered certifier signed every criterion in the profile
+ * // Privacy: Full Zero-Knowledge (signatures and certifiers stay private)
  * 
  * 
- * Circuit 3: Record Qualification
- * ────────────────────────────────
- * const result = await contractService.recordQualification(999);
- * // Returns: None
+ * Circuit 3: Propose & Approve Qualification (k of n officers)
+ * ────────────────────────────────────────────────────────────
+ * const proposal = await contractService.proposeQualification(1, 999, new Date('2027-01-01'), membershipCommitment);
+ * // Returns: Proposal id (the proposer's approval is counted)
+ * const approval = await contractService.approveQualification(Number(proposal.result));
+ * // Returns: Boolean - true when this approval reached k and recorded the vendor
  * // Privacy: Public - visible on-chain
- * // Action: Records vendor in public ledger
+ * // Action: Records vendor in public ledger until the expiry date
+ * // Requires: Fresh receipts from Circuits 1 and 2 in the round (see getProofReceipt)
+ * 
+ * await contractService.revokeQualification(1, 999);
+ * // Action: Marks the vendor's entry revoked (entries are never deleted)
  * 
  * 
  * Circuit 4: Check Vendor Status
  * ───────────────────────────────
- * const result = await contractService.isVendorQualified(999);
- * // Returns: Boolean - true if qualified
- * // Privacy: Privacy-Preserving (yes/no only)
+ * const result = await contractService.isVendorQualified(1, 999);
+ * // Returns: Boolean - true if qualified; contractCall.tier holds the proved tier
+ * // Privacy: Privacy-Preserving (yes/no and tier only)
+ * // Requires: The vendor's enrolled key or a registered officer's key in private state
+ * 
+ * const tier = await contractService.getVendorTier(1, 999);
+ * // Returns: 'bronze' | 'silver' | 'gold', or 'none' unless qualified with a proved tier
+ * 
+ * 
+ * Circuit 5: Prove Membership (anonymous)
+ * ────────────────────────────────────────
+ * const membershipCommitment = await contractService.createMembershipKey();
+ * // ...procurement records the vendor with membershipCommitment...
+ * const result = await contractService.proveMembership(1, 999);
+ * // Returns: None - fails unless the caller holds a qualified-set leaf for round 1
+ * // Privacy: Full Zero-Knowledge (vendor id stays local; one proof per round)
+ * 
+ * Circuit 6: Sealed-Bid Tender
+ * ────────────────────────────────────────
+ * await contractService.openTender(1, biddingEndsAt, revealEndsAt);  // procurement
+ * await contractService.commitBid(1, 999, 125000);   // vendor, while bidding is open
+ * await contractService.revealBid(1, 999);           // vendor, in the reveal window
+ * await contractService.finalizeTender(1);           // procurement, after the reveal window
+ * // Only qualified vendors holding their membership secret can bid; lowest revealed bid wins
  * 
  * ═══════════════════════════════════════════════════════════════════════════
  *                         HOOKS WITH TYPES
@@ -184,7 +299,8 @@ export {
  *   const {
  *     verifyQualification,
  *     checkCompliance,
- *     recordQualification,
+ *     proposeQualification,
+ *     approveQualification,
  *     checkVendorStatus,
  *     loading,
  *     result,
@@ -5,22 +5,24 @@
  * the Vendor Qualification smart contract methods
  */
 
-import { contractService, CONTRACT_CONFIG } from '../src/services/ContractService';
+import { contractService, CONTRACT_CONFIG, parseIssuedAttestation } from '../src/services/ContractService';
 
 // ============================================================================
 // EXAMPLE 1: VERIFY QUALIFICATION (Zero-Knowledge Proof)
 // ============================================================================
 
 /**
- * Example: Vendor proves their score >= minimum threshold
- * without revealing the actual score
+ * Example: Vendor proves the weighted score of their sub-metrics >= minimum threshold
+ * without revealing the sub-metrics or the score
+ * Vendor 999 must be enrolled with the key in private state (createVendorKey, enrolVendor)
  */
 export async function exampleVerifyQualification() {
   console.log('=== Example 1: Verify Qualification (ZK Proof) ===\n');
   
   const result = await contractService.verifyQualification({
-    vendorScore: 85,
-    minimumThreshold: 80,
+    vendorId: 999,
+    metrics: { deliveryPunctuality: 92, defectRate: 3, priceCompetitiveness: 80, esgRating: 75 },
+    roundId: 1,
     salt: 12345n
   });
 
@@ -38,45 +40,57 @@ export async function exampleVerifyQualification() {
 // ============================================================================
 
 /**
- * Example: Verify vendor meets all compliance criteria
+ * Example: Verify vendor meets every criterion in compliance profile 1
+ * attestationFiles are the JSON files certifiers issued with `npm run attest -- issue`
  */
-export async function exampleCheckCompliance() {
+export async function exampleCheckCompliance(attestationFiles: string[]) {
   console.log('=== Example 2: Check Compliance ===\n');
   
   const result = await contractService.checkCompliance({
-    certificationValid: true,
-    insuranceActive: true,
-    paymentHistoryGood: true
+    vendorId: 999,
+    roundId: 1,
+    profileId: 1,
+    attestations: attestationFiles.map(parseIssuedAttestation)
   });
 
   console.log('Method:', result.method);
   console.log('Input:', result.contractCall?.input);
   console.log('Output:', result.contractCall?.output);
-  console.log('Criteria:', result.contractCall?.criteria);
+  console.log('Criteria:', result.params?.criteria);
   console.log('Result:', result.result);
   console.log('Contract Address:', result.contractAddress);
   console.log('\n');
 }
 
 // ============================================================================
-// EXAMPLE 3: RECORD QUALIFICATION
+// EXAMPLE 3: PROPOSE & APPROVE QUALIFICATION
 // ============================================================================
 
 /**
- * Example: Record vendor as qualified in public ledger
+ * Example: An officer proposes a vendor; it is recorded in the public ledger
+ * once k officers have approved (each officer runs approve with their own key)
+ * membershipCommitment comes from the vendor's contractService.createMembershipKey()
+ * Vendor 999 must first pass Examples 1 and 2 in round 1 so it holds fresh proof receipts
  */
-export async function exampleRecordQualification() {
-  console.log('=== Example 3: Record Qualification ===\n');
+export async function exampleRecordQualification(membershipCommitment: string) {
+  console.log('=== Example 3: Propose & Approve Qualification ===\n');
   
-  const result = await contractService.recordQualification(999);
+  const proposal = await contractService.proposeQualification(1, 999, new Date('2027-01-01'), membershipCommitment);
 
-  console.log('Method:', result.method);
-  console.log('Input:', result.contractCall?.input);
-  console.log('Ledger Update:', result.contractCall?.ledgerUpdate);
-  console.log('Registry Size:', result.contractCall?.registrySize);
-  console.log('Privacy:', result.contractCall?.privacyLevel);
-  console.log('Note:', result.contractCall?.note);
-  console.log('Contract Address:', result.contractAddress);
+  console.log('Method:', proposal.method);
+  console.log('Input:', proposal.contractCall?.input);
+  console.log('Proposal ID:', proposal.result);
+  console.log('Ledger Update:', proposal.contractCall?.ledgerUpdate);
+
+  // ...on a second officer's device...
+  const approval = await contractService.approveQualification(Number(proposal.result));
+
+  console.log('Method:', approval.method);
+  console.log('Recorded:', approval.result);
+  console.log('Ledger Update:', approval.contractCall?.ledgerUpdate);
+  console.log('Privacy:', approval.contractCall?.privacyLevel);
+  console.log('Note:', approval.contractCall?.note);
+  console.log('Contract Address:', approval.contractAddress);
   console.log('\n');
 }
 
@@ -86,11 +100,12 @@ export async function exampleRecordQualification() {
 
 /**
  * Example: Check if vendor is qualified (yes/no only)
+ * Run as vendor 999 itself or as a registered officer; anyone else is refused
  */
 export async function exampleCheckVendorStatus() {
   console.log('=== Example 4: Check Vendor Status ===\n');
   
-  const result = await contractService.isVendorQualified(999);
+  const result = await contractService.isVendorQualified(1, 999);
 
   console.log('Method:', result.method);
   console.log('Input:', result.contractCall?.input);
@@ -122,8 +137,8 @@ export async function exampleCheckVendorStatus() {
  *  
  *   const handleVerify = async () => {
  *     await verifyQualification({
- *       vendorScore: 85,
- *       minimumThreshold: 80,
+ *       metrics: { deliveryPunctuality: 92, defectRate: 3, priceCompetitiveness: 80, esgRating: 75 },
+ *       roundId: 1,
  *       salt: 12345n
  *     });
  *   };
@@ -148,15 +163,16 @@ export async function exampleCheckVendorStatus() {
 /**
  * Complete workflow example showing all 4 circuits
  */
-export async function exampleCompleteWorkflow() {
+export async function exampleCompleteWorkflow(attestationFiles: string[]) {
   console.log('=== Complete Workflow Example ===\n');
   
   try {
     // Step 1: Vendor proves qualification
     console.log('Step 1: Vendor proves qualification...');
     const qualifyResult = await contractService.verifyQualification({
-      vendorScore: 85,
-      minimumThreshold: 80,
+      vendorId: 999,
+      metrics: { deliveryPunctuality: 92, defectRate: 3, priceCompetitiveness: 80, esgRating: 75 },
+      roundId: 1,
       salt: 12345n
     });
     console.log(`Result: ${qualifyResult.result ? 'Qualified ✓' : 'Not Qualified ✗'}\n`);
@@ -169,9 +185,10 @@ export async function exampleCompleteWorkflow() {
     // Step 2: Check compliance
     console.log('Step 2: Check compliance...');
     const complianceResult = await contractService.checkCompliance({
-      certificationValid: true,
-      insuranceActive: true,
-      paymentHistoryGood: true
+      vendorId: 999,
+      roundId: 1,
+      profileId: 1,
+      attestations: attestationFiles.map(parseIssuedAttestation)
     });
     console.log(`Result: ${complianceResult.result ? 'Compliant ✓' : 'Not Compliant ✗'}\n`);
 
@@ -180,21 +197,28 @@ export async function exampleCompleteWorkflow() {
       return;
     }
 
-    // Step 3: Record qualification
-    console.log('Step 3: Recording qualification in ledger...');
-    const recordResult = await contractService.recordQualification(999);
-    console.log(`Vendor 999 recorded in registry (size: ${recordResult.contractCall?.registrySize})\n`);
+    // Step 3: Propose and approve qualification (k of n officers)
+    console.log('Step 3: Proposing qualification for officer approval...');
+    const membershipCommitment = await contractService.createMembershipKey();
+    const proposal = await contractService.proposeQualification(1, 999, new Date('2027-01-01'), membershipCommitment);
+    // ...remaining officers approve from their own devices...
+    const approval = await contractService.approveQualification(Number(proposal.result));
+    console.log(`Vendor 999 ${approval.result ? 'recorded in registry' : 'awaiting further approvals'}\n`);
 
     // Step 4: Verify status
     console.log('Step 4: Verifying vendor status...');
-    const statusResult = await contractService.isVendorQualified(999);
+    const statusResult = await contractService.isVendorQualified(1, 999);
     console.log(`Vendor 999 status: ${statusResult.result ? 'Qualified ✓' : 'Not Qualified ✗'}\n`);
 
+    // Step 5: Vendor proves membership without revealing its id
+    console.log('Step 5: Proving membership anonymously...');
+    const membershipResult = await contractService.proveMembership(1, 999);
+    console.log(`Membership: ${membershipResult.error ?? 'Proven ✓'}\n`);
+
     // Show contract info
     console.log('=== Contract Information ===');
     console.log(`Address: ${CONTRACT_CONFIG.ADDRESS}`);
     console.log(`Network: ${CONTRACT_CONFIG.NETWORK}`);
-    console.log(`Deployed At: ${CONTRACT_CONFIG.DEPLOYED_AT}`);
     
   } catch (error) {
     console.error('Error during workflow:', error);
@@ -214,8 +238,9 @@ export async function exampleErrorHandling() {
   try {
     // Invalid parameters
     const result = await contractService.verifyQualification({
-      vendorScore: 75,
-      minimumThreshold: 80,
+      vendorId: 999,
+      metrics: { deliveryPunctuality: 70, defectRate: 12, priceCompetitiveness: 75, esgRating: 60 },
+      roundId: 1,
       salt: 12345n
     });
 
@@ -245,26 +270,25 @@ export const QUICK_REFERENCE = `
 ║  ${CONTRACT_CONFIG.ADDRESS}          ║
 ║                                                                        ║
 ║  NETWORK: ${CONTRACT_CONFIG.NETWORK}                                    ║
-║  DEPLOYED: ${CONTRACT_CONFIG.DEPLOYED_AT}                      ║
 ║                                                                        ║
 ╠════════════════════════════════════════════════════════════════════════╣
 ║                         CIRCUITS (4 METHODS)                           ║
 ╠════════════════════════════════════════════════════════════════════════╣
 ║                                                                        ║
-║  1. verifyQualification(vendorScore, minimumThreshold, salt)           ║
+║  1. verifyQualification(roundId) + private qualification               ║
 ║     → Returns: Boolean                                                 ║
 ║     → Privacy: Full Zero-Knowledge                                     ║
 ║     → Use: Vendor proves score >= threshold without revealing score    ║
 ║                                                                        ║
-║  2. checkCompliance(certification, insurance, paymentHistory)         ║
+║  2. checkCompliance() + certifier-signed attestations                 ║
 ║     → Returns: Boolean                                                 ║
 ║     → Privacy: Full Zero-Knowledge                                     ║
-║     → Use: Verify all compliance criteria pass                         ║
+║     → Use: Prove registered certifiers attested every criterion        ║
 ║                                                                        ║
-║  3. recordQualification(vendorId)                                      ║
-║     → Returns: None                                                    ║
+║  3. proposeQualification / approveQualification(proposalId)           ║
+║     → Returns: Proposal id / Boolean (recorded)                        ║
 ║     → Privacy: Public                                                  ║
-║     → Use: Record vendor in public ledger                              ║
+║     → Use: Record vendor once k of n officers approve                  ║
 ║                                                                        ║
 ║  4. isVendorQualified(vendorId)                                        ║
 ║     → Returns: Boolean                                                 ║
@@ -277,8 +301,9 @@ export const QUICK_REFERENCE = `
 ║                                                                        ║
 ║  // Direct Service Usage                                              ║
 ║  const result = await contractService.verifyQualification({            ║
-║    vendorScore: 85,                                                    ║
-║    minimumThreshold: 80,                                               ║
+║    vendorId: 999,                                                      ║
+║    metrics: { deliveryPunctuality: 92, defectRate: 3, ... },           ║
+║    roundId: 1,                                                         ║
 ║    salt: 12345n                                                        ║
 ║  });                                                                   ║
 ║                                                                        ║
@@ -287,8 +312,9 @@ export const QUICK_REFERENCE = `
 ║    useVendorQualificationContract();                                   ║
 ║                                                                        ║
 ║  await verifyQualification({                                           ║
-║    vendorScore: 85,                                                    ║
-║    minimumThreshold: 80,                                               ║
+║    vendorId: 999,                                                      ║
+║    metrics: { deliveryPunctuality: 92, defectRate: 3, ... },           ║
+║    roundId: 1,                                                         ║
 ║    salt: 12345n                                                        ║
 ║  });                                                                   ║
 ║                                                                        ║
@@ -299,15 +325,15 @@ export const QUICK_REFERENCE = `
 // RUN ALL EXAMPLES
 // ============================================================================
 
-export async function runAllExamples() {
+export async function runAllExamples(attestationFiles: string[]) {
   console.clear();
   console.log(QUICK_REFERENCE);
   
   await exampleVerifyQualification();
-  await exampleCheckCompliance();
-  await exampleRecordQualification();
+  await exampleCheckCompliance(attestationFiles);
+  await exampleRecordQualification(await contractService.createMembershipKey());
   await exampleCheckVendorStatus();
-  await exampleCompleteWorkflow();
+  await exampleCompleteWorkflow(attestationFiles);
 }
 
 // Export for use in tests or main entry point
@@ -13,8 +13,73 @@ export {
   contractService,
   VendorQualificationService,
   CONTRACT_CONFIG,
+  NETWORK_NAME,
+  NETWORK_PROFILE,
+  NETWORK_PROFILES,
+  generateSalt,
+  parseIssuedAttestation,
+  hexToBytes,
+  bytesToHex,
+  encodeCriterionLabel,
+  decodeCriterionLabel,
+  COMPLIANCE_PROFILE_SLOTS,
+  QUALIFICATION_BATCH_SIZE,
+  chunkBatch,
+  hashEvidenceFiles,
+  indexerLedgerReader,
+  VENDOR_METRICS,
+  metricScores,
+  weightedScore,
+  VENDOR_TIERS,
+  type VendorTier,
+  type NetworkProfile,
+  type VendorMetrics,
+  type VendorMetricName,
+  type ScoringWeights,
   type VerifyQualificationParams,
+  type CommitScoreParams,
+  type ProveTierParams,
   type CheckComplianceParams,
+  type VendorQualificationRecord,
+  type BlindingPrivateState,
+  type PrivateStateStore,
+  type ContractConnection,
+  type BlindingPureCircuits,
+  type LedgerMap,
+  type LedgerSet,
+  type BlindingLedgerState,
+  type ProcurementRoundState,
+  type QualificationRecordState,
+  type QualificationProposalState,
+  type LedgerMerkleTree,
+  type TenderState,
+  type SealedBidRecord,
+  type ProcurementRoundSummary,
+  type PendingProposalSummary,
+  type QualificationBatchEntry,
+  type BatchProgress,
+  type ProposalBatchSummary,
+  type ApprovalBatchSummary,
+  type ComplianceCriterionSummary,
+  type ComplianceProfileSummary,
+  type CurvePoint,
+  type AttestationRecord,
+  type IssuedAttestation,
+  type TierBandState,
+  type TierBandSummary,
+  type ProofReceiptState,
+  type ProofReceiptSummary,
+  type EvidenceSummary,
+  type EvidenceCheckSummary,
+  type VendorEnrolmentSummary,
+  type StatusQueryIdentity,
+  type RoundStatisticsSummary,
+  type ProfileStatisticsSummary,
+  type QualificationStatisticsSummary,
+  type CertifierState,
+  type CertifierSummary,
+  type TenderPhase,
+  type TenderSummary,
   type SmartContractResponse,
 } from '../services/ContractService';
 
@@ -25,9 +90,26 @@ export {
 export {
   // Individual hooks for specific circuits
   useVerifyQualification,
+  useCommitScore,
   useCheckCompliance,
-  useRecordQualification,
+  useQualificationProposals,
+  useQualificationBatch,
+  useOfficers,
+  useVendorEnrolment,
+  useRevokeQualification,
   useCheckVendorStatus,
+  useVendorTier,
+  useProofReceipt,
+  useEvidence,
+  useProcurementRounds,
+  useContractConnection,
+  useQualificationStatistics,
+  useRoundThreshold,
+  useRoundWeights,
+  useCertifiers,
+  useComplianceProfile,
+  useMembershipProof,
+  useTender,
   // Unified hook for all methods
   useVendorQualificationContract,
 } from './useContractMethods';
@@ -52,7 +134,12 @@ export type {
  *    import { useVerifyQualification } from '@/hooks/index'
  * 
  *    const { verify, loading, result, error } = useVerifyQualification();
- *    await verify({ vendorScore: 85, minimumThreshold: 80, salt: 12345 });
+ *    await verify({
+ *      vendorId: 999,
+ *      metrics: { deliveryPunctuality: 92, defectRate: 3, priceCompetitiveness: 80, esgRating: 75 },
+ *      roundId: 1,
+ *      salt: 12345
+ *    });
  * 
  * 
  * 2. Using Unified Hook:
@@ -68,8 +155,9 @@ export type {
  *    import { contractService } from '@/hooks/index'
  * 
  *    const result = await contractService.verifyQualification({
- *      vendorScore: 85,
- *      minimumThreshold: 80,
+ *      vendorId: 999,
+ *      metrics: { deliveryPunctuality: 92, defectRate: 3, priceCompetitiveness: 80, esgRating: 75 },
+ *      roundId: 1,
  *      salt: 12345
  *    });
  * 
@@ -4,12 +4,31 @@
  * Provides easy-to-use hooks for calling contract methods from React components
  */
 
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useEffect } from 'react';
 import { 
   contractService, 
   SmartContractResponse,
+  ProcurementRoundSummary,
+  QualificationStatisticsSummary,
+  PendingProposalSummary,
+  QualificationBatchEntry,
+  BatchProgress,
+  CertifierSummary,
+  TenderSummary,
+  ProofReceiptSummary,
+  EvidenceSummary,
+  EvidenceCheckSummary,
+  VendorEnrolmentSummary,
+  ComplianceProfileSummary,
+  CurvePoint,
+  ScoringWeights,
+  TierBandSummary,
+  VendorTier,
   VerifyQualificationParams,
+  CommitScoreParams,
+  ProveTierParams,
   CheckComplianceParams,
+  ContractConnection,
   CONTRACT_CONFIG
 } from '../services/ContractService';
 
@@ -44,6 +63,37 @@ export function useVerifyQualification() {
   return { verify, loading, result, error };
 }
 
+// ============================================================================
+// COMMIT SCORE HOOK
+// ============================================================================
+
+export function useCommitScore() {
+  const [loading, setLoading] = useState(false);
+  const [result, setResult] = useState<SmartContractResponse | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const commit = useCallback(async (params: CommitScoreParams) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await contractService.commitScore(params);
+      setResult(response);
+      if (response.error) {
+        setError(response.error);
+      }
+      return response;
+    } catch (err) {
+      const errorMsg = err instanceof Error ? err.message : 'Unknown error';
+      setError(errorMsg);
+      throw err;
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  return { commit, loading, result, error };
+}
+
 // ============================================================================
 // CHECK COMPLIANCE HOOK
 // ============================================================================
@@ -76,19 +126,66 @@ export function useCheckCompliance() {
 }
 
 // ============================================================================
-// RECORD QUALIFICATION HOOK
+// QUALIFICATION PROPOSALS HOOK (k-of-n officer approval)
 // ============================================================================
 
-export function useRecordQualification() {
+export function useQualificationProposals() {
   const [loading, setLoading] = useState(false);
+  const [pending, setPending] = useState<PendingProposalSummary[]>([]);
   const [result, setResult] = useState<SmartContractResponse | null>(null);
   const [error, setError] = useState<string | null>(null);
 
-  const record = useCallback(async (vendorId: number) => {
+  const listPending = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await contractService.listPendingProposals();
+      setResult(response);
+      if (response.error) {
+        setError(response.error);
+      } else {
+        setPending(response.result);
+      }
+      return response;
+    } catch (err) {
+      const errorMsg = err instanceof Error ? err.message : 'Unknown error';
+      setError(errorMsg);
+      throw err;
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const propose = useCallback(async (
+    roundId: number,
+    vendorRef: string,
+    expiresAt: Date,
+    membershipCommitment: string,
+    evidenceHash?: string
+  ) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await contractService.proposeQualification(roundId, vendorRef, expiresAt, membershipCommitment, evidenceHash);
+      setResult(response);
+      if (response.error) {
+        setError(response.error);
+      }
+      return response;
+    } catch (err) {
+      const errorMsg = err instanceof Error ? err.message : 'Unknown error';
+      setError(errorMsg);
+      throw err;
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const approve = useCallback(async (proposalId: number) => {
     setLoading(true);
     setError(null);
     try {
-      const response = await contractService.recordQualification(vendorId);
+      const response = await contractService.approveQualification(proposalId);
       setResult(response);
       if (response.error) {
         setError(response.error);
@@ -103,23 +200,25 @@ export function useRecordQualification() {
     }
   }, []);
 
-  return { record, loading, result, error };
+  return { listPending, propose, approve, pending, loading, result, error };
 }
 
 // ============================================================================
-// CHECK VENDOR STATUS HOOK
+// QUALIFICATION BATCH HOOK (chunked propose / approve)
 // ============================================================================
 
-export function useCheckVendorStatus() {
+export function useQualificationBatch() {
   const [loading, setLoading] = useState(false);
+  const [progress, setProgress] = useState<BatchProgress | null>(null);
   const [result, setResult] = useState<SmartContractResponse | null>(null);
   const [error, setError] = useState<string | null>(null);
 
-  const check = useCallback(async (vendorId: number) => {
+  const proposeBatch = useCallback(async (roundId: number, entries: QualificationBatchEntry[], expiresAt: Date) => {
     setLoading(true);
     setError(null);
+    setProgress(null);
     try {
-      const response = await contractService.isVendorQualified(vendorId);
+      const response = await contractService.proposeQualificationBatch(roundId, entries, expiresAt, setProgress);
       setResult(response);
       if (response.error) {
         setError(response.error);
@@ -134,25 +233,64 @@ export function useCheckVendorStatus() {
     }
   }, []);
 
-  return { check, loading, result, error };
+  const approveBatch = useCallback(async (proposalIds: number[]) => {
+    setLoading(true);
+    setError(null);
+    setProgress(null);
+    try {
+      const response = await contractService.approveQualificationBatch(proposalIds, setProgress);
+      setResult(response);
+      if (response.error) {
+        setError(response.error);
+      }
+      return response;
+    } catch (err) {
+      const errorMsg = err instanceof Error ? err.message : 'Unknown error';
+      setError(errorMsg);
+      throw err;
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  return { proposeBatch, approveBatch, progress, loading, result, error };
 }
 
 // ============================================================================
-// UNIFIED CONTRACT HOOK (All Methods)
+// PROCUREMENT OFFICERS HOOK
 // ============================================================================
 
-export function useVendorQualificationContract() {
+export function useOfficers() {
   const [loading, setLoading] = useState(false);
+  const [officerPublicKey, setOfficerPublicKey] = useState<string | null>(null);
   const [result, setResult] = useState<SmartContractResponse | null>(null);
   const [error, setError] = useState<string | null>(null);
 
-  const verifyQualification = useCallback(async (params: VerifyQualificationParams) => {
+  const createOfficerKey = useCallback(async () => {
     setLoading(true);
     setError(null);
     try {
-      const response = await contractService.verifyQualification(params);
+      const publicKey = await contractService.createOfficerKey();
+      setOfficerPublicKey(publicKey);
+      return publicKey;
+    } catch (err) {
+      const errorMsg = err instanceof Error ? err.message : 'Unknown error';
+      setError(errorMsg);
+      throw err;
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const registerOfficer = useCallback(async (officerKey: string) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await contractService.registerOfficer(officerKey);
       setResult(response);
-      if (response.error) setError(response.error);
+      if (response.error) {
+        setError(response.error);
+      }
       return response;
     } catch (err) {
       const errorMsg = err instanceof Error ? err.message : 'Unknown error';
@@ -163,11 +301,1765 @@ export function useVendorQualificationContract() {
     }
   }, []);
 
-  const checkCompliance = useCallback(async (params: CheckComplianceParams) => {
+  const removeOfficer = useCallback(async (officerKey: string) => {
     setLoading(true);
     setError(null);
     try {
-      const response = await contractService.checkCompliance(params);
+      const response = await contractService.removeOfficer(officerKey);
+      setResult(response);
+      if (response.error) {
+        setError(response.error);
+      }
+      return response;
+    } catch (err) {
+      const errorMsg = err instanceof Error ? err.message : 'Unknown error';
+      setError(errorMsg);
+      throw err;
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const setApprovalThreshold = useCallback(async (threshold: number) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await contractService.setApprovalThreshold(threshold);
+      setResult(response);
+      if (response.error) {
+        setError(response.error);
+      }
+      return response;
+    } catch (err) {
+      const errorMsg = err instanceof Error ? err.message : 'Unknown error';
+      setError(errorMsg);
+      throw err;
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  return {
+    createOfficerKey,
+    registerOfficer,
+    removeOfficer,
+    setApprovalThreshold,
+    officerPublicKey,
+    loading,
+    result,
+    error
+  };
+}
+
+// ============================================================================
+// VENDOR ENROLMENT HOOK
+// ============================================================================
+
+export function useVendorEnrolment() {
+  const [loading, setLoading] = useState(false);
+  const [vendorPublicKey, setVendorPublicKey] = useState<string | null>(null);
+  const [vendorRef, setVendorRef] = useState<string | null>(null);
+  const [enrolment, setEnrolment] = useState<VendorEnrolmentSummary | null>(null);
+  const [result, setResult] = useState<SmartContractResponse | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const createVendorKey = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const publicKey = await contractService.createVendorKey();
+      setVendorPublicKey(publicKey);
+      return publicKey;
+    } catch (err) {
+      const errorMsg = err instanceof Error ? err.message : 'Unknown error';
+      setError(errorMsg);
+      throw err;
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const createVendorReference = useCallback(async (vendorId: number) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const reference = await contractService.createVendorReference(vendorId);
+      setVendorRef(reference);
+      return reference;
+    } catch (err) {
+      const errorMsg = err instanceof Error ? err.message : 'Unknown error';
+      setError(errorMsg);
+      throw err;
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const fetchEnrolment = useCallback(async (vendorRef: string) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await contractService.getVendorEnrolment(vendorRef);
+      setResult(response);
+      if (response.error) {
+        setError(response.error);
+        setEnrolment(null);
+      } else {
+        setEnrolment(response.result);
+      }
+      return response;
+    } catch (err) {
+      const errorMsg = err instanceof Error ? err.message : 'Unknown error';
+      setError(errorMsg);
+      throw err;
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const enrol = useCallback(async (vendorRef: string, publicKey: string) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await contractService.enrolVendor(vendorRef, publicKey);
+      setResult(response);
+      if (response.error) {
+        setError(response.error);
+      }
+      return response;
+    } catch (err) {
+      const errorMsg = err instanceof Error ? err.message : 'Unknown error';
+      setError(errorMsg);
+      throw err;
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const rotateKey = useCallback(async (vendorRef: string) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await contractService.rotateVendorKey(vendorRef);
+      setResult(response);
+      if (response.error) {
+        setError(response.error);
+      } else {
+        setVendorPublicKey(response.result);
+      }
+      return response;
+    } catch (err) {
+      const errorMsg = err instanceof Error ? err.message : 'Unknown error';
+      setError(errorMsg);
+      throw err;
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  return {
+    createVendorKey,
+    createVendorReference,
+    fetchEnrolment,
+    enrol,
+    rotateKey,
+    vendorPublicKey,
+    vendorRef,
+    enrolment,
+    loading,
+    result,
+    error
+  };
+}
+
+// ============================================================================
+// REVOKE QUALIFICATION HOOK
+// ============================================================================
+
+export function useRevokeQualification() {
+  const [loading, setLoading] = useState(false);
+  const [result, setResult] = useState<SmartContractResponse | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const revoke = useCallback(async (roundId: number, vendorRef: string) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await contractService.revokeQualification(roundId, vendorRef);
+      setResult(response);
+      if (response.error) {
+        setError(response.error);
+      }
+      return response;
+    } catch (err) {
+      const errorMsg = err instanceof Error ? err.message : 'Unknown error';
+      setError(errorMsg);
+      throw err;
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  return { revoke, loading, result, error };
+}
+
+// ============================================================================
+// CHECK VENDOR STATUS HOOK
+// ============================================================================
+
+export function useCheckVendorStatus() {
+  const [loading, setLoading] = useState(false);
+  const [result, setResult] = useState<SmartContractResponse | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const check = useCallback(async (roundId: number, vendorRef: string) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await contractService.isVendorQualified(roundId, vendorRef);
+      setResult(response);
+      if (response.error) {
+        setError(response.error);
+      }
+      return response;
+    } catch (err) {
+      const errorMsg = err instanceof Error ? err.message : 'Unknown error';
+      setError(errorMsg);
+      throw err;
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  return { check, loading, result, error };
+}
+
+// ============================================================================
+// VENDOR TIER HOOK
+// ============================================================================
+
+export function useVendorTier() {
+  const [loading, setLoading] = useState(false);
+  const [tier, setTier] = useState<VendorTier | null>(null);
+  const [bands, setBands] = useState<TierBandSummary[] | null>(null);
+  const [result, setResult] = useState<SmartContractResponse | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchTier = useCallback(async (roundId: number, vendorRef: string) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await contractService.getVendorTier(roundId, vendorRef);
+      setResult(response);
+      if (response.error) {
+        setError(response.error);
+        setTier(null);
+      } else {
+        setTier(response.result);
+      }
+      return response;
+    } catch (err) {
+      const errorMsg = err instanceof Error ? err.message : 'Unknown error';
+      setError(errorMsg);
+      throw err;
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const proveTier = useCallback(async (params: ProveTierParams) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await contractService.proveTier(params);
+      setResult(response);
+      if (response.error) {
+        setError(response.error);
+      } else {
+        setTier(params.tier);
+      }
+      return response;
+    } catch (err) {
+      const errorMsg = err instanceof Error ? err.message : 'Unknown error';
+      setError(errorMsg);
+      throw err;
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const fetchBands = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await contractService.listTierBands();
+      setResult(response);
+      if (response.error) {
+        setError(response.error);
+        setBands(null);
+      } else {
+        setBands(response.result);
+      }
+      return response;
+    } catch (err) {
+      const errorMsg = err instanceof Error ? err.message : 'Unknown error';
+      setError(errorMsg);
+      throw err;
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const setTierBand = useCallback(async (bandTier: VendorTier, low: number, high: number) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await contractService.setTierBand(bandTier, low, high);
+      setResult(response);
+      if (response.error) {
+        setError(response.error);
+      }
+      return response;
+    } catch (err) {
+      const errorMsg = err instanceof Error ? err.message : 'Unknown error';
+      setError(errorMsg);
+      throw err;
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  return { fetchTier, fetchBands, proveTier, setTierBand, tier, bands, loading, result, error };
+}
+
+// ============================================================================
+// PROOF RECEIPT HOOK
+// ============================================================================
+
+export function useProofReceipt() {
+  const [loading, setLoading] = useState(false);
+  const [receipt, setReceipt] = useState<ProofReceiptSummary | null>(null);
+  const [validitySeconds, setValiditySeconds] = useState<number | null>(null);
+  const [result, setResult] = useState<SmartContractResponse | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchReceipt = useCallback(async (roundId: number, vendorRef: string) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await contractService.getProofReceipt(roundId, vendorRef);
+      setResult(response);
+      if (response.error) {
+        setError(response.error);
+        setReceipt(null);
+      } else {
+        setReceipt(response.result);
+      }
+      return response;
+    } catch (err) {
+      const errorMsg = err instanceof Error ? err.message : 'Unknown error';
+      setError(errorMsg);
+      throw err;
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const fetchValidity = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await contractService.getReceiptValidity();
+      setResult(response);
+      if (response.error) {
+        setError(response.error);
+        setValiditySeconds(null);
+      } else {
+        setValiditySeconds(response.result);
+      }
+      return response;
+    } catch (err) {
+      const errorMsg = err instanceof Error ? err.message : 'Unknown error';
+      setError(errorMsg);
+      throw err;
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  return { fetchReceipt, fetchValidity, receipt, validitySeconds, loading, result, error };
+}
+
+// ============================================================================
+// EVIDENCE HOOK (hashes files locally, never uploads them)
+// ============================================================================
+
+export function useEvidence() {
+  const [loading, setLoading] = useState(false);
+  const [evidence, setEvidence] = useState<EvidenceSummary | null>(null);
+  const [check, setCheck] = useState<EvidenceCheckSummary | null>(null);
+  const [result, setResult] = useState<SmartContractResponse | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchEvidence = useCallback(async (roundId: number, vendorRef: string) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await contractService.getEvidenceHash(roundId, vendorRef);
+      setResult(response);
+      if (response.error) {
+        setError(response.error);
+        setEvidence(null);
+      } else {
+        setEvidence(response.result);
+      }
+      return response;
+    } catch (err) {
+      const errorMsg = err instanceof Error ? err.message : 'Unknown error';
+      setError(errorMsg);
+      throw err;
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const verify = useCallback(async (roundId: number, vendorRef: string, files: Iterable<Blob>) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await contractService.verifyEvidence(roundId, vendorRef, files);
+      setResult(response);
+      if (response.error) {
+        setError(response.error);
+        setCheck(null);
+      } else {
+        setCheck(response.result);
+      }
+      return response;
+    } catch (err) {
+      const errorMsg = err instanceof Error ? err.message : 'Unknown error';
+      setError(errorMsg);
+      throw err;
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  return { fetchEvidence, verify, evidence, check, loading, result, error };
+}
+
+// ============================================================================
+// COMPLIANCE PROFILE HOOK
+// ============================================================================
+
+export function useComplianceProfile() {
+  const [loading, setLoading] = useState(false);
+  const [profile, setProfile] = useState<ComplianceProfileSummary | null>(null);
+  const [result, setResult] = useState<SmartContractResponse | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchProfile = useCallback(async (profileId: number) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await contractService.getComplianceProfile(profileId);
+      setResult(response);
+      if (response.error) {
+        setError(response.error);
+        setProfile(null);
+      } else {
+        setProfile(response.result);
+      }
+      return response;
+    } catch (err) {
+      const errorMsg = err instanceof Error ? err.message : 'Unknown error';
+      setError(errorMsg);
+      throw err;
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const defineCriterion = useCallback(async (criterionId: number, label: string) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await contractService.defineCriterion(criterionId, label);
+      setResult(response);
+      if (response.error) {
+        setError(response.error);
+      }
+      return response;
+    } catch (err) {
+      const errorMsg = err instanceof Error ? err.message : 'Unknown error';
+      setError(errorMsg);
+      throw err;
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const setComplianceProfile = useCallback(async (profileId: number, criterionIds: number[]) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await contractService.setComplianceProfile(profileId, criterionIds);
+      setResult(response);
+      if (response.error) {
+        setError(response.error);
+      }
+      return response;
+    } catch (err) {
+      const errorMsg = err instanceof Error ? err.message : 'Unknown error';
+      setError(errorMsg);
+      throw err;
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  return { fetchProfile, defineCriterion, setComplianceProfile, profile, loading, result, error };
+}
+
+// ============================================================================
+// CONTRACT CONNECTION HOOK
+// ============================================================================
+
+/**
+ * Bind a joined contract and its providers to the shared service
+ * connected turns true once everything is bound, so ledger readers can start refreshing
+ */
+export function useContractConnection(connection?: ContractConnection) {
+  const [connected, setConnected] = useState(() => contractService.isConnected());
+
+  useEffect(() => {
+    if (!connection) return;
+    contractService.connect(connection);
+    setConnected(contractService.isConnected());
+  }, [connection]);
+
+  return { connected };
+}
+
+// ============================================================================
+// QUALIFICATION STATISTICS HOOK
+// ============================================================================
+
+/**
+ * Aggregate counters from the public ledger
+ * Pass pollIntervalMs to re-read them periodically so the numbers follow the ledger
+ */
+export function useQualificationStatistics(pollIntervalMs?: number) {
+  const [loading, setLoading] = useState(false);
+  const [statistics, setStatistics] = useState<QualificationStatisticsSummary | null>(null);
+  const [result, setResult] = useState<SmartContractResponse | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchStatistics = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await contractService.getQualificationStatistics();
+      setResult(response);
+      if (response.error) {
+        setError(response.error);
+      } else {
+        setStatistics(response.result);
+      }
+      return response;
+    } catch (err) {
+      const errorMsg = err instanceof Error ? err.message : 'Unknown error';
+      setError(errorMsg);
+      throw err;
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!pollIntervalMs) return;
+    fetchStatistics();
+    const timer = setInterval(fetchStatistics, pollIntervalMs);
+    return () => clearInterval(timer);
+  }, [pollIntervalMs, fetchStatistics]);
+
+  return { fetchStatistics, statistics, loading, result, error };
+}
+
+// ============================================================================
+// PROCUREMENT ROUNDS HOOK
+// ============================================================================
+
+export function useProcurementRounds() {
+  const [loading, setLoading] = useState(false);
+  const [rounds, setRounds] = useState<ProcurementRoundSummary[]>([]);
+  const [result, setResult] = useState<SmartContractResponse | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const listRounds = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await contractService.listRounds();
+      setResult(response);
+      if (response.error) {
+        setError(response.error);
+      } else {
+        setRounds(response.result);
+      }
+      return response;
+    } catch (err) {
+      const errorMsg = err instanceof Error ? err.message : 'Unknown error';
+      setError(errorMsg);
+      throw err;
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const createRound = useCallback(async (roundId: number) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await contractService.createRound(roundId);
+      setResult(response);
+      if (response.error) {
+        setError(response.error);
+      }
+      return response;
+    } catch (err) {
+      const errorMsg = err instanceof Error ? err.message : 'Unknown error';
+      setError(errorMsg);
+      throw err;
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const closeRound = useCallback(async (roundId: number) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await contractService.closeRound(roundId);
+      setResult(response);
+      if (response.error) {
+        setError(response.error);
+      }
+      return response;
+    } catch (err) {
+      const errorMsg = err instanceof Error ? err.message : 'Unknown error';
+      setError(errorMsg);
+      throw err;
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  return { listRounds, createRound, closeRound, rounds, loading, result, error };
+}
+
+// ============================================================================
+// ROUND THRESHOLD HOOK
+// ============================================================================
+
+export function useRoundThreshold() {
+  const [loading, setLoading] = useState(false);
+  const [threshold, setThresholdValue] = useState<number | null>(null);
+  const [result, setResult] = useState<SmartContractResponse | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchThreshold = useCallback(async (roundId: number) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await contractService.getActiveThreshold(roundId);
+      setResult(response);
+      if (response.error) {
+        setError(response.error);
+        setThresholdValue(null);
+      } else {
+        setThresholdValue(response.result);
+      }
+      return response;
+    } catch (err) {
+      const errorMsg = err instanceof Error ? err.message : 'Unknown error';
+      setError(errorMsg);
+      throw err;
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const setThreshold = useCallback(async (roundId: number, minimumThreshold: number) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await contractService.setRoundThreshold(roundId, minimumThreshold);
+      setResult(response);
+      if (response.error) {
+        setError(response.error);
+      } else {
+        setThresholdValue(minimumThreshold);
+      }
+      return response;
+    } catch (err) {
+      const errorMsg = err instanceof Error ? err.message : 'Unknown error';
+      setError(errorMsg);
+      throw err;
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  return { fetchThreshold, setThreshold, threshold, loading, result, error };
+}
+
+// ============================================================================
+// ROUND SCORING WEIGHTS HOOK
+// ============================================================================
+
+export function useRoundWeights() {
+  const [loading, setLoading] = useState(false);
+  const [weights, setWeightsValue] = useState<ScoringWeights | null>(null);
+  const [result, setResult] = useState<SmartContractResponse | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchWeights = useCallback(async (roundId: number) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await contractService.getRoundWeights(roundId);
+      setResult(response);
+      if (response.error) {
+        setError(response.error);
+        setWeightsValue(null);
+      } else {
+        setWeightsValue(response.result);
+      }
+      return response;
+    } catch (err) {
+      const errorMsg = err instanceof Error ? err.message : 'Unknown error';
+      setError(errorMsg);
+      throw err;
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const setWeights = useCallback(async (roundId: number, roundWeights: ScoringWeights) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await contractService.setRoundWeights(roundId, roundWeights);
+      setResult(response);
+      if (response.error) {
+        setError(response.error);
+      } else {
+        setWeightsValue(roundWeights);
+      }
+      return response;
+    } catch (err) {
+      const errorMsg = err instanceof Error ? err.message : 'Unknown error';
+      setError(errorMsg);
+      throw err;
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  return { fetchWeights, setWeights, weights, loading, result, error };
+}
+
+// ============================================================================
+// CERTIFIER REGISTRY HOOK
+// ============================================================================
+
+export function useCertifiers() {
+  const [loading, setLoading] = useState(false);
+  const [certifiers, setCertifiers] = useState<CertifierSummary[]>([]);
+  const [result, setResult] = useState<SmartContractResponse | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const listCertifiers = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await contractService.listCertifiers();
+      setResult(response);
+      if (response.error) {
+        setError(response.error);
+      } else {
+        setCertifiers(response.result);
+      }
+      return response;
+    } catch (err) {
+      const errorMsg = err instanceof Error ? err.message : 'Unknown error';
+      setError(errorMsg);
+      throw err;
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const registerCertifier = useCallback(async (
+    certifierId: number,
+    publicKey: CurvePoint,
+    criterionId: number
+  ) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await contractService.registerCertifier(certifierId, publicKey, criterionId);
+      setResult(response);
+      if (response.error) {
+        setError(response.error);
+      }
+      return response;
+    } catch (err) {
+      const errorMsg = err instanceof Error ? err.message : 'Unknown error';
+      setError(errorMsg);
+      throw err;
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const removeCertifier = useCallback(async (certifierId: number) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await contractService.removeCertifier(certifierId);
+      setResult(response);
+      if (response.error) {
+        setError(response.error);
+      }
+      return response;
+    } catch (err) {
+      const errorMsg = err instanceof Error ? err.message : 'Unknown error';
+      setError(errorMsg);
+      throw err;
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  return { listCertifiers, registerCertifier, removeCertifier, certifiers, loading, result, error };
+}
+
+// ============================================================================
+// ANONYMOUS MEMBERSHIP HOOK
+// ============================================================================
+
+export function useMembershipProof() {
+  const [loading, setLoading] = useState(false);
+  const [membershipCommitment, setMembershipCommitment] = useState<string | null>(null);
+  const [result, setResult] = useState<SmartContractResponse | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const createMembershipKey = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const commitment = await contractService.createMembershipKey();
+      setMembershipCommitment(commitment);
+      return commitment;
+    } catch (err) {
+      const errorMsg = err instanceof Error ? err.message : 'Unknown error';
+      setError(errorMsg);
+      throw err;
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const prove = useCallback(async (roundId: number, vendorId: number) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await contractService.proveMembership(roundId, vendorId);
+      setResult(response);
+      if (response.error) {
+        setError(response.error);
+      }
+      return response;
+    } catch (err) {
+      const errorMsg = err instanceof Error ? err.message : 'Unknown error';
+      setError(errorMsg);
+      throw err;
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  return { createMembershipKey, prove, membershipCommitment, loading, result, error };
+}
+
+// ============================================================================
+// SEALED-BID TENDER HOOK
+// ============================================================================
+
+export function useTender() {
+  const [loading, setLoading] = useState(false);
+  const [tender, setTender] = useState<TenderSummary | null>(null);
+  const [result, setResult] = useState<SmartContractResponse | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchTender = useCallback(async (roundId: number) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await contractService.getTender(roundId);
+      setResult(response);
+      if (response.error) {
+        setError(response.error);
+      } else {
+        setTender(response.result);
+      }
+      return response;
+    } catch (err) {
+      const errorMsg = err instanceof Error ? err.message : 'Unknown error';
+      setError(errorMsg);
+      throw err;
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const openTender = useCallback(async (roundId: number, biddingEndsAt: Date, revealEndsAt: Date) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await contractService.openTender(roundId, biddingEndsAt, revealEndsAt);
+      setResult(response);
+      if (response.error) {
+        setError(response.error);
+      }
+      return response;
+    } catch (err) {
+      const errorMsg = err instanceof Error ? err.message : 'Unknown error';
+      setError(errorMsg);
+      throw err;
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const commitBid = useCallback(async (roundId: number, vendorId: number, amount: number) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await contractService.commitBid(roundId, vendorId, amount);
+      setResult(response);
+      if (response.error) {
+        setError(response.error);
+      }
+      return response;
+    } catch (err) {
+      const errorMsg = err instanceof Error ? err.message : 'Unknown error';
+      setError(errorMsg);
+      throw err;
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const revealBid = useCallback(async (roundId: number, vendorId: number) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await contractService.revealBid(roundId, vendorId);
+      setResult(response);
+      if (response.error) {
+        setError(response.error);
+      }
+      return response;
+    } catch (err) {
+      const errorMsg = err instanceof Error ? err.message : 'Unknown error';
+      setError(errorMsg);
+      throw err;
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const finalizeTender = useCallback(async (roundId: number) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await contractService.finalizeTender(roundId);
+      setResult(response);
+      if (response.error) {
+        setError(response.error);
+      }
+      return response;
+    } catch (err) {
+      const errorMsg = err instanceof Error ? err.message : 'Unknown error';
+      setError(errorMsg);
+      throw err;
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  return { fetchTender, openTender, commitBid, revealBid, finalizeTender, tender, loading, result, error };
+}
+
+// ============================================================================
+// UNIFIED CONTRACT HOOK (All Methods)
+// ============================================================================
+
+export function useVendorQualificationContract() {
+  const [loading, setLoading] = useState(false);
+  const [result, setResult] = useState<SmartContractResponse | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const verifyQualification = useCallback(async (params: VerifyQualificationParams) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await contractService.verifyQualification(params);
+      setResult(response);
+      if (response.error) setError(response.error);
+      return response;
+    } catch (err) {
+      const errorMsg = err instanceof Error ? err.message : 'Unknown error';
+      setError(errorMsg);
+      throw err;
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const commitScore = useCallback(async (params: CommitScoreParams) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await contractService.commitScore(params);
+      setResult(response);
+      if (response.error) setError(response.error);
+      return response;
+    } catch (err) {
+      const errorMsg = err instanceof Error ? err.message : 'Unknown error';
+      setError(errorMsg);
+      throw err;
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const checkCompliance = useCallback(async (params: CheckComplianceParams) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await contractService.checkCompliance(params);
+      setResult(response);
+      if (response.error) setError(response.error);
+      return response;
+    } catch (err) {
+      const errorMsg = err instanceof Error ? err.message : 'Unknown error';
+      setError(errorMsg);
+      throw err;
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const proposeQualification = useCallback(async (
+    roundId: number,
+    vendorRef: string,
+    expiresAt: Date,
+    membershipCommitment: string,
+    evidenceHash?: string
+  ) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await contractService.proposeQualification(roundId, vendorRef, expiresAt, membershipCommitment, evidenceHash);
+      setResult(response);
+      if (response.error) setError(response.error);
+      return response;
+    } catch (err) {
+      const errorMsg = err instanceof Error ? err.message : 'Unknown error';
+      setError(errorMsg);
+      throw err;
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const approveQualification = useCallback(async (proposalId: number) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await contractService.approveQualification(proposalId);
+      setResult(response);
+      if (response.error) setError(response.error);
+      return response;
+    } catch (err) {
+      const errorMsg = err instanceof Error ? err.message : 'Unknown error';
+      setError(errorMsg);
+      throw err;
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const proposeQualificationBatch = useCallback(async (
+    roundId: number,
+    entries: QualificationBatchEntry[],
+    expiresAt: Date,
+    onProgress?: (progress: BatchProgress) => void
+  ) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await contractService.proposeQualificationBatch(roundId, entries, expiresAt, onProgress);
+      setResult(response);
+      if (response.error) setError(response.error);
+      return response;
+    } catch (err) {
+      const errorMsg = err instanceof Error ? err.message : 'Unknown error';
+      setError(errorMsg);
+      throw err;
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const approveQualificationBatch = useCallback(async (proposalIds: number[], onProgress?: (progress: BatchProgress) => void) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await contractService.approveQualificationBatch(proposalIds, onProgress);
+      setResult(response);
+      if (response.error) setError(response.error);
+      return response;
+    } catch (err) {
+      const errorMsg = err instanceof Error ? err.message : 'Unknown error';
+      setError(errorMsg);
+      throw err;
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const listPendingProposals = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await contractService.listPendingProposals();
+      setResult(response);
+      if (response.error) setError(response.error);
+      return response;
+    } catch (err) {
+      const errorMsg = err instanceof Error ? err.message : 'Unknown error';
+      setError(errorMsg);
+      throw err;
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const registerOfficer = useCallback(async (officerKey: string) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await contractService.registerOfficer(officerKey);
+      setResult(response);
+      if (response.error) setError(response.error);
+      return response;
+    } catch (err) {
+      const errorMsg = err instanceof Error ? err.message : 'Unknown error';
+      setError(errorMsg);
+      throw err;
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const removeOfficer = useCallback(async (officerKey: string) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await contractService.removeOfficer(officerKey);
+      setResult(response);
+      if (response.error) setError(response.error);
+      return response;
+    } catch (err) {
+      const errorMsg = err instanceof Error ? err.message : 'Unknown error';
+      setError(errorMsg);
+      throw err;
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const setApprovalThreshold = useCallback(async (threshold: number) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await contractService.setApprovalThreshold(threshold);
+      setResult(response);
+      if (response.error) setError(response.error);
+      return response;
+    } catch (err) {
+      const errorMsg = err instanceof Error ? err.message : 'Unknown error';
+      setError(errorMsg);
+      throw err;
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const revokeQualification = useCallback(async (roundId: number, vendorRef: string) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await contractService.revokeQualification(roundId, vendorRef);
+      setResult(response);
+      if (response.error) setError(response.error);
+      return response;
+    } catch (err) {
+      const errorMsg = err instanceof Error ? err.message : 'Unknown error';
+      setError(errorMsg);
+      throw err;
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const checkVendorStatus = useCallback(async (roundId: number, vendorRef: string) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await contractService.isVendorQualified(roundId, vendorRef);
+      setResult(response);
+      if (response.error) setError(response.error);
+      return response;
+    } catch (err) {
+      const errorMsg = err instanceof Error ? err.message : 'Unknown error';
+      setError(errorMsg);
+      throw err;
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const getProofReceipt = useCallback(async (roundId: number, vendorRef: string) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await contractService.getProofReceipt(roundId, vendorRef);
+      setResult(response);
+      if (response.error) setError(response.error);
+      return response;
+    } catch (err) {
+      const errorMsg = err instanceof Error ? err.message : 'Unknown error';
+      setError(errorMsg);
+      throw err;
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const getReceiptValidity = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await contractService.getReceiptValidity();
+      setResult(response);
+      if (response.error) setError(response.error);
+      return response;
+    } catch (err) {
+      const errorMsg = err instanceof Error ? err.message : 'Unknown error';
+      setError(errorMsg);
+      throw err;
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const enrolVendor = useCallback(async (vendorRef: string, vendorPublicKey: string) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await contractService.enrolVendor(vendorRef, vendorPublicKey);
+      setResult(response);
+      if (response.error) setError(response.error);
+      return response;
+    } catch (err) {
+      const errorMsg = err instanceof Error ? err.message : 'Unknown error';
+      setError(errorMsg);
+      throw err;
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const rotateVendorKey = useCallback(async (vendorRef: string) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await contractService.rotateVendorKey(vendorRef);
+      setResult(response);
+      if (response.error) setError(response.error);
+      return response;
+    } catch (err) {
+      const errorMsg = err instanceof Error ? err.message : 'Unknown error';
+      setError(errorMsg);
+      throw err;
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const getVendorEnrolment = useCallback(async (vendorRef: string) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await contractService.getVendorEnrolment(vendorRef);
+      setResult(response);
+      if (response.error) setError(response.error);
+      return response;
+    } catch (err) {
+      const errorMsg = err instanceof Error ? err.message : 'Unknown error';
+      setError(errorMsg);
+      throw err;
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const getEvidenceHash = useCallback(async (roundId: number, vendorRef: string) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await contractService.getEvidenceHash(roundId, vendorRef);
+      setResult(response);
+      if (response.error) setError(response.error);
+      return response;
+    } catch (err) {
+      const errorMsg = err instanceof Error ? err.message : 'Unknown error';
+      setError(errorMsg);
+      throw err;
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const verifyEvidence = useCallback(async (roundId: number, vendorRef: string, files: Iterable<Blob>) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await contractService.verifyEvidence(roundId, vendorRef, files);
+      setResult(response);
+      if (response.error) setError(response.error);
+      return response;
+    } catch (err) {
+      const errorMsg = err instanceof Error ? err.message : 'Unknown error';
+      setError(errorMsg);
+      throw err;
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const setReceiptValidity = useCallback(async (seconds: number) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await contractService.setReceiptValidity(seconds);
+      setResult(response);
+      if (response.error) setError(response.error);
+      return response;
+    } catch (err) {
+      const errorMsg = err instanceof Error ? err.message : 'Unknown error';
+      setError(errorMsg);
+      throw err;
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const getVendorTier = useCallback(async (roundId: number, vendorRef: string) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await contractService.getVendorTier(roundId, vendorRef);
+      setResult(response);
+      if (response.error) setError(response.error);
+      return response;
+    } catch (err) {
+      const errorMsg = err instanceof Error ? err.message : 'Unknown error';
+      setError(errorMsg);
+      throw err;
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const proveTier = useCallback(async (params: ProveTierParams) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await contractService.proveTier(params);
+      setResult(response);
+      if (response.error) setError(response.error);
+      return response;
+    } catch (err) {
+      const errorMsg = err instanceof Error ? err.message : 'Unknown error';
+      setError(errorMsg);
+      throw err;
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const setTierBand = useCallback(async (tier: VendorTier, low: number, high: number) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await contractService.setTierBand(tier, low, high);
+      setResult(response);
+      if (response.error) setError(response.error);
+      return response;
+    } catch (err) {
+      const errorMsg = err instanceof Error ? err.message : 'Unknown error';
+      setError(errorMsg);
+      throw err;
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const createRound = useCallback(async (roundId: number) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await contractService.createRound(roundId);
+      setResult(response);
+      if (response.error) setError(response.error);
+      return response;
+    } catch (err) {
+      const errorMsg = err instanceof Error ? err.message : 'Unknown error';
+      setError(errorMsg);
+      throw err;
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const closeRound = useCallback(async (roundId: number) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await contractService.closeRound(roundId);
+      setResult(response);
+      if (response.error) setError(response.error);
+      return response;
+    } catch (err) {
+      const errorMsg = err instanceof Error ? err.message : 'Unknown error';
+      setError(errorMsg);
+      throw err;
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const setRoundThreshold = useCallback(async (roundId: number, minimumThreshold: number) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await contractService.setRoundThreshold(roundId, minimumThreshold);
+      setResult(response);
+      if (response.error) setError(response.error);
+      return response;
+    } catch (err) {
+      const errorMsg = err instanceof Error ? err.message : 'Unknown error';
+      setError(errorMsg);
+      throw err;
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const getActiveThreshold = useCallback(async (roundId: number) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await contractService.getActiveThreshold(roundId);
+      setResult(response);
+      if (response.error) setError(response.error);
+      return response;
+    } catch (err) {
+      const errorMsg = err instanceof Error ? err.message : 'Unknown error';
+      setError(errorMsg);
+      throw err;
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const setRoundWeights = useCallback(async (roundId: number, weights: ScoringWeights) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await contractService.setRoundWeights(roundId, weights);
+      setResult(response);
+      if (response.error) setError(response.error);
+      return response;
+    } catch (err) {
+      const errorMsg = err instanceof Error ? err.message : 'Unknown error';
+      setError(errorMsg);
+      throw err;
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const getRoundWeights = useCallback(async (roundId: number) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await contractService.getRoundWeights(roundId);
+      setResult(response);
+      if (response.error) setError(response.error);
+      return response;
+    } catch (err) {
+      const errorMsg = err instanceof Error ? err.message : 'Unknown error';
+      setError(errorMsg);
+      throw err;
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const listRounds = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await contractService.listRounds();
+      setResult(response);
+      if (response.error) setError(response.error);
+      return response;
+    } catch (err) {
+      const errorMsg = err instanceof Error ? err.message : 'Unknown error';
+      setError(errorMsg);
+      throw err;
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const getRoundStatistics = useCallback(async (roundId: number) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await contractService.getRoundStatistics(roundId);
+      setResult(response);
+      if (response.error) setError(response.error);
+      return response;
+    } catch (err) {
+      const errorMsg = err instanceof Error ? err.message : 'Unknown error';
+      setError(errorMsg);
+      throw err;
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const getQualificationStatistics = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await contractService.getQualificationStatistics();
+      setResult(response);
+      if (response.error) setError(response.error);
+      return response;
+    } catch (err) {
+      const errorMsg = err instanceof Error ? err.message : 'Unknown error';
+      setError(errorMsg);
+      throw err;
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const registerCertifier = useCallback(async (certifierId: number, publicKey: CurvePoint, criterionId: number) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await contractService.registerCertifier(certifierId, publicKey, criterionId);
+      setResult(response);
+      if (response.error) setError(response.error);
+      return response;
+    } catch (err) {
+      const errorMsg = err instanceof Error ? err.message : 'Unknown error';
+      setError(errorMsg);
+      throw err;
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const removeCertifier = useCallback(async (certifierId: number) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await contractService.removeCertifier(certifierId);
+      setResult(response);
+      if (response.error) setError(response.error);
+      return response;
+    } catch (err) {
+      const errorMsg = err instanceof Error ? err.message : 'Unknown error';
+      setError(errorMsg);
+      throw err;
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const listCertifiers = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await contractService.listCertifiers();
+      setResult(response);
+      if (response.error) setError(response.error);
+      return response;
+    } catch (err) {
+      const errorMsg = err instanceof Error ? err.message : 'Unknown error';
+      setError(errorMsg);
+      throw err;
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const defineCriterion = useCallback(async (criterionId: number, label: string) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await contractService.defineCriterion(criterionId, label);
+      setResult(response);
+      if (response.error) setError(response.error);
+      return response;
+    } catch (err) {
+      const errorMsg = err instanceof Error ? err.message : 'Unknown error';
+      setError(errorMsg);
+      throw err;
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const setComplianceProfile = useCallback(async (profileId: number, criterionIds: number[]) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await contractService.setComplianceProfile(profileId, criterionIds);
+      setResult(response);
+      if (response.error) setError(response.error);
+      return response;
+    } catch (err) {
+      const errorMsg = err instanceof Error ? err.message : 'Unknown error';
+      setError(errorMsg);
+      throw err;
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const getComplianceProfile = useCallback(async (profileId: number) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await contractService.getComplianceProfile(profileId);
+      setResult(response);
+      if (response.error) setError(response.error);
+      return response;
+    } catch (err) {
+      const errorMsg = err instanceof Error ? err.message : 'Unknown error';
+      setError(errorMsg);
+      throw err;
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const listComplianceCriteria = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await contractService.listComplianceCriteria();
+      setResult(response);
+      if (response.error) setError(response.error);
+      return response;
+    } catch (err) {
+      const errorMsg = err instanceof Error ? err.message : 'Unknown error';
+      setError(errorMsg);
+      throw err;
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const proveMembership = useCallback(async (roundId: number, vendorId: number) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await contractService.proveMembership(roundId, vendorId);
+      setResult(response);
+      if (response.error) setError(response.error);
+      return response;
+    } catch (err) {
+      const errorMsg = err instanceof Error ? err.message : 'Unknown error';
+      setError(errorMsg);
+      throw err;
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const openTender = useCallback(async (roundId: number, biddingEndsAt: Date, revealEndsAt: Date) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await contractService.openTender(roundId, biddingEndsAt, revealEndsAt);
+      setResult(response);
+      if (response.error) setError(response.error);
+      return response;
+    } catch (err) {
+      const errorMsg = err instanceof Error ? err.message : 'Unknown error';
+      setError(errorMsg);
+      throw err;
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const commitBid = useCallback(async (roundId: number, vendorId: number, amount: number) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await contractService.commitBid(roundId, vendorId, amount);
+      setResult(response);
+      if (response.error) setError(response.error);
+      return response;
+    } catch (err) {
+      const errorMsg = err instanceof Error ? err.message : 'Unknown error';
+      setError(errorMsg);
+      throw err;
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const revealBid = useCallback(async (roundId: number, vendorId: number) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await contractService.revealBid(roundId, vendorId);
       setResult(response);
       if (response.error) setError(response.error);
       return response;
@@ -180,11 +2072,11 @@ export function useVendorQualificationContract() {
     }
   }, []);
 
-  const recordQualification = useCallback(async (vendorId: number) => {
+  const finalizeTender = useCallback(async (roundId: number) => {
     setLoading(true);
     setError(null);
     try {
-      const response = await contractService.recordQualification(vendorId);
+      const response = await contractService.finalizeTender(roundId);
       setResult(response);
       if (response.error) setError(response.error);
       return response;
@@ -197,11 +2089,11 @@ export function useVendorQualificationContract() {
     }
   }, []);
 
-  const checkVendorStatus = useCallback(async (vendorId: number) => {
+  const getTender = useCallback(async (roundId: number) => {
     setLoading(true);
     setError(null);
     try {
-      const response = await contractService.isVendorQualified(vendorId);
+      const response = await contractService.getTender(roundId);
       setResult(response);
       if (response.error) setError(response.error);
       return response;
@@ -216,16 +2108,57 @@ export function useVendorQualificationContract() {
 
   return {
     verifyQualification,
+    commitScore,
     checkCompliance,
-    recordQualification,
+    registerCertifier,
+    removeCertifier,
+    listCertifiers,
+    defineCriterion,
+    setComplianceProfile,
+    getComplianceProfile,
+    listComplianceCriteria,
+    proposeQualification,
+    approveQualification,
+    proposeQualificationBatch,
+    approveQualificationBatch,
+    listPendingProposals,
+    registerOfficer,
+    removeOfficer,
+    setApprovalThreshold,
+    enrolVendor,
+    rotateVendorKey,
+    getVendorEnrolment,
+    getEvidenceHash,
+    verifyEvidence,
+    revokeQualification,
     checkVendorStatus,
+    getProofReceipt,
+    getReceiptValidity,
+    setReceiptValidity,
+    getVendorTier,
+    proveTier,
+    setTierBand,
+    proveMembership,
+    createRound,
+    closeRound,
+    listRounds,
+    getRoundStatistics,
+    getQualificationStatistics,
+    setRoundThreshold,
+    getActiveThreshold,
+    setRoundWeights,
+    getRoundWeights,
+    openTender,
+    commitBid,
+    revealBid,
+    finalizeTender,
+    getTender,
     loading,
     result,
     error,
     contractConfig: {
       address: CONTRACT_CONFIG.ADDRESS,
-      network: CONTRACT_CONFIG.NETWORK,
-      deployedAt: CONTRACT_CONFIG.DEPLOYED_AT
+      network: CONTRACT_CONFIG.NETWORK
     }
   };
 }
@@ -1,115 +1,2768 @@
 /**
  * Vendor Qualification Smart Contract Integration
- * Real Contract Address: 2aa78f99159e7662a1fe3658f402ef4e64ff77c8769cb07368ac1702696301f8
+ * Contract address: VITE_CONTRACT_ADDRESS (from contract/deployment.json after npm run deploy)
  * 
  * This module provides integration with the deployed Midnight smart contract
  * Implements all 4 circuits from blinding.compact
  */
 
+import networks from '../../networks.json';
+
+// ============================================================================
+// NETWORK PROFILE
+// ============================================================================
+
+/**
+ * Endpoints and fee settings of a Midnight network, as listed in frontend-vite/networks.json
+ * (shared with the contract deploy tooling)
+ */
+export interface NetworkProfile {
+  networkId: string;
+  indexer: string;
+  indexerWS: string;
+  node: string;
+  proofServer: string;
+  faucet?: string;
+  // Validity window of balanced transactions
+  ttlMinutes: number;
+  // Dust wallet cost parameters; the overhead is a decimal string as JSON has no bigint
+  fees: { additionalFeeOverhead: string; feeBlocksMargin: number };
+}
+
+export const NETWORK_PROFILES: Readonly<Record<string, NetworkProfile>> = networks;
+
+// Profile selected with VITE_NETWORK; defaults to the network of contract/deployment.json
+export const NETWORK_NAME = import.meta.env.VITE_NETWORK ?? 'undeployed';
+
+export const NETWORK_PROFILE: NetworkProfile = (() => {
+  const profile = NETWORK_PROFILES[NETWORK_NAME];
+  if (!profile) {
+    throw new Error(`Unknown network profile "${NETWORK_NAME}"; expected one of ${Object.keys(NETWORK_PROFILES).join(', ')}`);
+  }
+  return profile;
+})();
+
 // ============================================================================
 // CONTRACT CONFIGURATION
 // ============================================================================
 
-export const CONTRACT_CONFIG = {
-  // Real deployed contract address from deployment.json
-  ADDRESS: '2aa78f99159e7662a1fe3658f402ef4e64ff77c8769cb07368ac1702696301f8',
-  NETWORK: 'midnight-testnet',
-  DEPLOYED_AT: '2026-02-14T10:02:32.337Z',
-  SEED: '1d9e3b1b189456b336ce58febc602f8be2aec4db9bbb711b7c4aeaca2d97b91b'
-} as const;
+export const CONTRACT_CONFIG = {
+  // Deployed contract address (contractAddress in contract/deployment.json), set with
+  // VITE_CONTRACT_ADDRESS; empty until the app is pointed at a deployment
+  ADDRESS: import.meta.env.VITE_CONTRACT_ADDRESS ?? '',
+  NETWORK: NETWORK_PROFILE.networkId,
+  // Private state id the contract witnesses read from (see contract/src/witnesses.ts)
+  PRIVATE_STATE_ID: 'blindingPrivateState'
+} as const;
+
+// Everything here ships in the browser bundle; wallet seeds stay in the deployer's keystore
+const SECRET_FIELD = /seed|mnemonic|secret|passphrase|private_?key/i;
+
+// Values shaped like a hex seed or key, a BIP39 mnemonic or a PEM private key, whatever the
+// field is called; 32-byte hex is only allowed in fields that hold public data
+const HEX_32 = /^(0x)?[0-9a-fA-F]{64}$/;
+const MNEMONIC = /^[a-z]+( [a-z]+){11,23}$/;
+const PEM_PRIVATE_KEY = /-----BEGIN [A-Z ]*PRIVATE KEY-----/;
+const PUBLIC_HEX_FIELD = /address|hash|public_?key/i;
+
+function looksLikeSecretValue(key: string, value: unknown): boolean {
+  if (typeof value !== 'string') {
+    return false;
+  }
+  const text = value.trim();
+  return (
+    (HEX_32.test(text) && !PUBLIC_HEX_FIELD.test(key)) ||
+    MNEMONIC.test(text.replace(/\s+/g, ' ')) ||
+    PEM_PRIVATE_KEY.test(text)
+  );
+}
+
+function assertNoSecretMaterial(config: object, source: string): void {
+  for (const [key, value] of Object.entries(config)) {
+    if (SECRET_FIELD.test(key) || looksLikeSecretValue(key, value)) {
+      throw new Error(`${source}.${key} looks like secret material; keep seeds and keys out of the frontend config`);
+    }
+    if (value && typeof value === 'object') {
+      assertNoSecretMaterial(value, `${source}.${key}`);
+    }
+  }
+}
+
+assertNoSecretMaterial(CONTRACT_CONFIG, 'CONTRACT_CONFIG');
+assertNoSecretMaterial(NETWORK_PROFILE, `networks.json#${NETWORK_NAME}`);
+assertNoSecretMaterial(import.meta.env, 'import.meta.env');
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Vendor's private sub-metrics; the circuit weighs them into the qualification score
+ */
+export interface VendorMetrics {
+  // On-time deliveries, percent
+  deliveryPunctuality: number;
+  // Defective deliveries, percent (scored as 100 - defectRate, so fewer defects score higher)
+  defectRate: number;
+  // Price competitiveness rating, 0-100
+  priceCompetitiveness: number;
+  // ESG rating, 0-100
+  esgRating: number;
+}
+
+/**
+ * Sub-metrics in the order of the metrics and roundWeights vectors in blinding.compact
+ */
+export const VENDOR_METRICS = ['deliveryPunctuality', 'defectRate', 'priceCompetitiveness', 'esgRating'] as const;
+
+export type VendorMetricName = typeof VENDOR_METRICS[number];
+
+// Weight of each sub-metric in percent; weights sum to 100
+export type ScoringWeights = Record<VendorMetricName, number>;
+
+/**
+ * Qualification tiers in the order of the Tier enum in blinding.compact
+ */
+export const VENDOR_TIERS = ['none', 'bronze', 'silver', 'gold'] as const;
+
+export type VendorTier = typeof VENDOR_TIERS[number];
+
+export interface VerifyQualificationParams {
+  vendorId: number | bigint;
+  metrics: VendorMetrics;
+  // Round whose published weights and threshold the metrics are scored against
+  roundId: number;
+  // Must be the sub-metrics and salt the vendor committed with commitScore
+  salt: number | bigint;
+}
+
+/**
+ * Vendor qualification record kept in private state.
+ * Mirrors the VendorQualification struct in blinding.compact.
+ */
+export interface VendorQualificationRecord {
+  vendorId: bigint;
+  // Salt of the vendor reference (see createVendorReference)
+  referenceSalt: Uint8Array;
+  // Sub-metric scores 0-100 in VENDOR_METRICS order
+  metrics: bigint[];
+  salt: bigint;
+}
+
+/**
+ * Number of criterion slots in a compliance profile (Vector<8, Uint<32>> in blinding.compact)
+ * Criterion ids start at 1; unused slots hold 0
+ */
+export const COMPLIANCE_PROFILE_SLOTS = 8;
+
+/**
+ * Slots in one batch transaction (proposeQualificationBatch / approveQualificationBatch)
+ */
+export const QUALIFICATION_BATCH_SIZE = 8;
+
+/**
+ * Jubjub curve point (NativePoint in Compact)
+ */
+export interface CurvePoint {
+  x: bigint;
+  y: bigint;
+}
+
+/**
+ * Certifier-signed attestation kept in private state.
+ * Mirrors the Attestation struct in blinding.compact.
+ */
+export interface AttestationRecord {
+  certifier: CurvePoint;
+  validUntil: bigint;
+  nonceCommitment: CurvePoint;
+  signature: bigint;
+}
+
+/**
+ * Attestation file printed by the certifier tool (`npm run attest -- issue` in contract/)
+ */
+export interface IssuedAttestation {
+  vendorId: string;
+  // Compliance criterion id (decimal string)
+  criterion: string;
+  attestation: {
+    certifier: { x: string; y: string };
+    validUntil: string;
+    nonceCommitment: { x: string; y: string };
+    signature: string;
+  };
+}
+
+/**
+ * Private state read by the contract witnesses
+ */
+export interface BlindingPrivateState {
+  secretKey?: Uint8Array;
+  // Salt of the vendor reference, shared with procurement only (see createVendorReference)
+  referenceSalt?: Uint8Array;
+  qualification?: VendorQualificationRecord;
+  // Keyed by compliance criterion id (decimal string)
+  attestations?: Record<string, AttestationRecord>;
+  // Secret behind the vendor's membership commitment (never leaves the device)
+  membershipSecret?: Uint8Array;
+  // Qualification expiry per round id, needed to rebuild the vendor's membership leaf
+  membershipExpiries?: Record<string, bigint>;
+  // Sealed bid per round id, kept until it is revealed
+  bids?: Record<string, SealedBidRecord>;
+}
+
+/**
+ * Vendor's sealed bid as held in private state (amount stays private until revealBid)
+ */
+export interface SealedBidRecord {
+  amount: bigint;
+  salt: Uint8Array;
+}
+
+/**
+ * Read-only view of a Compact ledger Map (as returned by the generated ledger())
+ */
+export interface LedgerMap<K, V> extends Iterable<[K, V]> {
+  member(key: K): boolean;
+  lookup(key: K): V;
+  size(): bigint;
+}
+
+export interface ProcurementRoundState {
+  open: boolean;
+}
+
+export interface QualificationRecordState {
+  expiresAt: bigint;
+  revoked: boolean;
+  memberIndex: bigint;
+  // All zero when no evidence bundle was attached
+  evidenceHash: Uint8Array;
+}
+
+/**
+ * Read-only view of a Compact ledger Merkle tree (as returned by the generated ledger())
+ */
+export interface LedgerMerkleTree<T> {
+  findPathForLeaf(leaf: T): { leaf: T; path: unknown[] } | undefined;
+}
+
+export interface QualificationProposalState {
+  roundId: bigint;
+  vendorRef: Uint8Array;
+  expiresAt: bigint;
+  memberKey: Uint8Array;
+  evidenceHash: Uint8Array;
+  // Officers who approved, in approval order; only the first approvalCount are used
+  approvers: Uint8Array[];
+  approvalCount: bigint;
+  executed: boolean;
+}
+
+/**
+ * Read-only view of a Compact ledger Set (as returned by the generated ledger())
+ */
+export interface LedgerSet<T> extends Iterable<T> {
+  member(elem: T): boolean;
+  size(): bigint;
+}
+
+export interface TenderState {
+  biddingEndsAt: bigint;
+  revealEndsAt: bigint;
+  hasWinner: boolean;
+  // Bidder tag of the lowest revealed bid (all zero until a bid is revealed)
+  winningBidder: Uint8Array;
+  winningBid: bigint;
+  finalized: boolean;
+}
+
+// Receipt of a vendor's successful proofs in a round (expiries in seconds, 0 = not proven)
+export interface ProofReceiptState {
+  qualifiedUntil: bigint;
+  compliantUntil: bigint;
+  profileId: bigint;
+}
+
+// Score band [low, high) of a tier
+export interface TierBandState {
+  low: bigint;
+  high: bigint;
+}
+
+export interface CertifierState {
+  publicKey: CurvePoint;
+  criterion: bigint;
+}
+
+/**
+ * Subset of the blinding contract's public ledger read by the service
+ */
+export interface BlindingLedgerState {
+  rounds: LedgerMap<bigint, ProcurementRoundState>;
+  // Vendor entries are keyed by vendor reference, never by vendor id
+  vendors: LedgerMap<bigint, LedgerMap<Uint8Array, QualificationRecordState>>;
+  roundThresholds: LedgerMap<bigint, bigint>;
+  roundWeights: LedgerMap<bigint, bigint[]>;
+  // Keyed by Tier enum value (index in VENDOR_TIERS)
+  tierBands: LedgerMap<number, TierBandState>;
+  vendorTiers: LedgerMap<bigint, LedgerMap<Uint8Array, number>>;
+  proofReceipts: LedgerMap<bigint, LedgerMap<Uint8Array, ProofReceiptState>>;
+  receiptValidity: bigint;
+  // Emergency stop, set with the maintenance tool (npm run maintain -- pause)
+  paused: boolean;
+  vendorKeys: LedgerMap<Uint8Array, Uint8Array>;
+  // Aggregate counters (Counter values read as bigint)
+  qualifiedCount: LedgerMap<bigint, bigint>;
+  revokedCount: LedgerMap<bigint, bigint>;
+  profileQualifications: LedgerMap<bigint, bigint>;
+  certifiers: LedgerMap<bigint, CertifierState>;
+  complianceCriteria: LedgerMap<bigint, Uint8Array>;
+  complianceProfiles: LedgerMap<bigint, bigint[]>;
+  qualifiedMembers: LedgerMerkleTree<Uint8Array>;
+  tenders: LedgerMap<bigint, TenderState>;
+  // Keyed by bidder tag, never by vendor id
+  bidCommitments: LedgerMap<bigint, LedgerMap<Uint8Array, Uint8Array>>;
+  revealedBids: LedgerMap<bigint, LedgerMap<Uint8Array, bigint>>;
+  officers: LedgerSet<Uint8Array>;
+  approvalThreshold: bigint;
+  proposals: LedgerMap<bigint, QualificationProposalState>;
+}
+
+export interface ProcurementRoundSummary {
+  roundId: string;
+  open: boolean;
+  vendorEntries: number;
+}
+
+export interface RoundStatisticsSummary {
+  roundId: string;
+  // Unrevoked qualifications (expired entries count until revoked)
+  qualified: number;
+  revoked: number;
+}
+
+export interface ProfileStatisticsSummary {
+  profileId: string;
+  // Qualifications recorded with a compliance proof for this profile
+  qualifications: number;
+}
+
+export interface QualificationStatisticsSummary {
+  rounds: RoundStatisticsSummary[];
+  profiles: ProfileStatisticsSummary[];
+  totalQualified: number;
+  totalRevoked: number;
+}
+
+// Vendor entry of a qualification batch
+export interface QualificationBatchEntry {
+  // Vendor reference (hex) from the vendor's createVendorReference
+  vendorRef: string;
+  // Membership commitment (hex) from the vendor's createMembershipKey
+  membershipCommitment: string;
+  // Evidence bundle hash (hex) from hashEvidenceFiles, if any
+  evidenceHash?: string;
+}
+
+// Progress after each chunk of a batch (one transaction per chunk)
+export interface BatchProgress {
+  chunk: number;
+  chunks: number;
+  processed: number;
+  total: number;
+}
+
+export interface ProposalBatchSummary {
+  proposalIds: string[];
+  completedChunks: number;
+  chunks: number;
+}
+
+export interface ApprovalBatchSummary {
+  approved: number;
+  // Approvals that reached k and recorded the qualification
+  recorded: number;
+  completedChunks: number;
+  chunks: number;
+}
+
+export interface PendingProposalSummary {
+  proposalId: string;
+  roundId: string;
+  vendorRef: string;
+  expiresAt: string;
+  approvals: number;
+  approvalThreshold: number;
+  // Public keys (hex) of the still-registered officers that approved so far; approvals
+  // from officers removed since do not count towards the threshold
+  approvedBy: string[];
+  // Evidence bundle hash (hex) attached by the proposer, null when none
+  evidenceHash: string | null;
+}
+
+export interface ProofReceiptSummary {
+  roundId: string;
+  vendorRef: string;
+  // Fresh receipts only: a proof whose receipt expired counts as not proven
+  qualified: boolean;
+  compliant: boolean;
+  // Compliance profile the vendor proved (null before a compliance proof)
+  profileId: string | null;
+  // Both steps are fresh, so the vendor can be proposed
+  readyToPropose: boolean;
+  qualifiedUntil: string | null;
+  compliantUntil: string | null;
+}
+
+export interface EvidenceSummary {
+  roundId: string;
+  vendorRef: string;
+  recorded: boolean;
+  // Evidence bundle hash (hex) stored with the qualification, null when none was attached
+  evidenceHash: string | null;
+}
+
+export interface EvidenceCheckSummary extends EvidenceSummary {
+  // Hash of the files given to verifyEvidence, computed in the browser
+  computedHash: string;
+  matches: boolean;
+}
+
+export interface VendorEnrolmentSummary {
+  vendorRef: string;
+  enrolled: boolean;
+  // Enrolled vendor public key (hex), null when the vendor reference is not enrolled
+  publicKey: string | null;
+}
+
+// Identity a restricted status query is made as (the caller's public key, hex)
+export interface StatusQueryIdentity {
+  role: 'vendor' | 'officer';
+  publicKey: string;
+}
+
+export interface TierBandSummary {
+  tier: VendorTier;
+  low: number;
+  high: number;
+}
+
+export type TenderPhase = 'bidding' | 'revealing' | 'awaiting-finalization' | 'finalized';
+
+export interface TenderSummary {
+  roundId: string;
+  phase: TenderPhase;
+  biddingEndsAt: string;
+  revealEndsAt: string;
+  sealedBids: number;
+  revealedBids: number;
+  // Bidder tag (hex) of the winning bid; compare with bidderTag() to see if it is yours
+  winningBidder: string | null;
+  winningBid: string | null;
+}
+
+export interface CertifierSummary {
+  certifierId: string;
+  criterionId: string;
+  publicKey: { x: string; y: string };
+}
+
+export interface ComplianceCriterionSummary {
+  criterionId: string;
+  label: string;
+}
+
+export interface ComplianceProfileSummary {
+  profileId: string;
+  // Required criteria in slot order (unused slots omitted)
+  criteria: ComplianceCriterionSummary[];
+}
+
+/**
+ * Minimal private state provider surface used by the service
+ * (compatible with the midnight-js PrivateStateProvider)
+ */
+export interface PrivateStateStore {
+  get(privateStateId: string): Promise<BlindingPrivateState | null>;
+  set(privateStateId: string, state: BlindingPrivateState): Promise<void>;
+}
+
+/**
+ * Pure circuits of the compiled blinding contract (the generated module's pureCircuits
+ * export). They run locally on their arguments; the joined contract's callTx has no such methods
+ */
+export interface BlindingPureCircuits {
+  publicKey(sk: Uint8Array): Uint8Array;
+  vendorReference(vendorId: bigint, salt: Uint8Array): Uint8Array;
+  membershipCommitment(secret: Uint8Array): Uint8Array;
+  membershipLeaf(roundId: bigint, memberKey: Uint8Array, expiresAt: bigint): Uint8Array;
+  bidderTag(roundId: bigint, secret: Uint8Array): Uint8Array;
+}
+
+/**
+ * A joined contract and the providers the service reads from, bound in one step by connect()
+ * (e.g. deployed.callTx from midnight-js findDeployedContract and the wallet's providers)
+ */
+export interface ContractConnection {
+  contract: unknown;
+  // pureCircuits from the generated blinding module (key, vendor reference and membership helpers)
+  pureCircuits: BlindingPureCircuits;
+  privateStateProvider: PrivateStateStore;
+  // Current public ledger, e.g. indexerLedgerReader(decode)
+  readLedger: () => Promise<BlindingLedgerState>;
+}
+
+export interface ProveTierParams {
+  vendorId: number | bigint;
+  // Must be the sub-metrics and salt the vendor committed with commitScore
+  metrics: VendorMetrics;
+  salt: number | bigint;
+  roundId: number;
+  tier: VendorTier;
+}
+
+export interface CommitScoreParams {
+  vendorId: number | bigint;
+  metrics: VendorMetrics;
+  salt: number | bigint;
+}
+
+export interface CheckComplianceParams {
+  vendorId: number | bigint;
+  // Compliance profile (e.g. the tender's category) whose criteria must all be attested
+  profileId: number;
+  // Round whose proof receipt a successful check updates
+  roundId: number;
+  // One certifier-signed attestation per required criterion
+  attestations: IssuedAttestation[];
+}
+
+export interface SmartContractResponse {
+  method: string;
+  params?: any;
+  result?: any;
+  contractCall?: {
+    circuit: string;
+    input: string;
+    output: string;
+    [key: string]: any;
+  };
+  error?: string;
+  timestamp: string;
+  contractAddress: string;
+  transactionHash?: string;
+  gasUsed?: string;
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Generate a random 248-bit salt for a score commitment
+ * The vendor must keep it (it stays in private state) to prove against the commitment later
+ */
+export function generateSalt(): bigint {
+  const bytes = crypto.getRandomValues(new Uint8Array(31));
+  return bytes.reduce((acc, byte) => (acc << 8n) | BigInt(byte), 0n);
+}
+
+/**
+ * Convert sub-metrics to the circuit's 0-100 scores (defect rate is inverted)
+ */
+export function metricScores(metrics: VendorMetrics): bigint[] {
+  return VENDOR_METRICS.map((name) => {
+    const value = metrics[name];
+    if (!Number.isInteger(value) || value < 0 || value > 100) {
+      throw new Error(`${name} must be a whole number from 0 to 100`);
+    }
+    return BigInt(name === 'defectRate' ? 100 - value : value);
+  });
+}
+
+/**
+ * Weighted score (0-100, fractional) the circuit compares against the round's threshold
+ * For previews only: the circuit computes it privately and reveals only the outcome
+ */
+export function weightedScore(metrics: VendorMetrics, weights: ScoringWeights): number {
+  const scores = metricScores(metrics);
+  return VENDOR_METRICS.reduce((sum, name, i) => sum + Number(scores[i]) * weights[name], 0) / 100;
+}
+
+/**
+ * Split a list into batch-sized chunks, one transaction each
+ */
+export function chunkBatch<T>(items: T[], size: number = QUALIFICATION_BATCH_SIZE): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+}
+
+/**
+ * Hash an evidence bundle (certificates, audit reports) locally; files are never uploaded
+ * Each file is hashed with SHA-256 and the sorted digests are hashed again, so the result
+ * depends on the file contents only, not on their names or order
+ */
+export async function hashEvidenceFiles(files: Iterable<Blob>): Promise<string> {
+  const digests: string[] = [];
+  for (const file of files) {
+    digests.push(bytesToHex(new Uint8Array(await crypto.subtle.digest('SHA-256', await file.arrayBuffer()))));
+  }
+  if (digests.length === 0) {
+    throw new Error('Select at least one evidence file');
+  }
+  const bundle = new TextEncoder().encode(`blinding:evidence:${digests.sort().join('')}`);
+  return bytesToHex(new Uint8Array(await crypto.subtle.digest('SHA-256', bundle)));
+}
+
+// Evidence hash argument: 32 bytes of hex, or all zero bytes when no evidence is attached
+function evidenceHashBytes(evidenceHash?: string): Uint8Array {
+  if (!evidenceHash) {
+    return new Uint8Array(32);
+  }
+  const bytes = hexToBytes(evidenceHash);
+  if (bytes.length !== 32) {
+    throw new Error('Evidence hash must be 32 bytes of hex');
+  }
+  return bytes;
+}
+
+// Vendor reference from hex; the ledger keys every vendor entry by it
+function vendorRefBytes(vendorRef: string): Uint8Array {
+  const bytes = hexToBytes(vendorRef);
+  if (bytes.length !== 32) {
+    throw new Error('Vendor reference must be 32 bytes of hex');
+  }
+  return bytes;
+}
+
+// Stored evidence hash as hex, null for the all-zero "no evidence" value
+function storedEvidenceHash(evidenceHash: Uint8Array): string | null {
+  return evidenceHash.some((byte) => byte !== 0) ? bytesToHex(evidenceHash) : null;
+}
+
+export function hexToBytes(hex: string): Uint8Array {
+  const clean = hex.trim().replace(/^0x/, '');
+  if (!/^([0-9a-fA-F]{2})*$/.test(clean)) {
+    throw new Error('Invalid hex string');
+  }
+  return new Uint8Array((clean.match(/../g) ?? []).map((byte) => parseInt(byte, 16)));
+}
+
+export function bytesToHex(bytes: Uint8Array): string {
+  return Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Parse an attestation file issued by a certifier
+ * Only the shape is checked here; the signature is verified inside checkCompliance
+ */
+export function parseIssuedAttestation(json: string): IssuedAttestation {
+  const parsed = JSON.parse(json);
+  const { attestation } = parsed ?? {};
+  const isPoint = (p: unknown) =>
+    typeof p === 'object' && p !== null && typeof (p as { x: unknown }).x === 'string' && typeof (p as { y: unknown }).y === 'string';
+
+  if (
+    typeof parsed?.vendorId !== 'string' ||
+    typeof parsed?.criterion !== 'string' ||
+    !/^[1-9]\d*$/.test(parsed.criterion) ||
+    !isPoint(attestation?.certifier) ||
+    !isPoint(attestation?.nonceCommitment) ||
+    typeof attestation?.validUntil !== 'string' ||
+    typeof attestation?.signature !== 'string'
+  ) {
+    throw new Error('Not a certifier attestation file');
+  }
+
+  return parsed as IssuedAttestation;
+}
+
+/**
+ * Encode a criterion label as the Bytes<32> stored on the ledger (UTF-8, zero-padded)
+ */
+export function encodeCriterionLabel(label: string): Uint8Array {
+  const encoded = new TextEncoder().encode(label.trim());
+  if (encoded.length === 0 || encoded.length > 32) {
+    throw new Error('Criterion label must be 1 to 32 bytes of UTF-8');
+  }
+  const bytes = new Uint8Array(32);
+  bytes.set(encoded);
+  return bytes;
+}
+
+export function decodeCriterionLabel(bytes: Uint8Array): string {
+  const end = bytes.indexOf(0);
+  return new TextDecoder().decode(end === -1 ? bytes : bytes.subarray(0, end));
+}
+
+/**
+ * Proof time passed to receipt-writing circuits (seconds since the Unix epoch)
+ * A minute in the past, as the circuit requires it to be before the block time
+ */
+function proofTimestamp(): bigint {
+  return BigInt(Math.floor(Date.now() / 1000) - 60);
+}
+
+function toVendorTier(tier: unknown): VendorTier {
+  return VENDOR_TIERS[Number(tier)] ?? 'none';
+}
+
+function tenderPhase(tender: TenderState, now: Date): TenderPhase {
+  const nowSeconds = BigInt(Math.floor(now.getTime() / 1000));
+  if (tender.finalized) return 'finalized';
+  if (nowSeconds < tender.biddingEndsAt) return 'bidding';
+  if (nowSeconds < tender.revealEndsAt) return 'revealing';
+  return 'awaiting-finalization';
+}
+
+function toAttestationRecord({ attestation }: IssuedAttestation): AttestationRecord {
+  return {
+    certifier: { x: BigInt(attestation.certifier.x), y: BigInt(attestation.certifier.y) },
+    validUntil: BigInt(attestation.validUntil),
+    nonceCommitment: { x: BigInt(attestation.nonceCommitment.x), y: BigInt(attestation.nonceCommitment.y) },
+    signature: BigInt(attestation.signature)
+  };
+}
+
+const CONTRACT_STATE_QUERY = `query ContractState($address: HexEncoded!) {
+  contractAction(address: $address) { state }
+}`;
+
+/**
+ * Ledger reader backed by the network profile's indexer (GraphQL over HTTP)
+ * decode turns the serialized contract state (hex) into the ledger view, e.g.
+ * (state) => ledger(ContractState.deserialize(fromHex(state)).data) with the generated ledger()
+ */
+export function indexerLedgerReader(
+  decode: (state: string) => BlindingLedgerState,
+  contractAddress: string = CONTRACT_CONFIG.ADDRESS,
+  indexerUrl: string = NETWORK_PROFILE.indexer
+): () => Promise<BlindingLedgerState> {
+  return async () => {
+    if (!contractAddress) {
+      throw new Error('No contract address: set VITE_CONTRACT_ADDRESS to the deployed contract');
+    }
+    const response = await fetch(indexerUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ query: CONTRACT_STATE_QUERY, variables: { address: contractAddress } })
+    });
+    if (!response.ok) {
+      throw new Error(`Indexer request failed: ${response.status} ${response.statusText}`);
+    }
+    const { data, errors } = await response.json();
+    if (errors?.length) {
+      throw new Error(`Indexer error: ${errors[0].message}`);
+    }
+    const state: string | undefined = data?.contractAction?.state;
+    if (!state) {
+      throw new Error(`Indexer has no state for contract ${contractAddress}`);
+    }
+    return decode(state);
+  };
+}
+
+// ============================================================================
+// CONTRACT SERVICE CLASS
+// ============================================================================
+
+/**
+ * Smart Contract Service
+ * Manages all interactions with the Vendor Qualification contract
+ */
+export class VendorQualificationService {
+  private contractAddress: string;
+  private contractInstance: any | null = null;
+  private pureCircuits: BlindingPureCircuits | null = null;
+  private privateStateStore: PrivateStateStore | null = null;
+  private ledgerReader: (() => Promise<BlindingLedgerState>) | null = null;
+
+  constructor(contractAddress: string = CONTRACT_CONFIG.ADDRESS) {
+    this.contractAddress = contractAddress;
+  }
+
+  /**
+   * Attach an instantiated Midnight contract so all calls hit the chain directly
+   */
+  bindContractInstance(instance: any) {
+    this.contractInstance = instance;
+  }
+
+  /**
+   * Attach the compiled contract's pure circuits (the generated module's pureCircuits)
+   */
+  bindPureCircuits(circuits: BlindingPureCircuits) {
+    this.pureCircuits = circuits;
+  }
+
+  /**
+   * Attach the private state provider the contract witnesses read from
+   */
+  bindPrivateStateProvider(store: PrivateStateStore) {
+    this.privateStateStore = store;
+  }
+
+  /**
+   * Attach a reader for the contract's current public ledger state
+   * (e.g. publicDataProvider.queryContractState + the generated ledger())
+   */
+  bindLedgerReader(reader: () => Promise<BlindingLedgerState>) {
+    this.ledgerReader = reader;
+  }
+
+  /**
+   * Bind a joined contract, its private state provider and a ledger reader at once
+   */
+  connect(connection: ContractConnection) {
+    this.bindContractInstance(connection.contract);
+    this.bindPureCircuits(connection.pureCircuits);
+    this.bindPrivateStateProvider(connection.privateStateProvider);
+    this.bindLedgerReader(connection.readLedger);
+  }
+
+  /**
+   * True once a contract, its pure circuits, private state provider and ledger reader are all bound
+   */
+  isConnected(): boolean {
+    return (
+      this.contractInstance !== null &&
+      this.pureCircuits !== null &&
+      this.privateStateStore !== null &&
+      this.ledgerReader !== null
+    );
+  }
+
+  private async readLedgerOrThrow() {
+    if (!this.ledgerReader) {
+      throw new Error('Ledger reader not attached. Call bindLedgerReader() to read public contract state.');
+    }
+
+    return this.ledgerReader();
+  }
+
+  private getPrivateStateStoreOrThrow() {
+    if (!this.privateStateStore) {
+      throw new Error('Private state provider not attached. Call bindPrivateStateProvider() before running vendor proofs.');
+    }
+
+    return this.privateStateStore;
+  }
+
+  /**
+   * Merge a partial update into the contract's private state
+   */
+  private async updatePrivateState(update: Partial<BlindingPrivateState>) {
+    const store = this.getPrivateStateStoreOrThrow();
+    const current = (await store.get(CONTRACT_CONFIG.PRIVATE_STATE_ID)) ?? {};
+    await store.set(CONTRACT_CONFIG.PRIVATE_STATE_ID, { ...current, ...update });
+  }
+
+  /**
+   * Store the procurement authority (or an officer's) secret key in private state
+   * Required by admin circuits such as registerOfficer and proposeQualification
+   */
+  async setAuthoritySecretKey(secretKeyHex: string) {
+    const hex = secretKeyHex.trim().replace(/^0x/, '');
+    if (!/^[0-9a-fA-F]{64}$/.test(hex)) {
+      throw new Error('Authority secret key must be 32 bytes of hex');
+    }
+    await this.updatePrivateState({ secretKey: hexToBytes(hex) });
+  }
+
+  /**
+   * Create a procurement officer secret key in private state (replaces any key held there)
+   * Returns the officer public key (hex) to hand to the authority for registerOfficer
+   */
+  async createOfficerKey(): Promise<string> {
+    const circuits = this.getPureCircuitsOrThrow();
+    const secretKey = crypto.getRandomValues(new Uint8Array(32));
+    await this.updatePrivateState({ secretKey });
+    return bytesToHex(circuits.publicKey(secretKey));
+  }
+
+  /**
+   * Create a vendor secret key in private state (replaces any key held there)
+   * Returns the vendor public key (hex) to hand to the authority for enrolVendor
+   */
+  async createVendorKey(): Promise<string> {
+    const circuits = this.getPureCircuitsOrThrow();
+    const secretKey = crypto.getRandomValues(new Uint8Array(32));
+    await this.updatePrivateState({ secretKey });
+    return bytesToHex(circuits.publicKey(secretKey));
+  }
+
+  /**
+   * Create the vendor reference the public ledger knows the vendor by
+   * The salt is kept in private state and reused on later calls
+   * Returns the vendor reference (hex) to hand to procurement with the vendor public key
+   */
+  async createVendorReference(vendorId: number): Promise<string> {
+    const circuits = this.getPureCircuitsOrThrow();
+    const state = await this.getPrivateStateStoreOrThrow().get(CONTRACT_CONFIG.PRIVATE_STATE_ID);
+    const referenceSalt = state?.referenceSalt ?? crypto.getRandomValues(new Uint8Array(32));
+    await this.updatePrivateState({ referenceSalt });
+    return bytesToHex(circuits.vendorReference(BigInt(vendorId), referenceSalt));
+  }
+
+  private async referenceSaltOrThrow(): Promise<Uint8Array> {
+    const state = await this.getPrivateStateStoreOrThrow().get(CONTRACT_CONFIG.PRIVATE_STATE_ID);
+    if (!state?.referenceSalt) {
+      throw new Error('No vendor reference salt in private state. Call createVendorReference() first.');
+    }
+    return state.referenceSalt;
+  }
+
+  /**
+   * Create the vendor's membership secret in private state
+   * Returns the membership commitment (hex) to hand to procurement for proposeQualification
+   */
+  async createMembershipKey(): Promise<string> {
+    const circuits = this.getPureCircuitsOrThrow();
+    const membershipSecret = crypto.getRandomValues(new Uint8Array(32));
+    await this.updatePrivateState({ membershipSecret });
+    return bytesToHex(circuits.membershipCommitment(membershipSecret));
+  }
+
+  /**
+   * Build the witness data for an anonymous membership proof in a round:
+   * stores the vendor's qualification expiry in private state and checks that the
+   * membership leaf has a path in the qualified-set tree
+   * The vendor id is only used locally to derive the vendor reference the expiry is stored under
+   */
+  async prepareMembershipProof(roundId: number, vendorId: number) {
+    const circuits = this.getPureCircuitsOrThrow();
+    const ledger = await this.readLedgerOrThrow();
+    const state = await this.getPrivateStateStoreOrThrow().get(CONTRACT_CONFIG.PRIVATE_STATE_ID);
+    if (!state?.membershipSecret) {
+      throw new Error('No membership secret in private state. Call createMembershipKey() first.');
+    }
+
+    const round = BigInt(roundId);
+    const ref = circuits.vendorReference(BigInt(vendorId), await this.referenceSaltOrThrow());
+    if (!ledger.vendors.member(round) || !ledger.vendors.lookup(round).member(ref)) {
+      throw new Error('Not a qualified vendor in this procurement round');
+    }
+    const record = ledger.vendors.lookup(round).lookup(ref);
+    if (record.revoked) {
+      throw new Error('Qualification has been revoked');
+    }
+
+    const memberKey = circuits.membershipCommitment(state.membershipSecret);
+    const leaf = circuits.membershipLeaf(round, memberKey, record.expiresAt);
+    const path = ledger.qualifiedMembers.findPathForLeaf(leaf);
+    if (!path) {
+      throw new Error('Membership commitment recorded for this vendor does not match the local membership secret');
+    }
+
+    await this.updatePrivateState({
+      membershipExpiries: { ...state.membershipExpiries, [round.toString()]: record.expiresAt }
+    });
+    return { expiresAt: record.expiresAt, pathLength: path.path.length };
+  }
+
+  private async assertOfficerKeyPresent() {
+    const state = await this.getPrivateStateStoreOrThrow().get(CONTRACT_CONFIG.PRIVATE_STATE_ID);
+    if (!state?.secretKey) {
+      throw new Error('Not authorised: procurement officer secret key not set. Call createOfficerKey() or setAuthoritySecretKey() first.');
+    }
+  }
+
+  private async assertAuthorityKeyPresent() {
+    const state = await this.getPrivateStateStoreOrThrow().get(CONTRACT_CONFIG.PRIVATE_STATE_ID);
+    if (!state?.secretKey) {
+      throw new Error('Not authorised: procurement authority secret key not set. Call setAuthoritySecretKey() first.');
+    }
+  }
+
+  private async assertVendorKeyPresent() {
+    const state = await this.getPrivateStateStoreOrThrow().get(CONTRACT_CONFIG.PRIVATE_STATE_ID);
+    if (!state?.secretKey) {
+      throw new Error('Not authorised: vendor secret key not set. Call createVendorKey() or setAuthoritySecretKey() first.');
+    }
+  }
+
+  private evidenceSummary(ledger: BlindingLedgerState, roundId: number, vendorRef: string): EvidenceSummary {
+    const round = BigInt(roundId);
+    const ref = vendorRefBytes(vendorRef);
+    const recorded = ledger.vendors.member(round) && ledger.vendors.lookup(round).member(ref);
+    return {
+      roundId: round.toString(),
+      vendorRef: bytesToHex(ref),
+      recorded,
+      evidenceHash: recorded ? storedEvidenceHash(ledger.vendors.lookup(round).lookup(ref).evidenceHash) : null
+    };
+  }
+
+  /**
+   * Identity the key in private state queries a vendor's status as
+   * The vendor's own enrolled key is preferred over an officer key; anyone else is refused
+   * before the circuit runs
+   */
+  async getStatusQueryIdentity(vendorRef: string): Promise<StatusQueryIdentity> {
+    const circuits = this.getPureCircuitsOrThrow();
+    const ledger = await this.readLedgerOrThrow();
+    const state = await this.getPrivateStateStoreOrThrow().get(CONTRACT_CONFIG.PRIVATE_STATE_ID);
+    const callerKey: Uint8Array | null = state?.secretKey ? circuits.publicKey(state.secretKey) : null;
+    if (callerKey) {
+      const publicKey = bytesToHex(callerKey);
+      const ref = vendorRefBytes(vendorRef);
+      if (ledger.vendorKeys.member(ref) && bytesToHex(ledger.vendorKeys.lookup(ref)) === publicKey) {
+        return { role: 'vendor', publicKey };
+      }
+      if (ledger.officers.member(callerKey)) {
+        return { role: 'officer', publicKey };
+      }
+    }
+    throw new Error('Not authorised: only the vendor or a registered procurement officer can query its status');
+  }
+
+  private getPureCircuitsOrThrow() {
+    if (!this.pureCircuits) {
+      throw new Error('Pure circuits not attached. Call bindPureCircuits() with the compiled contract\'s pureCircuits.');
+    }
+
+    return this.pureCircuits;
+  }
+
+  private getContractOrThrow() {
+    if (!this.contractInstance) {
+      throw new Error('Contract instance not attached. Call bindContractInstance() with a real Midnight contract.');
+    }
+
+    return this.contractInstance;
+  }
+
+  /**
+   * Publish a salted commitment to the vendor's private sub-metrics (Circuit 1a)
+   * Only the commitment is written to the ledger; sub-metrics and salt stay in private state
+   * Only succeeds when the private state holds the vendor's enrolled secret key
+   */
+  async commitScore(params: CommitScoreParams): Promise<SmartContractResponse> {
+    const { vendorId, metrics, salt } = params;
+
+    try {
+      const contract = this.getContractOrThrow();
+      await this.assertVendorKeyPresent();
+      await this.updatePrivateState({
+        qualification: {
+          vendorId: BigInt(vendorId),
+          referenceSalt: await this.referenceSaltOrThrow(),
+          metrics: metricScores(metrics),
+          salt: BigInt(salt)
+        }
+      });
+      const result = await contract.commitScore();
+
+      return {
+        method: 'commitScore',
+        params: { vendorId: vendorId.toString() },
+        contractCall: {
+          circuit: 'commitScore',
+          input: '[]',
+          output: 'Score commitment published',
+          ledgerUpdate: `scoreCommitments.insert(vendorRef, commitment)`,
+          privacyLevel: 'COMMITMENT',
+          note: 'Keep the salt: it is required to prove against this commitment'
+        },
+        timestamp: new Date().toISOString(),
+        contractAddress: this.contractAddress,
+        transactionHash: result?.transactionHash,
+        gasUsed: result?.gasUsed?.toString()
+      };
+    } catch (error) {
+      return {
+        method: 'commitScore',
+        params: { vendorId: vendorId.toString() },
+        error: error instanceof Error ? error.message : 'Unknown error',
+        timestamp: new Date().toISOString(),
+        contractAddress: this.contractAddress
+      };
+    }
+  }
+
+  /**
+   * Verify vendor meets minimum quality threshold (Circuit 1)
+   * Implements ZK proof: weighted score of the committed sub-metrics >= the round's threshold,
+   * with weights and threshold published on the ledger
+   * Sub-metrics and salt are supplied via private state, never as circuit arguments, and must
+   * open the vendor's published commitment (commitScore)
+   * Only succeeds when the private state holds the vendor's enrolled secret key
+   */
+  async verifyQualification(params: VerifyQualificationParams): Promise<SmartContractResponse> {
+    const { vendorId, metrics, roundId, salt } = params;
+
+    try {
+      const contract = this.getContractOrThrow();
+      await this.assertVendorKeyPresent();
+      await this.updatePrivateState({
+        qualification: {
+          vendorId: BigInt(vendorId),
+          referenceSalt: await this.referenceSaltOrThrow(),
+          metrics: metricScores(metrics),
+          salt: BigInt(salt)
+        }
+      });
+      const provedAt = proofTimestamp();
+      const result = await contract.verifyQualification(BigInt(roundId), provedAt);
+      const qualifies = Array.isArray(result) ? result[0] : result;
+
+      return {
+        method: 'verifyQualification',
+        params: { vendorId: vendorId.toString(), roundId },
+        result: qualifies,
+        contractCall: {
+          circuit: 'verifyQualification',
+          input: `[${roundId}, ${provedAt}]`,
+          output: Array.isArray(result) ? `[${result[0]}]` : JSON.stringify(result),
+          zkProof: `Proves weighted score of vendor ${vendorId}'s committed sub-metrics >= roundThresholds[${roundId}] without revealing them`,
+          ledgerUpdate: qualifies === true
+            ? `commitmentProofs.lookup(vendorRef).increment(1); proofReceipts[${roundId}][vendorRef].qualifiedUntil`
+            : `commitmentProofs.lookup(vendorRef).increment(1)`,
+          privacyLevel: 'FULL_ZERO_KNOWLEDGE'
+        },
+        timestamp: new Date().toISOString(),
+        contractAddress: this.contractAddress,
+        transactionHash: result?.transactionHash,
+        gasUsed: result?.gasUsed?.toString()
+      };
+    } catch (error) {
+      return {
+        method: 'verifyQualification',
+        params: { vendorId: vendorId.toString(), roundId },
+        error: error instanceof Error ? error.message : 'Unknown error',
+        timestamp: new Date().toISOString(),
+        contractAddress: this.contractAddress
+      };
+    }
+  }
+
+  /**
+   * Check compliance without revealing individual details (Circuit 2)
+   * Every criterion must be backed by a certifier-signed attestation for the vendor;
+   * attestations go into private state and signatures are checked inside the circuit
+   * A successful check updates the vendor's proof receipt in the round
+   * Only succeeds when the private state holds the vendor's enrolled secret key and the
+   * vendor's qualification record (stored by commitScore)
+   */
+  async checkCompliance(params: CheckComplianceParams): Promise<SmartContractResponse> {
+    const { vendorId, profileId, roundId, attestations } = params;
+    const criteria = attestations.map((issued) => issued.criterion);
+
+    try {
+      const contract = this.getContractOrThrow();
+      await this.assertVendorKeyPresent();
+      const mismatched = attestations.find((issued) => BigInt(issued.vendorId) !== BigInt(vendorId));
+      if (mismatched) {
+        throw new Error(`Attestation for criterion ${mismatched.criterion} was issued to vendor ${mismatched.vendorId}, not ${vendorId}`);
+      }
+
+      const current = (await this.getPrivateStateStoreOrThrow().get(CONTRACT_CONFIG.PRIVATE_STATE_ID)) ?? {};
+      // The circuit reads the vendor from the stored qualification; it is never made up here
+      if (!current.qualification) {
+        throw new Error('No vendor qualification in private state. Call commitScore() first.');
+      }
+      if (current.qualification.vendorId !== BigInt(vendorId)) {
+        throw new Error(`Private state holds the qualification of vendor ${current.qualification.vendorId}, not ${vendorId}`);
+      }
+      const stored = { ...current.attestations };
+      for (const issued of attestations) {
+        stored[issued.criterion] = toAttestationRecord(issued);
+      }
+      await this.updatePrivateState({ attestations: stored });
+      const provedAt = proofTimestamp();
+      const result = await contract.checkCompliance(BigInt(profileId), BigInt(roundId), provedAt);
+      const compliant = Array.isArray(result) ? result[0] : result;
+
+      return {
+        method: 'checkCompliance',
+        params: { vendorId: vendorId.toString(), profileId, roundId, criteria },
+        result: compliant,
+        contractCall: {
+          circuit: 'checkCompliance',
+          input: `[${profileId}, ${roundId}, ${provedAt}]`,
+          output: Array.isArray(result) ? `[${result[0]}]` : JSON.stringify(result),
+          logic: `every criterion in compliance profile ${profileId}`,
+          ledgerUpdate: compliant === true ? `proofReceipts[${roundId}][vendorRef].compliantUntil` : undefined,
+          zkProof: 'Proves a registered certifier signed each criterion for this vendor without revealing signatures or certifiers',
+          privacyLevel: 'FULL_ZERO_KNOWLEDGE'
+        },
+        timestamp: new Date().toISOString(),
+        contractAddress: this.contractAddress,
+        transactionHash: result?.transactionHash,
+        gasUsed: result?.gasUsed?.toString()
+      };
+    } catch (error) {
+      return {
+        method: 'checkCompliance',
+        params: { vendorId: vendorId.toString(), profileId, roundId, criteria },
+        error: error instanceof Error ? error.message : 'Unknown error',
+        timestamp: new Date().toISOString(),
+        contractAddress: this.contractAddress
+      };
+    }
+  }
+
+  /**
+   * Register a certifier public key for one compliance criterion
+   * Only succeeds when the private state holds the procurement authority secret key
+   */
+  async registerCertifier(
+    certifierId: number,
+    publicKey: CurvePoint,
+    criterionId: number
+  ): Promise<SmartContractResponse> {
+    try {
+      const contract = this.getContractOrThrow();
+      await this.assertAuthorityKeyPresent();
+      const result = await contract.registerCertifier(BigInt(certifierId), publicKey, BigInt(criterionId));
+
+      return {
+        method: 'registerCertifier',
+        params: { certifierId, criterionId },
+        contractCall: {
+          circuit: 'registerCertifier',
+          input: `[${certifierId}, <public key>, ${criterionId}]`,
+          output: 'Certifier registered',
+          ledgerUpdate: `certifiers.insert(${certifierId}, ...); certifierTree.insertIndex(..., ${certifierId})`,
+          authorization: 'Proof of procurement authority key',
+          privacyLevel: 'PUBLIC'
+        },
+        timestamp: new Date().toISOString(),
+        contractAddress: this.contractAddress,
+        transactionHash: result?.transactionHash,
+        gasUsed: result?.gasUsed?.toString()
+      };
+    } catch (error) {
+      return {
+        method: 'registerCertifier',
+        params: { certifierId, criterionId },
+        error: error instanceof Error ? error.message : 'Unknown error',
+        timestamp: new Date().toISOString(),
+        contractAddress: this.contractAddress
+      };
+    }
+  }
+
+  /**
+   * Remove a certifier; its attestations no longer pass checkCompliance
+   * Only succeeds when the private state holds the procurement authority secret key
+   */
+  async removeCertifier(certifierId: number): Promise<SmartContractResponse> {
+    try {
+      const contract = this.getContractOrThrow();
+      await this.assertAuthorityKeyPresent();
+      const result = await contract.removeCertifier(BigInt(certifierId));
+
+      return {
+        method: 'removeCertifier',
+        params: { certifierId },
+        contractCall: {
+          circuit: 'removeCertifier',
+          input: `[${certifierId}]`,
+          output: 'Certifier removed',
+          ledgerUpdate: `certifiers.remove(${certifierId}); certifierTree.insertIndexDefault(${certifierId})`,
+          authorization: 'Proof of procurement authority key',
+          privacyLevel: 'PUBLIC'
+        },
+        timestamp: new Date().toISOString(),
+        contractAddress: this.contractAddress,
+        transactionHash: result?.transactionHash,
+        gasUsed: result?.gasUsed?.toString()
+      };
+    } catch (error) {
+      return {
+        method: 'removeCertifier',
+        params: { certifierId },
+        error: error instanceof Error ? error.message : 'Unknown error',
+        timestamp: new Date().toISOString(),
+        contractAddress: this.contractAddress
+      };
+    }
+  }
+
+  /**
+   * List registered certifiers from the public ledger (read-only, no transaction)
+   */
+  async listCertifiers(): Promise<SmartContractResponse> {
+    try {
+      const ledger = await this.readLedgerOrThrow();
+      const certifiers: CertifierSummary[] = Array.from(ledger.certifiers, ([certifierId, certifier]) => ({
+        certifierId: certifierId.toString(),
+        criterionId: certifier.criterion.toString(),
+        publicKey: { x: certifier.publicKey.x.toString(), y: certifier.publicKey.y.toString() }
+      }));
+
+      return {
+        method: 'listCertifiers',
+        result: certifiers,
+        contractCall: {
+          circuit: 'ledger.certifiers',
+          input: '[]',
+          output: `${certifiers.length} certifier(s)`,
+          privacyLevel: 'PUBLIC'
+        },
+        timestamp: new Date().toISOString(),
+        contractAddress: this.contractAddress
+      };
+    } catch (error) {
+      return {
+        method: 'listCertifiers',
+        error: error instanceof Error ? error.message : 'Unknown error',
+        timestamp: new Date().toISOString(),
+        contractAddress: this.contractAddress
+      };
+    }
+  }
+
+  /**
+   * Define (or relabel) a compliance criterion certifiers can attest to
+   * Only succeeds when the private state holds the procurement authority secret key
+   */
+  async defineCriterion(criterionId: number, label: string): Promise<SmartContractResponse> {
+    try {
+      const contract = this.getContractOrThrow();
+      await this.assertAuthorityKeyPresent();
+      const result = await contract.defineCriterion(BigInt(criterionId), encodeCriterionLabel(label));
+
+      return {
+        method: 'defineCriterion',
+        params: { criterionId, label },
+        contractCall: {
+          circuit: 'defineCriterion',
+          input: `[${criterionId}, "${label}"]`,
+          output: 'Compliance criterion defined',
+          ledgerUpdate: `complianceCriteria.insert(${criterionId}, "${label}")`,
+          authorization: 'Proof of procurement authority key',
+          privacyLevel: 'PUBLIC'
+        },
+        timestamp: new Date().toISOString(),
+        contractAddress: this.contractAddress,
+        transactionHash: result?.transactionHash,
+        gasUsed: result?.gasUsed?.toString()
+      };
+    } catch (error) {
+      return {
+        method: 'defineCriterion',
+        params: { criterionId, label },
+        error: error instanceof Error ? error.message : 'Unknown error',
+        timestamp: new Date().toISOString(),
+        contractAddress: this.contractAddress
+      };
+    }
+  }
+
+  /**
+   * Publish or replace a compliance profile (e.g. one per category)
+   * criterionIds lists 1 to COMPLIANCE_PROFILE_SLOTS defined criteria
+   * Only succeeds when the private state holds the procurement authority secret key
+   */
+  async setComplianceProfile(profileId: number, criterionIds: number[]): Promise<SmartContractResponse> {
+    try {
+      const contract = this.getContractOrThrow();
+      await this.assertAuthorityKeyPresent();
+      if (criterionIds.length === 0 || criterionIds.length > COMPLIANCE_PROFILE_SLOTS) {
+        throw new Error(`A compliance profile requires 1 to ${COMPLIANCE_PROFILE_SLOTS} criteria`);
+      }
+      if (criterionIds.some((id) => !Number.isInteger(id) || id <= 0) || new Set(criterionIds).size !== criterionIds.length) {
+        throw new Error('Criterion ids must be distinct positive integers');
+      }
+      const slots = Array.from({ length: COMPLIANCE_PROFILE_SLOTS }, (_, i) => BigInt(criterionIds[i] ?? 0));
+      const result = await contract.setComplianceProfile(BigInt(profileId), slots);
+
+      return {
+        method: 'setComplianceProfile',
+        params: { profileId, criterionIds },
+        contractCall: {
+          circuit: 'setComplianceProfile',
+          input: `[${profileId}, [${slots.join(', ')}]]`,
+          output: 'Compliance profile published',
+          ledgerUpdate: `complianceProfiles.insert(${profileId}, [${slots.join(', ')}])`,
+          authorization: 'Proof of procurement authority key',
+          privacyLevel: 'PUBLIC'
+        },
+        timestamp: new Date().toISOString(),
+        contractAddress: this.contractAddress,
+        transactionHash: result?.transactionHash,
+        gasUsed: result?.gasUsed?.toString()
+      };
+    } catch (error) {
+      return {
+        method: 'setComplianceProfile',
+        params: { profileId, criterionIds },
+        error: error instanceof Error ? error.message : 'Unknown error',
+        timestamp: new Date().toISOString(),
+        contractAddress: this.contractAddress
+      };
+    }
+  }
+
+  /**
+   * Read a compliance profile with its criterion labels from the public ledger (read-only, no transaction)
+   * Result is null when the profile is not defined
+   */
+  async getComplianceProfile(profileId: number): Promise<SmartContractResponse> {
+    try {
+      const ledger = await this.readLedgerOrThrow();
+      const key = BigInt(profileId);
+      const profile: ComplianceProfileSummary | null = ledger.complianceProfiles.member(key)
+        ? {
+            profileId: key.toString(),
+            criteria: ledger.complianceProfiles
+              .lookup(key)
+              .filter((criterion) => criterion !== 0n)
+              .map((criterion) => ({
+                criterionId: criterion.toString(),
+                label: ledger.complianceCriteria.member(criterion)
+                  ? decodeCriterionLabel(ledger.complianceCriteria.lookup(criterion))
+                  : `criterion ${criterion}`
+              }))
+          }
+        : null;
+
+      return {
+        method: 'getComplianceProfile',
+        params: { profileId },
+        result: profile,
+        contractCall: {
+          circuit: 'ledger.complianceProfiles',
+          input: `[${profileId}]`,
+          output: profile === null ? 'No compliance profile' : `${profile.criteria.length} required criteria`,
+          privacyLevel: 'PUBLIC'
+        },
+        timestamp: new Date().toISOString(),
+        contractAddress: this.contractAddress
+      };
+    } catch (error) {
+      return {
+        method: 'getComplianceProfile',
+        params: { profileId },
+        error: error instanceof Error ? error.message : 'Unknown error',
+        timestamp: new Date().toISOString(),
+        contractAddress: this.contractAddress
+      };
+    }
+  }
+
+  /**
+   * List defined compliance criteria from the public ledger (read-only, no transaction)
+   */
+  async listComplianceCriteria(): Promise<SmartContractResponse> {
+    try {
+      const ledger = await this.readLedgerOrThrow();
+      const criteria: ComplianceCriterionSummary[] = Array.from(ledger.complianceCriteria, ([criterionId, label]) => ({
+        criterionId: criterionId.toString(),
+        label: decodeCriterionLabel(label)
+      }));
+
+      return {
+        method: 'listComplianceCriteria',
+        result: criteria,
+        contractCall: {
+          circuit: 'ledger.complianceCriteria',
+          input: '[]',
+          output: `${criteria.length} criteria`,
+          privacyLevel: 'PUBLIC'
+        },
+        timestamp: new Date().toISOString(),
+        contractAddress: this.contractAddress
+      };
+    } catch (error) {
+      return {
+        method: 'listComplianceCriteria',
+        error: error instanceof Error ? error.message : 'Unknown error',
+        timestamp: new Date().toISOString(),
+        contractAddress: this.contractAddress
+      };
+    }
+  }
+
+  /**
+   * Open a new procurement round with its own qualified-vendor set
+   * Only succeeds when the private state holds the procurement authority secret key
+   */
+  async createRound(roundId: number): Promise<SmartContractResponse> {
+    try {
+      const contract = this.getContractOrThrow();
+      await this.assertAuthorityKeyPresent();
+      const result = await contract.createRound(BigInt(roundId));
+
+      return {
+        method: 'createRound',
+        params: { roundId },
+        contractCall: {
+          circuit: 'createRound',
+          input: `[${roundId}]`,
+          output: 'Procurement round opened',
+          ledgerUpdate: `rounds.insert(${roundId}, { open: true })`,
+          authorization: 'Proof of procurement authority key',
+          privacyLevel: 'PUBLIC'
+        },
+        timestamp: new Date().toISOString(),
+        contractAddress: this.contractAddress,
+        transactionHash: result?.transactionHash,
+        gasUsed: result?.gasUsed?.toString()
+      };
+    } catch (error) {
+      return {
+        method: 'createRound',
+        params: { roundId },
+        error: error instanceof Error ? error.message : 'Unknown error',
+        timestamp: new Date().toISOString(),
+        contractAddress: this.contractAddress
+      };
+    }
+  }
+
+  /**
+   * Close a procurement round; no further qualifications can be recorded in it
+   * Only succeeds when the private state holds the procurement authority secret key
+   */
+  async closeRound(roundId: number): Promise<SmartContractResponse> {
+    try {
+      const contract = this.getContractOrThrow();
+      await this.assertAuthorityKeyPresent();
+      const result = await contract.closeRound(BigInt(roundId));
+
+      return {
+        method: 'closeRound',
+        params: { roundId },
+        contractCall: {
+          circuit: 'closeRound',
+          input: `[${roundId}]`,
+          output: 'Procurement round closed',
+          ledgerUpdate: `rounds.insert(${roundId}, { open: false })`,
+          authorization: 'Proof of procurement authority key',
+          privacyLevel: 'PUBLIC'
+        },
+        timestamp: new Date().toISOString(),
+        contractAddress: this.contractAddress,
+        transactionHash: result?.transactionHash,
+        gasUsed: result?.gasUsed?.toString()
+      };
+    } catch (error) {
+      return {
+        method: 'closeRound',
+        params: { roundId },
+        error: error instanceof Error ? error.message : 'Unknown error',
+        timestamp: new Date().toISOString(),
+        contractAddress: this.contractAddress
+      };
+    }
+  }
+
+  /**
+   * Publish or update the minimum qualification score for an open round
+   * Only succeeds when the private state holds the procurement authority secret key
+   */
+  async setRoundThreshold(roundId: number, minimumThreshold: number): Promise<SmartContractResponse> {
+    try {
+      const contract = this.getContractOrThrow();
+      await this.assertAuthorityKeyPresent();
+      const result = await contract.setRoundThreshold(BigInt(roundId), BigInt(minimumThreshold));
+
+      return {
+        method: 'setRoundThreshold',
+        params: { roundId, minimumThreshold },
+        contractCall: {
+          circuit: 'setRoundThreshold',
+          input: `[${roundId}, ${minimumThreshold}]`,
+          output: 'Threshold policy published',
+          ledgerUpdate: `roundThresholds.insert(${roundId}, ${minimumThreshold})`,
+          authorization: 'Proof of procurement authority key',
+          privacyLevel: 'PUBLIC'
+        },
+        timestamp: new Date().toISOString(),
+        contractAddress: this.contractAddress,
+        transactionHash: result?.transactionHash,
+        gasUsed: result?.gasUsed?.toString()
+      };
+    } catch (error) {
+      return {
+        method: 'setRoundThreshold',
+        params: { roundId, minimumThreshold },
+        error: error instanceof Error ? error.message : 'Unknown error',
+        timestamp: new Date().toISOString(),
+        contractAddress: this.contractAddress
+      };
+    }
+  }
+
+  /**
+   * Read the round's active threshold from the public ledger (read-only, no transaction)
+   * Result is null when procurement has not published a threshold for the round
+   */
+  async getActiveThreshold(roundId: number): Promise<SmartContractResponse> {
+    try {
+      const ledger = await this.readLedgerOrThrow();
+      const key = BigInt(roundId);
+      const threshold = ledger.roundThresholds.member(key) ? Number(ledger.roundThresholds.lookup(key)) : null;
+
+      return {
+        method: 'getActiveThreshold',
+        params: { roundId },
+        result: threshold,
+        contractCall: {
+          circuit: 'ledger.roundThresholds',
+          input: `[${roundId}]`,
+          output: threshold === null ? 'No threshold policy' : `${threshold}`,
+          privacyLevel: 'PUBLIC'
+        },
+        timestamp: new Date().toISOString(),
+        contractAddress: this.contractAddress
+      };
+    } catch (error) {
+      return {
+        method: 'getActiveThreshold',
+        params: { roundId },
+        error: error instanceof Error ? error.message : 'Unknown error',
+        timestamp: new Date().toISOString(),
+        contractAddress: this.contractAddress
+      };
+    }
+  }
+
+  /**
+   * Publish or update the sub-metric weights (percent, summing to 100) for an open round
+   * Only succeeds when the private state holds the procurement authority secret key
+   */
+  async setRoundWeights(roundId: number, weights: ScoringWeights): Promise<SmartContractResponse> {
+    try {
+      const contract = this.getContractOrThrow();
+      const vector = VENDOR_METRICS.map((name) => weights[name]);
+      if (vector.some((weight) => !Number.isInteger(weight) || weight < 0)) {
+        throw new Error('Scoring weights must be whole, non-negative percentages');
+      }
+      if (vector.reduce((sum, weight) => sum + weight, 0) !== 100) {
+        throw new Error('Scoring weights must sum to 100');
+      }
+      await this.assertAuthorityKeyPresent();
+      const result = await contract.setRoundWeights(BigInt(roundId), vector.map(BigInt));
+
+      return {
+        method: 'setRoundWeights',
+        params: { roundId, weights },
+        contractCall: {
+          circuit: 'setRoundWeights',
+          input: `[${roundId}, [${vector.join(', ')}]]`,
+          output: 'Scoring weights published',
+          ledgerUpdate: `roundWeights.insert(${roundId}, [${vector.join(', ')}])`,
+          authorization: 'Proof of procurement authority key',
+          privacyLevel: 'PUBLIC'
+        },
+        timestamp: new Date().toISOString(),
+        contractAddress: this.contractAddress,
+        transactionHash: result?.transactionHash,
+        gasUsed: result?.gasUsed?.toString()
+      };
+    } catch (error) {
+      return {
+        method: 'setRoundWeights',
+        params: { roundId, weights },
+        error: error instanceof Error ? error.message : 'Unknown error',
+        timestamp: new Date().toISOString(),
+        contractAddress: this.contractAddress
+      };
+    }
+  }
+
+  /**
+   * Read the round's scoring weights from the public ledger (read-only, no transaction)
+   * Result is null when procurement has not published weights for the round
+   */
+  async getRoundWeights(roundId: number): Promise<SmartContractResponse> {
+    try {
+      const ledger = await this.readLedgerOrThrow();
+      const key = BigInt(roundId);
+      const weights: ScoringWeights | null = ledger.roundWeights.member(key)
+        ? (Object.fromEntries(
+            ledger.roundWeights.lookup(key).map((weight, i) => [VENDOR_METRICS[i], Number(weight)])
+          ) as ScoringWeights)
+        : null;
+
+      return {
+        method: 'getRoundWeights',
+        params: { roundId },
+        result: weights,
+        contractCall: {
+          circuit: 'ledger.roundWeights',
+          input: `[${roundId}]`,
+          output: weights === null ? 'No scoring weights' : JSON.stringify(weights),
+          privacyLevel: 'PUBLIC'
+        },
+        timestamp: new Date().toISOString(),
+        contractAddress: this.contractAddress
+      };
+    } catch (error) {
+      return {
+        method: 'getRoundWeights',
+        params: { roundId },
+        error: error instanceof Error ? error.message : 'Unknown error',
+        timestamp: new Date().toISOString(),
+        contractAddress: this.contractAddress
+      };
+    }
+  }
+
+  /**
+   * List procurement rounds from the public ledger (read-only, no transaction)
+   */
+  async listRounds(): Promise<SmartContractResponse> {
+    try {
+      const ledger = await this.readLedgerOrThrow();
+      const rounds: ProcurementRoundSummary[] = Array.from(ledger.rounds, ([roundId, round]) => ({
+        roundId: roundId.toString(),
+        open: round.open,
+        vendorEntries: ledger.vendors.member(roundId) ? Number(ledger.vendors.lookup(roundId).size()) : 0
+      }));
+
+      return {
+        method: 'listRounds',
+        result: rounds,
+        contractCall: {
+          circuit: 'ledger.rounds',
+          input: '[]',
+          output: `${rounds.length} round(s)`,
+          privacyLevel: 'PUBLIC'
+        },
+        timestamp: new Date().toISOString(),
+        contractAddress: this.contractAddress
+      };
+    } catch (error) {
+      return {
+        method: 'listRounds',
+        error: error instanceof Error ? error.message : 'Unknown error',
+        timestamp: new Date().toISOString(),
+        contractAddress: this.contractAddress
+      };
+    }
+  }
+
+  /**
+   * Read a round's aggregate counters from the public ledger (read-only, no transaction)
+   * Counts only: no vendor id is read or returned
+   */
+  async getRoundStatistics(roundId: number): Promise<SmartContractResponse> {
+    try {
+      const ledger = await this.readLedgerOrThrow();
+      const round = BigInt(roundId);
+      if (!ledger.rounds.member(round)) {
+        throw new Error('Unknown procurement round');
+      }
+      const summary: RoundStatisticsSummary = {
+        roundId: round.toString(),
+        qualified: Number(ledger.qualifiedCount.lookup(round)),
+        revoked: Number(ledger.revokedCount.lookup(round))
+      };
+
+      return {
+        method: 'getRoundStatistics',
+        params: { roundId },
+        result: summary,
+        contractCall: {
+          circuit: 'ledger.qualifiedCount, ledger.revokedCount',
+          input: `[${roundId}]`,
+          output: `${summary.qualified} qualified, ${summary.revoked} revoked`,
+          privacyLevel: 'PUBLIC'
+        },
+        timestamp: new Date().toISOString(),
+        contractAddress: this.contractAddress
+      };
+    } catch (error) {
+      return {
+        method: 'getRoundStatistics',
+        params: { roundId },
+        error: error instanceof Error ? error.message : 'Unknown error',
+        timestamp: new Date().toISOString(),
+        contractAddress: this.contractAddress
+      };
+    }
+  }
+
+  /**
+   * Read every round's and compliance profile's aggregate counters from the public ledger
+   * (read-only, no transaction); counts only, never vendor ids
+   */
+  async getQualificationStatistics(): Promise<SmartContractResponse> {
+    try {
+      const ledger = await this.readLedgerOrThrow();
+      const rounds: RoundStatisticsSummary[] = Array.from(ledger.rounds, ([roundId]) => ({
+        roundId: roundId.toString(),
+        qualified: Number(ledger.qualifiedCount.lookup(roundId)),
+        revoked: Number(ledger.revokedCount.lookup(roundId))
+      }));
+      const profiles: ProfileStatisticsSummary[] = Array.from(ledger.profileQualifications, ([profileId, count]) => ({
+        profileId: profileId.toString(),
+        qualifications: Number(count)
+      }));
+      const summary: QualificationStatisticsSummary = {
+        rounds,
+        profiles,
+        totalQualified: rounds.reduce((sum, round) => sum + round.qualified, 0),
+        totalRevoked: rounds.reduce((sum, round) => sum + round.revoked, 0)
+      };
+
+      return {
+        method: 'getQualificationStatistics',
+        result: summary,
+        contractCall: {
+          circuit: 'ledger.qualifiedCount, ledger.revokedCount, ledger.profileQualifications',
+          input: '[]',
+          output: `${summary.totalQualified} qualified, ${summary.totalRevoked} revoked across ${rounds.length} round(s)`,
+          privacyLevel: 'PUBLIC'
+        },
+        timestamp: new Date().toISOString(),
+        contractAddress: this.contractAddress
+      };
+    } catch (error) {
+      return {
+        method: 'getQualificationStatistics',
+        error: error instanceof Error ? error.message : 'Unknown error',
+        timestamp: new Date().toISOString(),
+        contractAddress: this.contractAddress
+      };
+    }
+  }
+
+  /**
+   * Propose a vendor qualification in a procurement round (Circuit 3)
+   * Only succeeds when the private state holds a registered officer's secret key
+   * The proposer's approval is counted; the vendor is qualified once k officers approve
+   * The vendor needs fresh qualification and compliance receipts in the round (see getProofReceipt)
+   * The qualification lapses automatically at expiresAt
+   * membershipCommitment (hex, from the vendor's createMembershipKey) is added to the qualified-set tree
+   * evidenceHash (hex, from hashEvidenceFiles) is optional and stored with the qualification
+   */
+  async proposeQualification(
+    roundId: number,
+    vendorRef: string,
+    expiresAt: Date,
+    membershipCommitment: string,
+    evidenceHash?: string
+  ): Promise<SmartContractResponse> {
+    const expiresAtSeconds = Math.floor(expiresAt.getTime() / 1000);
+
+    try {
+      const contract = this.getContractOrThrow();
+      await this.assertOfficerKeyPresent();
+      const memberKey = hexToBytes(membershipCommitment);
+      if (memberKey.length !== 32) {
+        throw new Error('Membership commitment must be 32 bytes of hex');
+      }
+      const result = await contract.proposeQualification(
+        BigInt(roundId),
+        vendorRefBytes(vendorRef),
+        BigInt(expiresAtSeconds),
+        memberKey,
+        evidenceHashBytes(evidenceHash)
+      );
+      const proposalId = Array.isArray(result) ? result[0]?.toString() : undefined;
+
+      return {
+        method: 'proposeQualification',
+        params: { roundId, vendorRef, expiresAt: expiresAt.toISOString() },
+        result: proposalId,
+        contractCall: {
+          circuit: 'proposeQualification',
+          input: `[${roundId}, ${vendorRef.slice(0, 16)}..., ${expiresAtSeconds}, ${membershipCommitment.slice(0, 16)}..., ${evidenceHash ? `${evidenceHash.slice(0, 16)}...` : 'no evidence'}]`,
+          output: proposalId === undefined ? 'Qualification proposed' : `Proposal ${proposalId} created`,
+          ledgerUpdate: 'proposals.insert(proposalId, { ... }); proposals[proposalId].approvers += officer',
+          authorization: 'Proof of a registered procurement officer key',
+          privacyLevel: 'PUBLIC',
+          note: 'This is a public transaction visible on-chain'
+        },
+        timestamp: new Date().toISOString(),
+        contractAddress: this.contractAddress,
+        transactionHash: result?.transactionHash,
+        gasUsed: result?.gasUsed?.toString()
+      };
+    } catch (error) {
+      return {
+        method: 'proposeQualification',
+        params: { roundId, vendorRef, expiresAt: expiresAt.toISOString() },
+        error: error instanceof Error ? error.message : 'Unknown error',
+        timestamp: new Date().toISOString(),
+        contractAddress: this.contractAddress
+      };
+    }
+  }
+
+  /**
+   * Approve a pending qualification proposal (Circuit 3a)
+   * Only succeeds when the private state holds a registered officer's secret key
+   * The k-th approval records the qualification; result is true when that happened
+   */
+  async approveQualification(proposalId: number): Promise<SmartContractResponse> {
+    try {
+      const contract = this.getContractOrThrow();
+      await this.assertOfficerKeyPresent();
+      const result = await contract.approveQualification(BigInt(proposalId));
+      const executed = Array.isArray(result) ? result[0] : result;
+
+      return {
+        method: 'approveQualification',
+        params: { proposalId },
+        result: executed,
+        contractCall: {
+          circuit: 'approveQualification',
+          input: `[${proposalId}]`,
+          output: executed ? 'Approval threshold reached: vendor marked as qualified' : 'Approval counted',
+          ledgerUpdate: executed
+            ? `proposals[${proposalId}].approvers += officer; vendors[roundId].insert(vendorRef, { ... }); qualifiedMembers.insertIndex(leaf, memberIndex)`
+            : `proposals[${proposalId}].approvers += officer`,
+          authorization: 'Proof of a registered procurement officer key',
+          privacyLevel: 'PUBLIC',
+          note: 'This is a public transaction visible on-chain'
+        },
+        timestamp: new Date().toISOString(),
+        contractAddress: this.contractAddress,
+        transactionHash: result?.transactionHash,
+        gasUsed: result?.gasUsed?.toString()
+      };
+    } catch (error) {
+      return {
+        method: 'approveQualification',
+        params: { proposalId },
+        error: error instanceof Error ? error.message : 'Unknown error',
+        timestamp: new Date().toISOString(),
+        contractAddress: this.contractAddress
+      };
+    }
+  }
+
+  /**
+   * Propose any number of vendor qualifications in a round, QUALIFICATION_BATCH_SIZE per
+   * transaction (Circuit 3, batched); all proposals share one expiry
+   * Chunks run in order and stop at the first failure; earlier chunks stay on the ledger
+   * Only succeeds when the private state holds a registered officer's secret key
+   */
+  async proposeQualificationBatch(
+    roundId: number,
+    entries: QualificationBatchEntry[],
+    expiresAt: Date,
+    onProgress?: (progress: BatchProgress) => void
+  ): Promise<SmartContractResponse> {
+    const expiresAtSeconds = Math.floor(expiresAt.getTime() / 1000);
+    const chunks = chunkBatch(entries);
+    const summary: ProposalBatchSummary = { proposalIds: [], completedChunks: 0, chunks: chunks.length };
+    const params = { roundId, vendors: entries.length, expiresAt: expiresAt.toISOString() };
+
+    try {
+      const contract = this.getContractOrThrow();
+      await this.assertOfficerKeyPresent();
+      if (entries.length === 0) {
+        throw new Error('Batch must hold at least one vendor');
+      }
+      const vendorRefs = entries.map(({ vendorRef }) => vendorRefBytes(vendorRef));
+      const memberKeys = entries.map(({ membershipCommitment }) => {
+        const memberKey = hexToBytes(membershipCommitment);
+        if (memberKey.length !== 32) {
+          throw new Error('Membership commitment must be 32 bytes of hex');
+        }
+        return memberKey;
+      });
+
+      for (const [index, chunk] of chunks.entries()) {
+        const offset = index * QUALIFICATION_BATCH_SIZE;
+        // Unused slots are padded; the circuit ignores every slot from count on
+        const padding = QUALIFICATION_BATCH_SIZE - chunk.length;
+        const refs = [...vendorRefs.slice(offset, offset + chunk.length), ...Array.from({ length: padding }, () => new Uint8Array(32))];
+        const keys = [...memberKeys.slice(offset, offset + chunk.length), ...Array.from({ length: padding }, () => new Uint8Array(32))];
+        const evidence = [...chunk.map((entry) => evidenceHashBytes(entry.evidenceHash)), ...Array.from({ length: padding }, () => new Uint8Array(32))];
+        try {
+          const result = await contract.proposeQualificationBatch(
+            BigInt(roundId),
+            BigInt(chunk.length),
+            refs,
+            keys,
+            evidence,
+            BigInt(expiresAtSeconds)
+          );
+          const firstId = BigInt(Array.isArray(result) ? result[0] : result);
+          summary.proposalIds.push(...chunk.map((_, i) => (firstId + BigInt(i)).toString()));
+        } catch (error) {
+          throw new Error(`Chunk ${index + 1} of ${chunks.length} failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+        summary.completedChunks = index + 1;
+        onProgress?.({ chunk: index + 1, chunks: chunks.length, processed: offset + chunk.length, total: entries.length });
+      }
+
+      return {
+        method: 'proposeQualificationBatch',
+        params,
+        result: summary,
+        contractCall: {
+          circuit: 'proposeQualificationBatch',
+          input: `${chunks.length} transaction(s) of up to ${QUALIFICATION_BATCH_SIZE} vendors in round ${roundId}`,
+          output: `${summary.proposalIds.length} proposal(s) created`,
+          ledgerUpdate: 'proposals.insert(proposalId, { ... }); proposals[proposalId].approvers += officer per vendor',
+          authorization: 'Proof of a registered procurement officer key',
+          privacyLevel: 'PUBLIC',
+          note: 'These are public transactions visible on-chain'
+        },
+        timestamp: new Date().toISOString(),
+        contractAddress: this.contractAddress
+      };
+    } catch (error) {
+      return {
+        method: 'proposeQualificationBatch',
+        params,
+        result: summary,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        timestamp: new Date().toISOString(),
+        contractAddress: this.contractAddress
+      };
+    }
+  }
+
+  /**
+   * Approve any number of pending proposals, QUALIFICATION_BATCH_SIZE per transaction
+   * (Circuit 3a, batched); approvals that reach k record the vendor as with approveQualification
+   * Chunks run in order and stop at the first failure; earlier chunks stay on the ledger
+   * Only succeeds when the private state holds a registered officer's secret key
+   */
+  async approveQualificationBatch(
+    proposalIds: number[],
+    onProgress?: (progress: BatchProgress) => void
+  ): Promise<SmartContractResponse> {
+    const chunks = chunkBatch(proposalIds);
+    const summary: ApprovalBatchSummary = { approved: 0, recorded: 0, completedChunks: 0, chunks: chunks.length };
+    const params = { proposals: proposalIds.length };
+
+    try {
+      const contract = this.getContractOrThrow();
+      await this.assertOfficerKeyPresent();
+      if (proposalIds.length === 0) {
+        throw new Error('Batch must hold at least one proposal');
+      }
+
+      for (const [index, chunk] of chunks.entries()) {
+        const padding = QUALIFICATION_BATCH_SIZE - chunk.length;
+        const ids = [...chunk.map((proposalId) => BigInt(proposalId)), ...Array(padding).fill(0n)];
+        try {
+          const result = await contract.approveQualificationBatch(BigInt(chunk.length), ids);
+          summary.recorded += Number(Array.isArray(result) ? result[0] : result);
+        } catch (error) {
+          throw new Error(`Chunk ${index + 1} of ${chunks.length} failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+        summary.approved += chunk.length;
+        summary.completedChunks = index + 1;
+        onProgress?.({ chunk: index + 1, chunks: chunks.length, processed: summary.approved, total: proposalIds.length });
+      }
+
+      return {
+        method: 'approveQualificationBatch',
+        params,
+        result: summary,
+        contractCall: {
+          circuit: 'approveQualificationBatch',
+          input: `${chunks.length} transaction(s) of up to ${QUALIFICATION_BATCH_SIZE} proposals`,
+          output: `${summary.approved} approval(s) counted, ${summary.recorded} vendor(s) marked as qualified`,
+          ledgerUpdate: 'proposals[proposalId].approvers += officer per proposal; vendors[roundId].insert(vendorRef, { ... }) once k is reached',
+          authorization: 'Proof of a registered procurement officer key',
+          privacyLevel: 'PUBLIC',
+          note: 'These are public transactions visible on-chain'
+        },
+        timestamp: new Date().toISOString(),
+        contractAddress: this.contractAddress
+      };
+    } catch (error) {
+      return {
+        method: 'approveQualificationBatch',
+        params,
+        result: summary,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        timestamp: new Date().toISOString(),
+        contractAddress: this.contractAddress
+      };
+    }
+  }
+
+  /**
+   * List qualification proposals still waiting for approvals (read-only, no transaction)
+   */
+  async listPendingProposals(): Promise<SmartContractResponse> {
+    try {
+      const ledger = await this.readLedgerOrThrow();
+      const pending: PendingProposalSummary[] = Array.from(ledger.proposals)
+        .filter(([, proposal]) => !proposal.executed)
+        .map(([proposalId, proposal]) => {
+          const approvedBy = proposal.approvers
+            .slice(0, Number(proposal.approvalCount))
+            .filter((officer) => ledger.officers.member(officer))
+            .map(bytesToHex);
+          return {
+            proposalId: proposalId.toString(),
+            roundId: proposal.roundId.toString(),
+            vendorRef: bytesToHex(proposal.vendorRef),
+            expiresAt: new Date(Number(proposal.expiresAt) * 1000).toISOString(),
+            approvals: approvedBy.length,
+            approvalThreshold: Number(ledger.approvalThreshold),
+            approvedBy,
+            evidenceHash: storedEvidenceHash(proposal.evidenceHash)
+          };
+        });
+
+      return {
+        method: 'listPendingProposals',
+        result: pending,
+        contractCall: {
+          circuit: 'ledger.proposals',
+          input: '[]',
+          output: `${pending.length} pending proposal(s)`,
+          privacyLevel: 'PUBLIC'
+        },
+        timestamp: new Date().toISOString(),
+        contractAddress: this.contractAddress
+      };
+    } catch (error) {
+      return {
+        method: 'listPendingProposals',
+        error: error instanceof Error ? error.message : 'Unknown error',
+        timestamp: new Date().toISOString(),
+        contractAddress: this.contractAddress
+      };
+    }
+  }
+
+  /**
+   * Register a procurement officer by public key (hex, from the officer's createOfficerKey)
+   * Only succeeds when the private state holds the procurement authority secret key
+   */
+  async registerOfficer(officerPublicKey: string): Promise<SmartContractResponse> {
+    try {
+      const contract = this.getContractOrThrow();
+      await this.assertAuthorityKeyPresent();
+      const officerKey = hexToBytes(officerPublicKey);
+      if (officerKey.length !== 32) {
+        throw new Error('Officer public key must be 32 bytes of hex');
+      }
+      const result = await contract.registerOfficer(officerKey);
+
+      return {
+        method: 'registerOfficer',
+        params: { officerPublicKey },
+        contractCall: {
+          circuit: 'registerOfficer',
+          input: `[${officerPublicKey.slice(0, 16)}...]`,
+          output: 'Procurement officer registered',
+          ledgerUpdate: 'officers.insert(officerKey)',
+          authorization: 'Proof of procurement authority key',
+          privacyLevel: 'PUBLIC'
+        },
+        timestamp: new Date().toISOString(),
+        contractAddress: this.contractAddress,
+        transactionHash: result?.transactionHash,
+        gasUsed: result?.gasUsed?.toString()
+      };
+    } catch (error) {
+      return {
+        method: 'registerOfficer',
+        params: { officerPublicKey },
+        error: error instanceof Error ? error.message : 'Unknown error',
+        timestamp: new Date().toISOString(),
+        contractAddress: this.contractAddress
+      };
+    }
+  }
+
+  /**
+   * Remove a procurement officer; at least approvalThreshold officers must remain
+   * Approvals the officer gave to pending proposals stop counting towards k
+   * Only succeeds when the private state holds the procurement authority secret key
+   */
+  async removeOfficer(officerPublicKey: string): Promise<SmartContractResponse> {
+    try {
+      const contract = this.getContractOrThrow();
+      await this.assertAuthorityKeyPresent();
+      const result = await contract.removeOfficer(hexToBytes(officerPublicKey));
+
+      return {
+        method: 'removeOfficer',
+        params: { officerPublicKey },
+        contractCall: {
+          circuit: 'removeOfficer',
+          input: `[${officerPublicKey.slice(0, 16)}...]`,
+          output: 'Procurement officer removed',
+          ledgerUpdate: 'officers.remove(officerKey)',
+          authorization: 'Proof of procurement authority key',
+          privacyLevel: 'PUBLIC'
+        },
+        timestamp: new Date().toISOString(),
+        contractAddress: this.contractAddress,
+        transactionHash: result?.transactionHash,
+        gasUsed: result?.gasUsed?.toString()
+      };
+    } catch (error) {
+      return {
+        method: 'removeOfficer',
+        params: { officerPublicKey },
+        error: error instanceof Error ? error.message : 'Unknown error',
+        timestamp: new Date().toISOString(),
+        contractAddress: this.contractAddress
+      };
+    }
+  }
+
+  /**
+   * Set how many officers (k of n, k >= 2) must approve a qualification
+   * Only succeeds when the private state holds the procurement authority secret key
+   */
+  async setApprovalThreshold(threshold: number): Promise<SmartContractResponse> {
+    try {
+      const contract = this.getContractOrThrow();
+      await this.assertAuthorityKeyPresent();
+      const result = await contract.setApprovalThreshold(BigInt(threshold));
+
+      return {
+        method: 'setApprovalThreshold',
+        params: { threshold },
+        contractCall: {
+          circuit: 'setApprovalThreshold',
+          input: `[${threshold}]`,
+          output: `${threshold} officer approvals required`,
+          ledgerUpdate: `approvalThreshold = ${threshold}`,
+          authorization: 'Proof of procurement authority key',
+          privacyLevel: 'PUBLIC'
+        },
+        timestamp: new Date().toISOString(),
+        contractAddress: this.contractAddress,
+        transactionHash: result?.transactionHash,
+        gasUsed: result?.gasUsed?.toString()
+      };
+    } catch (error) {
+      return {
+        method: 'setApprovalThreshold',
+        params: { threshold },
+        error: error instanceof Error ? error.message : 'Unknown error',
+        timestamp: new Date().toISOString(),
+        contractAddress: this.contractAddress
+      };
+    }
+  }
+  /**
+   * Revoke a vendor's qualification (Circuit 3b)
+   * Only succeeds when the private state holds the procurement authority secret key
+   */
+  async revokeQualification(roundId: number, vendorRef: string): Promise<SmartContractResponse> {
+    try {
+      const contract = this.getContractOrThrow();
+      await this.assertAuthorityKeyPresent();
+      const result = await contract.revokeQualification(BigInt(roundId), vendorRefBytes(vendorRef));
+
+      return {
+        method: 'revokeQualification',
+        params: { roundId, vendorRef },
+        contractCall: {
+          circuit: 'revokeQualification',
+          input: `[${roundId}, ${vendorRef.slice(0, 16)}...]`,
+          output: Array.isArray(result) ? JSON.stringify(result) : 'Vendor qualification revoked',
+          ledgerUpdate: `vendors[${roundId}].insert(vendorRef, { ..., revoked: true })`,
+          authorization: 'Proof of procurement authority key',
+          privacyLevel: 'PUBLIC',
+          note: 'This is a public transaction visible on-chain'
+        },
+        timestamp: new Date().toISOString(),
+        contractAddress: this.contractAddress,
+        transactionHash: result?.transactionHash,
+        gasUsed: result?.gasUsed?.toString()
+      };
+    } catch (error) {
+      return {
+        method: 'revokeQualification',
+        params: { roundId, vendorRef },
+        error: error instanceof Error ? error.message : 'Unknown error',
+        timestamp: new Date().toISOString(),
+        contractAddress: this.contractAddress
+      };
+    }
+  }
+
+  /**
+   * Prove anonymously that the caller is a qualified vendor in a round (Circuit 5)
+   * Builds the witness path first; the vendor id is never sent to the contract
+   * Each vendor can prove once per round (nullifier)
+   */
+  async proveMembership(roundId: number, vendorId: number): Promise<SmartContractResponse> {
+    try {
+      const contract = this.getContractOrThrow();
+      await this.prepareMembershipProof(roundId, vendorId);
+      const result = await contract.proveMembership(BigInt(roundId));
+
+      return {
+        method: 'proveMembership',
+        params: { roundId },
+        result: true,
+        contractCall: {
+          circuit: 'proveMembership',
+          input: `[${roundId}]`,
+          output: 'Membership proven',
+          zkProof: `Proves a leaf of qualifiedMembers belongs to the caller for round ${roundId} without revealing which`,
+          ledgerUpdate: 'membershipNullifiers.insert(nullifier)',
+          privacyLevel: 'FULL_ZERO_KNOWLEDGE'
+        },
+        timestamp: new Date().toISOString(),
+        contractAddress: this.contractAddress,
+        transactionHash: result?.transactionHash,
+        gasUsed: result?.gasUsed?.toString()
+      };
+    } catch (error) {
+      return {
+        method: 'proveMembership',
+        params: { roundId },
+        error: error instanceof Error ? error.message : 'Unknown error',
+        timestamp: new Date().toISOString(),
+        contractAddress: this.contractAddress
+      };
+    }
+  }
+
+  /**
+   * Check if vendor is qualified in a round - yes/no and tier only (Circuit 4)
+   * No score or details revealed, maintains privacy
+   * Only succeeds when the private state holds the vendor's enrolled key or a registered officer's key
+   */
+  async isVendorQualified(roundId: number, vendorRef: string): Promise<SmartContractResponse> {
+    try {
+      const contract = this.getContractOrThrow();
+      const identity = await this.getStatusQueryIdentity(vendorRef);
+      const result = await contract.isVendorQualified(BigInt(roundId), vendorRefBytes(vendorRef));
+      const qualified = Array.isArray(result) ? result[0] : result;
+      const tier = toVendorTier(Array.isArray(result) ? result[1] : undefined);
+
+      return {
+        method: 'isVendorQualified',
+        params: { roundId, vendorRef },
+        result: qualified,
+        contractCall: {
+          circuit: 'isVendorQualified',
+          input: `[${roundId}, ${vendorRef.slice(0, 16)}...]`,
+          output: Array.isArray(result) ? `[${result[0]}, ${tier}]` : JSON.stringify(result),
+          status: qualified ? 'QUALIFIED' : 'NOT_QUALIFIED',
+          tier,
+          queriedAs: `${identity.role} ${identity.publicKey.slice(0, 16)}...`,
+          privacyNote: 'Only yes/no and the score tier returned (false and none once revoked or expired). Score and details are never revealed.',
+          privacyLevel: 'PRIVACY_PRESERVING'
+        },
+        timestamp: new Date().toISOString(),
+        contractAddress: this.contractAddress,
+        transactionHash: result?.transactionHash,
+        gasUsed: result?.gasUsed?.toString()
+      };
+    } catch (error) {
+      return {
+        method: 'isVendorQualified',
+        params: { roundId, vendorRef },
+        error: error instanceof Error ? error.message : 'Unknown error',
+        timestamp: new Date().toISOString(),
+        contractAddress: this.contractAddress
+      };
+    }
+  }
+
+  /**
+   * Read a vendor's proof receipt in a round from the public ledger (read-only, no transaction)
+   * A vendor can be proposed once both steps are fresh
+   */
+  async getProofReceipt(roundId: number, vendorRef: string): Promise<SmartContractResponse> {
+    try {
+      const ledger = await this.readLedgerOrThrow();
+      const round = BigInt(roundId);
+      const ref = vendorRefBytes(vendorRef);
+      const receipt = ledger.proofReceipts.member(round) && ledger.proofReceipts.lookup(round).member(ref)
+        ? ledger.proofReceipts.lookup(round).lookup(ref)
+        : null;
+      const nowSeconds = BigInt(Math.floor(Date.now() / 1000));
+      const qualified = !!receipt && nowSeconds < receipt.qualifiedUntil;
+      const compliant = !!receipt && nowSeconds < receipt.compliantUntil;
+      const toDate = (seconds: bigint) => (seconds > 0n ? new Date(Number(seconds) * 1000).toISOString() : null);
+      const summary: ProofReceiptSummary = {
+        roundId: round.toString(),
+        vendorRef: bytesToHex(ref),
+        qualified,
+        compliant,
+        profileId: receipt && receipt.compliantUntil > 0n ? receipt.profileId.toString() : null,
+        readyToPropose: qualified && compliant,
+        qualifiedUntil: receipt ? toDate(receipt.qualifiedUntil) : null,
+        compliantUntil: receipt ? toDate(receipt.compliantUntil) : null
+      };
+
+      return {
+        method: 'getProofReceipt',
+        params: { roundId, vendorRef },
+        result: summary,
+        contractCall: {
+          circuit: 'ledger.proofReceipts',
+          input: `[${roundId}, ${vendorRef.slice(0, 16)}...]`,
+          output: summary.readyToPropose
+            ? 'Fresh qualification and compliance proofs'
+            : `Missing: ${[!qualified && 'qualification', !compliant && 'compliance'].filter(Boolean).join(', ')}`,
+          privacyLevel: 'PUBLIC'
+        },
+        timestamp: new Date().toISOString(),
+        contractAddress: this.contractAddress
+      };
+    } catch (error) {
+      return {
+        method: 'getProofReceipt',
+        params: { roundId, vendorRef },
+        error: error instanceof Error ? error.message : 'Unknown error',
+        timestamp: new Date().toISOString(),
+        contractAddress: this.contractAddress
+      };
+    }
+  }
+
+  /**
+   * Read how long proof receipts stay fresh, in seconds, from the public ledger (read-only, no transaction)
+   */
+  async getReceiptValidity(): Promise<SmartContractResponse> {
+    try {
+      const ledger = await this.readLedgerOrThrow();
+      const seconds = Number(ledger.receiptValidity);
+
+      return {
+        method: 'getReceiptValidity',
+        result: seconds,
+        contractCall: {
+          circuit: 'ledger.receiptValidity',
+          input: '[]',
+          output: `${seconds} seconds`,
+          privacyLevel: 'PUBLIC'
+        },
+        timestamp: new Date().toISOString(),
+        contractAddress: this.contractAddress
+      };
+    } catch (error) {
+      return {
+        method: 'getReceiptValidity',
+        error: error instanceof Error ? error.message : 'Unknown error',
+        timestamp: new Date().toISOString(),
+        contractAddress: this.contractAddress
+      };
+    }
+  }
+
+  /**
+   * Set how long proof receipts stay fresh
+   * Only succeeds when the private state holds the procurement authority secret key
+   */
+  async setReceiptValidity(seconds: number): Promise<SmartContractResponse> {
+    try {
+      const contract = this.getContractOrThrow();
+      if (!Number.isInteger(seconds) || seconds <= 0) {
+        throw new Error('Receipt validity must be a positive number of seconds');
+      }
+      await this.assertAuthorityKeyPresent();
+      const result = await contract.setReceiptValidity(BigInt(seconds));
+
+      return {
+        method: 'setReceiptValidity',
+        params: { seconds },
+        contractCall: {
+          circuit: 'setReceiptValidity',
+          input: `[${seconds}]`,
+          output: 'Receipt validity updated',
+          ledgerUpdate: `receiptValidity = ${seconds}`,
+          authorization: 'Proof of procurement authority key',
+          privacyLevel: 'PUBLIC'
+        },
+        timestamp: new Date().toISOString(),
+        contractAddress: this.contractAddress,
+        transactionHash: result?.transactionHash,
+        gasUsed: result?.gasUsed?.toString()
+      };
+    } catch (error) {
+      return {
+        method: 'setReceiptValidity',
+        params: { seconds },
+        error: error instanceof Error ? error.message : 'Unknown error',
+        timestamp: new Date().toISOString(),
+        contractAddress: this.contractAddress
+      };
+    }
+  }
+
+  /**
+   * Enrol a vendor reference (hex, from the vendor's createVendorReference) with the vendor's
+   * public key (hex, from the vendor's createVendorKey)
+   * Re-enrolling a vendor reference replaces its key, e.g. when the vendor lost theirs
+   * Only succeeds when the private state holds the procurement authority secret key
+   */
+  async enrolVendor(vendorRef: string, vendorPublicKey: string): Promise<SmartContractResponse> {
+    try {
+      const contract = this.getContractOrThrow();
+      await this.assertAuthorityKeyPresent();
+      const vendorKey = hexToBytes(vendorPublicKey);
+      if (vendorKey.length !== 32) {
+        throw new Error('Vendor public key must be 32 bytes of hex');
+      }
+      const result = await contract.enrolVendor(vendorRefBytes(vendorRef), vendorKey);
+
+      return {
+        method: 'enrolVendor',
+        params: { vendorRef, vendorPublicKey },
+        contractCall: {
+          circuit: 'enrolVendor',
+          input: `[${vendorRef.slice(0, 16)}..., ${vendorPublicKey.slice(0, 16)}...]`,
+          output: 'Vendor enrolled',
+          ledgerUpdate: `vendorKeys.insert(vendorRef, vendorKey)`,
+          authorization: 'Proof of procurement authority key',
+          privacyLevel: 'PUBLIC'
+        },
+        timestamp: new Date().toISOString(),
+        contractAddress: this.contractAddress,
+        transactionHash: result?.transactionHash,
+        gasUsed: result?.gasUsed?.toString()
+      };
+    } catch (error) {
+      return {
+        method: 'enrolVendor',
+        params: { vendorRef, vendorPublicKey },
+        error: error instanceof Error ? error.message : 'Unknown error',
+        timestamp: new Date().toISOString(),
+        contractAddress: this.contractAddress
+      };
+    }
+  }
+
+  /**
+   * Rotate the vendor's enrolled key: proves the current key held in private state,
+   * publishes a fresh public key and then replaces the secret key in private state
+   * Returns the new vendor public key (hex)
+   */
+  async rotateVendorKey(vendorRef: string): Promise<SmartContractResponse> {
+    try {
+      const contract = this.getContractOrThrow();
+      await this.assertVendorKeyPresent();
+      const secretKey = crypto.getRandomValues(new Uint8Array(32));
+      const newKey = this.getPureCircuitsOrThrow().publicKey(secretKey);
+      const result = await contract.rotateVendorKey(vendorRefBytes(vendorRef), newKey);
+      // The circuit proved the old key, so it can only be replaced once the rotation succeeded
+      await this.updatePrivateState({ secretKey });
+      const vendorPublicKey = bytesToHex(newKey);
 
-// ============================================================================
-// TYPE DEFINITIONS
-// ============================================================================
+      return {
+        method: 'rotateVendorKey',
+        params: { vendorRef },
+        result: vendorPublicKey,
+        contractCall: {
+          circuit: 'rotateVendorKey',
+          input: `[${vendorRef.slice(0, 16)}..., ${vendorPublicKey.slice(0, 16)}...]`,
+          output: 'Vendor key rotated',
+          ledgerUpdate: `vendorKeys.insert(vendorRef, newKey)`,
+          authorization: "Proof of the vendor's current key",
+          privacyLevel: 'PUBLIC'
+        },
+        timestamp: new Date().toISOString(),
+        contractAddress: this.contractAddress,
+        transactionHash: result?.transactionHash,
+        gasUsed: result?.gasUsed?.toString()
+      };
+    } catch (error) {
+      return {
+        method: 'rotateVendorKey',
+        params: { vendorRef },
+        error: error instanceof Error ? error.message : 'Unknown error',
+        timestamp: new Date().toISOString(),
+        contractAddress: this.contractAddress
+      };
+    }
+  }
 
-export interface VerifyQualificationParams {
-  vendorScore: number;
-  minimumThreshold: number;
-  salt: number | bigint;
-}
+  /**
+   * Read a vendor reference's enrolled public key from the public ledger (read-only, no transaction)
+   */
+  async getVendorEnrolment(vendorRef: string): Promise<SmartContractResponse> {
+    try {
+      const ledger = await this.readLedgerOrThrow();
+      const ref = vendorRefBytes(vendorRef);
+      const enrolled = ledger.vendorKeys.member(ref);
+      const summary: VendorEnrolmentSummary = {
+        vendorRef: bytesToHex(ref),
+        enrolled,
+        publicKey: enrolled ? bytesToHex(ledger.vendorKeys.lookup(ref)) : null
+      };
 
-export interface CheckComplianceParams {
-  certificationValid: boolean;
-  insuranceActive: boolean;
-  paymentHistoryGood: boolean;
-}
+      return {
+        method: 'getVendorEnrolment',
+        params: { vendorRef },
+        result: summary,
+        contractCall: {
+          circuit: 'ledger.vendorKeys',
+          input: `[${vendorRef.slice(0, 16)}...]`,
+          output: enrolled ? 'Vendor enrolled' : 'Vendor is not enrolled',
+          privacyLevel: 'PUBLIC'
+        },
+        timestamp: new Date().toISOString(),
+        contractAddress: this.contractAddress
+      };
+    } catch (error) {
+      return {
+        method: 'getVendorEnrolment',
+        params: { vendorRef },
+        error: error instanceof Error ? error.message : 'Unknown error',
+        timestamp: new Date().toISOString(),
+        contractAddress: this.contractAddress
+      };
+    }
+  }
 
-export interface SmartContractResponse {
-  method: string;
-  params?: any;
-  result?: any;
-  contractCall?: {
-    circuit: string;
-    input: string;
-    output: string;
-    [key: string]: any;
-  };
-  error?: string;
-  timestamp: string;
-  contractAddress: string;
-  transactionHash?: string;
-  gasUsed?: string;
-}
+  /**
+   * Get the evidence bundle hash stored with a vendor's qualification (read-only, no transaction)
+   */
+  async getEvidenceHash(roundId: number, vendorRef: string): Promise<SmartContractResponse> {
+    try {
+      const ledger = await this.readLedgerOrThrow();
+      const summary = this.evidenceSummary(ledger, roundId, vendorRef);
 
-// ============================================================================
-// CONTRACT SERVICE CLASS
-// ============================================================================
+      return {
+        method: 'getEvidenceHash',
+        params: { roundId, vendorRef },
+        result: summary,
+        contractCall: {
+          circuit: 'ledger.vendors',
+          input: `[${roundId}, ${vendorRef.slice(0, 16)}...]`,
+          output: !summary.recorded
+            ? 'No qualification recorded'
+            : summary.evidenceHash ? 'Evidence hash found' : 'No evidence attached',
+          privacyLevel: 'PUBLIC'
+        },
+        timestamp: new Date().toISOString(),
+        contractAddress: this.contractAddress
+      };
+    } catch (error) {
+      return {
+        method: 'getEvidenceHash',
+        params: { roundId, vendorRef },
+        error: error instanceof Error ? error.message : 'Unknown error',
+        timestamp: new Date().toISOString(),
+        contractAddress: this.contractAddress
+      };
+    }
+  }
 
-/**
- * Smart Contract Service
- * Manages all interactions with the Vendor Qualification contract
- */
-export class VendorQualificationService {
-  private contractAddress: string;
-  private contractInstance: any | null = null;
+  /**
+   * Check whether a set of evidence files matches the hash stored with a vendor's qualification
+   * The files are hashed in the browser and never leave it (read-only, no transaction)
+   */
+  async verifyEvidence(roundId: number, vendorRef: string, files: Iterable<Blob>): Promise<SmartContractResponse> {
+    try {
+      const ledger = await this.readLedgerOrThrow();
+      const stored = this.evidenceSummary(ledger, roundId, vendorRef);
+      if (!stored.recorded) {
+        throw new Error('Vendor has no qualification recorded in this round');
+      }
+      if (!stored.evidenceHash) {
+        throw new Error('No evidence was attached to this qualification');
+      }
+      const computedHash = await hashEvidenceFiles(files);
+      const summary: EvidenceCheckSummary = { ...stored, computedHash, matches: computedHash === stored.evidenceHash };
 
-  constructor(contractAddress: string = CONTRACT_CONFIG.ADDRESS) {
-    this.contractAddress = contractAddress;
+      return {
+        method: 'verifyEvidence',
+        params: { roundId, vendorRef },
+        result: summary,
+        contractCall: {
+          circuit: 'ledger.vendors',
+          input: `[${roundId}, ${vendorRef.slice(0, 16)}...]`,
+          output: summary.matches ? 'Evidence matches the stored hash' : 'Evidence does not match the stored hash',
+          privacyLevel: 'PUBLIC',
+          note: 'Files are hashed locally and never uploaded'
+        },
+        timestamp: new Date().toISOString(),
+        contractAddress: this.contractAddress
+      };
+    } catch (error) {
+      return {
+        method: 'verifyEvidence',
+        params: { roundId, vendorRef },
+        error: error instanceof Error ? error.message : 'Unknown error',
+        timestamp: new Date().toISOString(),
+        contractAddress: this.contractAddress
+      };
+    }
   }
 
   /**
-   * Attach an instantiated Midnight contract so all calls hit the chain directly
+   * Get a vendor's qualification tier in a round (Circuit 4a)
+   * Tier is none unless the vendor is qualified and proved a score band
+   * Restricted like isVendorQualified to the vendor itself and registered officers
    */
-  bindContractInstance(instance: any) {
-    this.contractInstance = instance;
-  }
+  async getVendorTier(roundId: number, vendorRef: string): Promise<SmartContractResponse> {
+    try {
+      const contract = this.getContractOrThrow();
+      const identity = await this.getStatusQueryIdentity(vendorRef);
+      const result = await contract.getVendorTier(BigInt(roundId), vendorRefBytes(vendorRef));
+      const tier = toVendorTier(Array.isArray(result) ? result[0] : result);
 
-  private getContractOrThrow() {
-    if (!this.contractInstance) {
-      throw new Error('Contract instance not attached. Call bindContractInstance() with a real Midnight contract.');
+      return {
+        method: 'getVendorTier',
+        params: { roundId, vendorRef },
+        result: tier,
+        contractCall: {
+          circuit: 'getVendorTier',
+          input: `[${roundId}, ${vendorRef.slice(0, 16)}...]`,
+          output: `[${tier}]`,
+          tier,
+          queriedAs: `${identity.role} ${identity.publicKey.slice(0, 16)}...`,
+          privacyLevel: 'PRIVACY_PRESERVING'
+        },
+        timestamp: new Date().toISOString(),
+        contractAddress: this.contractAddress,
+        transactionHash: result?.transactionHash,
+        gasUsed: result?.gasUsed?.toString()
+      };
+    } catch (error) {
+      return {
+        method: 'getVendorTier',
+        params: { roundId, vendorRef },
+        error: error instanceof Error ? error.message : 'Unknown error',
+        timestamp: new Date().toISOString(),
+        contractAddress: this.contractAddress
+      };
     }
-
-    return this.contractInstance;
   }
 
   /**
-   * Verify vendor meets minimum quality threshold (Circuit 1)
-   * Implements ZK proof: vendorScore >= minimumThreshold
+   * Prove the committed sub-metrics score within a tier's band and record the tier (Circuit 1c)
+   * Only the tier is published; the score and sub-metrics stay in private state
+   * Only succeeds when the private state holds the vendor's enrolled secret key
    */
-  async verifyQualification(params: VerifyQualificationParams): Promise<SmartContractResponse> {
-    const { vendorScore, minimumThreshold, salt } = params;
-    
+  async proveTier(params: ProveTierParams): Promise<SmartContractResponse> {
+    const { vendorId, metrics, salt, roundId, tier } = params;
+
     try {
       const contract = this.getContractOrThrow();
-      const result = await contract.verifyQualification(
-        vendorScore,
-        minimumThreshold,
-        salt
-      );
+      await this.assertVendorKeyPresent();
+      if (tier === 'none') {
+        throw new Error('Tier none has no score band');
+      }
+      await this.updatePrivateState({
+        qualification: {
+          vendorId: BigInt(vendorId),
+          referenceSalt: await this.referenceSaltOrThrow(),
+          metrics: metricScores(metrics),
+          salt: BigInt(salt)
+        }
+      });
+      const result = await contract.proveTier(BigInt(roundId), VENDOR_TIERS.indexOf(tier));
 
       return {
-        method: 'verifyQualification',
-        params: {
-          vendorScore,
-          minimumThreshold,
-          salt: salt.toString(),
-        },
-        result: Array.isArray(result) ? result[0] : result,
+        method: 'proveTier',
+        params: { vendorId: vendorId.toString(), roundId, tier },
+        result: tier,
         contractCall: {
-          circuit: 'verifyQualification',
-          input: `[${vendorScore}, ${minimumThreshold}, ${salt}]`,
-          output: Array.isArray(result) ? `[${result[0]}]` : JSON.stringify(result),
-          zkProof: `Proves vendorScore (${vendorScore}) >= minimumThreshold (${minimumThreshold}) without revealing score`,
+          circuit: 'proveTier',
+          input: `[${roundId}, ${tier}]`,
+          output: 'Tier recorded',
+          tier,
+          zkProof: `Proves the committed weighted score of vendor ${vendorId} is in the ${tier} band without revealing it`,
+          ledgerUpdate: `vendorTiers[${roundId}].insert(vendorRef, ${tier})`,
           privacyLevel: 'FULL_ZERO_KNOWLEDGE'
         },
         timestamp: new Date().toISOString(),
@@ -119,8 +2772,8 @@ export class VendorQualificationService {
       };
     } catch (error) {
       return {
-        method: 'verifyQualification',
-        params,
+        method: 'proveTier',
+        params: { vendorId: vendorId.toString(), roundId, tier },
         error: error instanceof Error ? error.message : 'Unknown error',
         timestamp: new Date().toISOString(),
         contractAddress: this.contractAddress
@@ -129,35 +2782,107 @@ export class VendorQualificationService {
   }
 
   /**
-   * Check compliance without revealing individual details (Circuit 2)
-   * All requirements must pass
+   * Define the score band [low, high) for a tier; use high = 101 to include a perfect score
+   * Only succeeds when the private state holds the procurement authority secret key
    */
-  async checkCompliance(params: CheckComplianceParams): Promise<SmartContractResponse> {
-    const { certificationValid, insuranceActive, paymentHistoryGood } = params;
-    
+  async setTierBand(tier: VendorTier, low: number, high: number): Promise<SmartContractResponse> {
     try {
       const contract = this.getContractOrThrow();
-      const result = await contract.checkCompliance(
-        certificationValid,
-        insuranceActive,
-        paymentHistoryGood
-      );
+      if (tier === 'none') {
+        throw new Error('Tier none has no score band');
+      }
+      if (!(low < high && high <= 101)) {
+        throw new Error('Score band must satisfy low < high <= 101');
+      }
+      await this.assertAuthorityKeyPresent();
+      const result = await contract.setTierBand(VENDOR_TIERS.indexOf(tier), BigInt(low), BigInt(high));
 
       return {
-        method: 'checkCompliance',
+        method: 'setTierBand',
+        params: { tier, low, high },
+        contractCall: {
+          circuit: 'setTierBand',
+          input: `[${tier}, ${low}, ${high}]`,
+          output: 'Score band published',
+          ledgerUpdate: `tierBands.insert(${tier}, [${low}, ${high}))`,
+          authorization: 'Proof of procurement authority key',
+          privacyLevel: 'PUBLIC'
+        },
+        timestamp: new Date().toISOString(),
+        contractAddress: this.contractAddress,
+        transactionHash: result?.transactionHash,
+        gasUsed: result?.gasUsed?.toString()
+      };
+    } catch (error) {
+      return {
+        method: 'setTierBand',
+        params: { tier, low, high },
+        error: error instanceof Error ? error.message : 'Unknown error',
+        timestamp: new Date().toISOString(),
+        contractAddress: this.contractAddress
+      };
+    }
+  }
+
+  /**
+   * List the tier score bands from the public ledger (read-only, no transaction)
+   */
+  async listTierBands(): Promise<SmartContractResponse> {
+    try {
+      const ledger = await this.readLedgerOrThrow();
+      const bands: TierBandSummary[] = Array.from(ledger.tierBands, ([tier, band]) => ({
+        tier: toVendorTier(tier),
+        low: Number(band.low),
+        high: Number(band.high)
+      }));
+
+      return {
+        method: 'listTierBands',
+        result: bands,
+        contractCall: {
+          circuit: 'ledger.tierBands',
+          input: '[]',
+          output: `${bands.length} score band(s)`,
+          privacyLevel: 'PUBLIC'
+        },
+        timestamp: new Date().toISOString(),
+        contractAddress: this.contractAddress
+      };
+    } catch (error) {
+      return {
+        method: 'listTierBands',
+        error: error instanceof Error ? error.message : 'Unknown error',
+        timestamp: new Date().toISOString(),
+        contractAddress: this.contractAddress
+      };
+    }
+  }
+
+  /**
+   * Open the sealed-bid tender for a procurement round
+   * Bids are committed until biddingEndsAt and revealed until revealEndsAt
+   * Only succeeds when the private state holds the procurement authority secret key
+   */
+  async openTender(roundId: number, biddingEndsAt: Date, revealEndsAt: Date): Promise<SmartContractResponse> {
+    const biddingEndsAtSeconds = Math.floor(biddingEndsAt.getTime() / 1000);
+    const revealEndsAtSeconds = Math.floor(revealEndsAt.getTime() / 1000);
+    const params = { roundId, biddingEndsAt: biddingEndsAt.toISOString(), revealEndsAt: revealEndsAt.toISOString() };
+
+    try {
+      const contract = this.getContractOrThrow();
+      await this.assertAuthorityKeyPresent();
+      const result = await contract.openTender(BigInt(roundId), BigInt(biddingEndsAtSeconds), BigInt(revealEndsAtSeconds));
+
+      return {
+        method: 'openTender',
         params,
-        result: Array.isArray(result) ? result[0] : result,
         contractCall: {
-          circuit: 'checkCompliance',
-          input: `[${certificationValid}, ${insuranceActive}, ${paymentHistoryGood}]`,
-          output: Array.isArray(result) ? `[${result[0]}]` : JSON.stringify(result),
-          logic: `certification AND insurance AND paymentHistory`,
-          criteria: {
-            certification: certificationValid ? '✓' : '✗',
-            insurance: insuranceActive ? '✓' : '✗',
-            paymentHistory: paymentHistoryGood ? '✓' : '✗'
-          },
-          privacyLevel: 'FULL_ZERO_KNOWLEDGE'
+          circuit: 'openTender',
+          input: `[${roundId}, ${biddingEndsAtSeconds}, ${revealEndsAtSeconds}]`,
+          output: 'Tender opened for sealed bids',
+          ledgerUpdate: `tenders.insert(${roundId}, { biddingEndsAt: ${biddingEndsAtSeconds}, revealEndsAt: ${revealEndsAtSeconds}, ... })`,
+          authorization: 'Proof of procurement authority key',
+          privacyLevel: 'PUBLIC'
         },
         timestamp: new Date().toISOString(),
         contractAddress: this.contractAddress,
@@ -166,7 +2891,7 @@ export class VendorQualificationService {
       };
     } catch (error) {
       return {
-        method: 'checkCompliance',
+        method: 'openTender',
         params,
         error: error instanceof Error ? error.message : 'Unknown error',
         timestamp: new Date().toISOString(),
@@ -176,23 +2901,34 @@ export class VendorQualificationService {
   }
 
   /**
-   * Record vendor qualification in public ledger (Circuit 3)
+   * Submit a sealed bid for a round during the bidding window
+   * The amount and a fresh salt go into private state; only their commitment is published
+   * The bidder proves membership in the qualified set like proveMembership and is keyed by
+   * its bidder tag; the vendor id is only used locally to build the witness path
    */
-  async recordQualification(vendorId: number): Promise<SmartContractResponse> {
+  async commitBid(roundId: number, vendorId: number, amount: number): Promise<SmartContractResponse> {
     try {
       const contract = this.getContractOrThrow();
-      const result = await contract.recordQualification(vendorId);
+      if (!Number.isSafeInteger(amount) || amount <= 0) {
+        throw new Error('Bid amount must be a positive whole number');
+      }
+      await this.prepareMembershipProof(roundId, vendorId);
+      const state = await this.getPrivateStateStoreOrThrow().get(CONTRACT_CONFIG.PRIVATE_STATE_ID);
+      const bid: SealedBidRecord = { amount: BigInt(amount), salt: crypto.getRandomValues(new Uint8Array(32)) };
+      await this.updatePrivateState({ bids: { ...state?.bids, [roundId.toString()]: bid } });
+      const result = await contract.commitBid(BigInt(roundId));
 
       return {
-        method: 'recordQualification',
-        params: { vendorId },
+        method: 'commitBid',
+        params: { roundId },
         contractCall: {
-          circuit: 'recordQualification',
-          input: `[${vendorId}]`,
-          output: Array.isArray(result) ? JSON.stringify(result) : 'Vendor marked as qualified',
-          ledgerUpdate: `vendors.markQualified(${vendorId})`,
-          privacyLevel: 'PUBLIC',
-          note: 'This is a public transaction visible on-chain'
+          circuit: 'commitBid',
+          input: `[${roundId}]`,
+          output: 'Sealed bid committed',
+          zkProof: `Proves a leaf of qualifiedMembers belongs to the bidder for round ${roundId} without revealing which`,
+          ledgerUpdate: `bidCommitments[${roundId}].insert(bidderTag, commitment)`,
+          privacyLevel: 'PRIVACY_PRESERVING',
+          note: 'Bid amount stays in private state until revealBid'
         },
         timestamp: new Date().toISOString(),
         contractAddress: this.contractAddress,
@@ -201,8 +2937,8 @@ export class VendorQualificationService {
       };
     } catch (error) {
       return {
-        method: 'recordQualification',
-        params: { vendorId },
+        method: 'commitBid',
+        params: { roundId },
         error: error instanceof Error ? error.message : 'Unknown error',
         timestamp: new Date().toISOString(),
         contractAddress: this.contractAddress
@@ -211,26 +2947,31 @@ export class VendorQualificationService {
   }
 
   /**
-   * Check if vendor is qualified - yes/no only (Circuit 4)
-   * No details revealed, maintains privacy
+   * Reveal the sealed bid held in private state during the reveal window
+   * The contract checks it against the commitment and keeps the lowest revealed bid as winner
+   * The bidder must still be in the qualified set; the vendor id is only used locally
    */
-  async isVendorQualified(vendorId: number): Promise<SmartContractResponse> {
+  async revealBid(roundId: number, vendorId: number): Promise<SmartContractResponse> {
     try {
       const contract = this.getContractOrThrow();
-      const result = await contract.isVendorQualified(vendorId);
-      const qualified = Array.isArray(result) ? result[0] : result;
+      const state = await this.getPrivateStateStoreOrThrow().get(CONTRACT_CONFIG.PRIVATE_STATE_ID);
+      if (!state?.bids?.[roundId.toString()]) {
+        throw new Error('No sealed bid in private state for this round. Call commitBid() first.');
+      }
+      await this.prepareMembershipProof(roundId, vendorId);
+      const result = await contract.revealBid(BigInt(roundId));
+      const amount = Array.isArray(result) ? result[0] : state.bids[roundId.toString()].amount;
 
       return {
-        method: 'isVendorQualified',
-        params: { vendorId },
-        result: qualified,
+        method: 'revealBid',
+        params: { roundId },
+        result: amount?.toString(),
         contractCall: {
-          circuit: 'isVendorQualified',
-          input: `[${vendorId}]`,
-          output: Array.isArray(result) ? `[${result[0]}]` : JSON.stringify(result),
-          status: qualified ? 'QUALIFIED' : 'NOT_QUALIFIED',
-          privacyNote: 'Only yes/no returned. Score and details are never revealed.',
-          privacyLevel: 'PRIVACY_PRESERVING'
+          circuit: 'revealBid',
+          input: `[${roundId}]`,
+          output: `Bid revealed: ${amount}`,
+          ledgerUpdate: `revealedBids[${roundId}].insert(bidderTag, ${amount})`,
+          privacyLevel: 'PUBLIC'
         },
         timestamp: new Date().toISOString(),
         contractAddress: this.contractAddress,
@@ -239,8 +2980,108 @@ export class VendorQualificationService {
       };
     } catch (error) {
       return {
-        method: 'isVendorQualified',
-        params: { vendorId },
+        method: 'revealBid',
+        params: { roundId },
+        error: error instanceof Error ? error.message : 'Unknown error',
+        timestamp: new Date().toISOString(),
+        contractAddress: this.contractAddress
+      };
+    }
+  }
+
+  /**
+   * Bidder tag (hex) of the membership secret in private state for a round
+   * Bids are published under this tag; the winner compares it with the tender's
+   * winningBidder and claims the award off-chain
+   */
+  async bidderTag(roundId: number): Promise<string> {
+    const circuits = this.getPureCircuitsOrThrow();
+    const state = await this.getPrivateStateStoreOrThrow().get(CONTRACT_CONFIG.PRIVATE_STATE_ID);
+    if (!state?.membershipSecret) {
+      throw new Error('No membership secret in private state. Call createMembershipKey() first.');
+    }
+    return bytesToHex(circuits.bidderTag(BigInt(roundId), state.membershipSecret));
+  }
+
+  /**
+   * Finalize a tender after its reveal window; the lowest revealed bid is awarded
+   * Only succeeds when the private state holds the procurement authority secret key
+   */
+  async finalizeTender(roundId: number): Promise<SmartContractResponse> {
+    try {
+      const contract = this.getContractOrThrow();
+      await this.assertAuthorityKeyPresent();
+      const result = await contract.finalizeTender(BigInt(roundId));
+      const awarded = Array.isArray(result) ? result[0] : result;
+
+      return {
+        method: 'finalizeTender',
+        params: { roundId },
+        result: awarded,
+        contractCall: {
+          circuit: 'finalizeTender',
+          input: `[${roundId}]`,
+          output: awarded ? 'Tender awarded to lowest revealed bid' : 'Tender closed without valid bids',
+          ledgerUpdate: `tenders.insert(${roundId}, { ..., finalized: true })`,
+          authorization: 'Proof of procurement authority key',
+          privacyLevel: 'PUBLIC'
+        },
+        timestamp: new Date().toISOString(),
+        contractAddress: this.contractAddress,
+        transactionHash: result?.transactionHash,
+        gasUsed: result?.gasUsed?.toString()
+      };
+    } catch (error) {
+      return {
+        method: 'finalizeTender',
+        params: { roundId },
+        error: error instanceof Error ? error.message : 'Unknown error',
+        timestamp: new Date().toISOString(),
+        contractAddress: this.contractAddress
+      };
+    }
+  }
+
+  /**
+   * Read a round's tender from the public ledger (read-only, no transaction)
+   * Result is null when no tender has been opened for the round
+   */
+  async getTender(roundId: number): Promise<SmartContractResponse> {
+    try {
+      const ledger = await this.readLedgerOrThrow();
+      const round = BigInt(roundId);
+      let tender: TenderSummary | null = null;
+      if (ledger.tenders.member(round)) {
+        const state = ledger.tenders.lookup(round);
+        tender = {
+          roundId: round.toString(),
+          phase: tenderPhase(state, new Date()),
+          biddingEndsAt: new Date(Number(state.biddingEndsAt) * 1000).toISOString(),
+          revealEndsAt: new Date(Number(state.revealEndsAt) * 1000).toISOString(),
+          sealedBids: Number(ledger.bidCommitments.lookup(round).size()),
+          revealedBids: Number(ledger.revealedBids.lookup(round).size()),
+          winningBidder: state.hasWinner ? bytesToHex(state.winningBidder) : null,
+          winningBid: state.hasWinner ? state.winningBid.toString() : null
+        };
+      }
+
+      return {
+        method: 'getTender',
+        params: { roundId },
+        result: tender,
+        contractCall: {
+          circuit: 'ledger.tenders',
+          input: `[${roundId}]`,
+          output: tender === null ? 'No tender' : `${tender.phase}, ${tender.sealedBids} sealed bid(s)`,
+          privacyLevel: 'PUBLIC'
+        },
+        timestamp: new Date().toISOString(),
+        contractAddress: this.contractAddress
+      };
+    } catch (error) {
+      return {
+        method: 'getTender',
+        params: { roundId },
         error: error instanceof Error ? error.message : 'Unknown error',
         timestamp: new Date().toISOString(),
         contractAddress: this.contractAddress
@@ -8,7 +8,72 @@ export {
   contractService,
   VendorQualificationService,
   CONTRACT_CONFIG,
+  NETWORK_NAME,
+  NETWORK_PROFILE,
+  NETWORK_PROFILES,
+  generateSalt,
+  parseIssuedAttestation,
+  hexToBytes,
+  bytesToHex,
+  encodeCriterionLabel,
+  decodeCriterionLabel,
+  COMPLIANCE_PROFILE_SLOTS,
+  QUALIFICATION_BATCH_SIZE,
+  chunkBatch,
+  hashEvidenceFiles,
+  indexerLedgerReader,
+  VENDOR_METRICS,
+  metricScores,
+  weightedScore,
+  VENDOR_TIERS,
+  type VendorTier,
+  type NetworkProfile,
+  type VendorMetrics,
+  type VendorMetricName,
+  type ScoringWeights,
   type VerifyQualificationParams,
+  type CommitScoreParams,
+  type ProveTierParams,
   type CheckComplianceParams,
+  type VendorQualificationRecord,
+  type BlindingPrivateState,
+  type PrivateStateStore,
+  type ContractConnection,
+  type BlindingPureCircuits,
+  type LedgerMap,
+  type LedgerSet,
+  type BlindingLedgerState,
+  type ProcurementRoundState,
+  type QualificationRecordState,
+  type QualificationProposalState,
+  type LedgerMerkleTree,
+  type TenderState,
+  type SealedBidRecord,
+  type ProcurementRoundSummary,
+  type PendingProposalSummary,
+  type QualificationBatchEntry,
+  type BatchProgress,
+  type ProposalBatchSummary,
+  type ApprovalBatchSummary,
+  type ComplianceCriterionSummary,
+  type ComplianceProfileSummary,
+  type CurvePoint,
+  type AttestationRecord,
+  type IssuedAttestation,
+  type TierBandState,
+  type TierBandSummary,
+  type ProofReceiptState,
+  type ProofReceiptSummary,
+  type EvidenceSummary,
+  type EvidenceCheckSummary,
+  type VendorEnrolmentSummary,
+  type StatusQueryIdentity,
+  type RoundStatisticsSummary,
+  type ProfileStatisticsSummary,
+  type QualificationStatisticsSummary,
+  type CertifierState,
+  type CertifierSummary,
+  type TenderPhase,
+  type TenderSummary,
   type SmartContractResponse,
 } from './ContractService';
@@ -1 +1,8 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  // Profile name in networks.json (undeployed, preprod, testnet, custom)
+  readonly VITE_NETWORK?: string
+  // Address of the deployed blinding contract (contractAddress in contract/deployment.json)
+  readonly VITE_CONTRACT_ADDRESS?: string
+}